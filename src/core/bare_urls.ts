@@ -0,0 +1,135 @@
+import { getDomain } from 'tldts';
+import { DateStyle, formatCitationDate, parseCitationDate } from './citation_dates';
+import { domainFromUrl } from './string_utils';
+
+/** What a metadata lookup knows about a web page. */
+export interface UrlMetadata {
+	title?: string;
+	/** Name of the site or of the periodical the page belongs to. */
+	website?: string;
+	publisher?: string;
+	authors?: Array<{ last: string; first?: string }>;
+	/** Publication date, in any form {@link parseCitationDate} reads or as written. */
+	date?: string;
+	language?: string;
+}
+
+/** Looks up the metadata of a URL; resolves to null when nothing is known about it. */
+export type UrlMetadataResolver = (url: string) => Promise<UrlMetadata | null>;
+
+/** How bare URLs are turned into citations. */
+export interface BareUrlOptions {
+	/** Date the URLs were accessed, written as `access-date`. */
+	accessDate: Date;
+	/** Date format of the page; dates are written as ISO dates without one. */
+	dateStyle?: DateStyle | null;
+	/** Metadata lookup; without one, or when it finds nothing, only a bracketed link's label gives the title. */
+	resolve?: UrlMetadataResolver;
+}
+
+/**
+ * Get the URL of a ref body that holds nothing else: a bare URL, or an external link
+ * in brackets, with or without a label.
+ * @param content - Ref body wikitext.
+ * @returns URL and link label (null when unlabeled), or null when the body is something else.
+ */
+export function findBareUrl(content: string): { url: string; label: string | null } | null {
+	const text = content.trim();
+	const bracketed = /^\[((?:https?:)?\/\/[^\s\]]+)(?:\s+([^\]]*))?\]$/i.exec(text);
+	if (bracketed) return { url: bracketed[1], label: bracketed[2]?.trim() || null };
+	const bare = /^https?:\/\/[^\s[\]<>{}|]+$/i.exec(text);
+	return bare ? { url: bare[0], label: null } : null;
+}
+
+/**
+ * Write a {{cite web}} for a URL. The site falls back to the URL's registered domain
+ * (`news.example.co.uk` gives `example.co.uk`; hosts without one, such as IP addresses,
+ * are written whole), and a protocol-relative URL is written with `https:`. A citation
+ * without a title is a CS1 error, so none is written for a page whose title is unknown.
+ * @param url - Cited URL.
+ * @param metadata - What is known about the page, or null.
+ * @param options - Access date and date format.
+ * @returns Cite template markup, or null when the title is unknown.
+ */
+export function renderBareUrlCitation(url: string, metadata: UrlMetadata | null, options: BareUrlOptions): string | null {
+	const title = metadata?.title?.trim();
+	if (!title) return null;
+	url = absoluteUrl(url);
+	const style = options.dateStyle ?? null;
+	const order = style?.order ?? 'dmy';
+	const published = metadata?.date ? parseCitationDate(metadata.date) : null;
+	const accessed = options.accessDate;
+	const params: Array<[string, string | undefined]> = [
+		['url', url.replace(/\|/g, '%7C')],
+		['title', title]
+	];
+	const authors = metadata?.authors ?? [];
+	authors.forEach((author, i) => {
+		const n = authors.length > 1 ? String(i + 1) : '';
+		params.push([`last${n}`, author.last], [`first${n}`, author.first]);
+	});
+	params.push(
+		// A date that cannot be read is kept as the lookup gave it
+		['date', published && published !== 'ambiguous' ? formatCitationDate(published, order, style?.publication ?? 'iso') : metadata?.date],
+		['website', metadata?.website || getDomain(url) || domainFromUrl(url) || undefined],
+		['publisher', metadata?.publisher],
+		['language', metadata?.language],
+		['access-date', formatCitationDate(
+			{ year: accessed.getUTCFullYear(), month: accessed.getUTCMonth() + 1, day: accessed.getUTCDate() },
+			order,
+			style?.access ?? 'iso'
+		)]
+	);
+	const written = params
+		.filter((param): param is [string, string] => param[1] !== undefined && param[1].trim() !== '')
+		.map(([key, value]) => ` |${key}=${key === 'url' ? value : escapeParamValue(value)}`);
+	return `{{cite web${written.join('')}}}`;
+}
+
+/**
+ * Turn a ref body holding only a URL into a {{cite web}}, looking the URL up with the
+ * resolver when one is given. The label of a bracketed link stands in for a title the
+ * lookup did not find; with neither, the URL is left bare.
+ * @param content - Ref body wikitext.
+ * @param options - Access date, date format and metadata lookup.
+ * @returns New body, or null when the body is not a bare URL or no title is known.
+ */
+export async function citeBareUrl(content: string, options: BareUrlOptions): Promise<string | null> {
+	const found = findBareUrl(content);
+	if (!found) return null;
+	const url = absoluteUrl(found.url);
+	let metadata: UrlMetadata | null = null;
+	if (options.resolve) {
+		try {
+			metadata = await options.resolve(url);
+		} catch (e) {
+			console.warn('[Cite Forge] URL metadata lookup failed', { url, error: e });
+		}
+	}
+	if (found.label && !metadata?.title) metadata = { ...metadata, title: found.label };
+	return renderBareUrlCitation(url, metadata, options);
+}
+
+/**
+ * Give a protocol-relative URL a scheme, as a citation must link to one place.
+ * @param url - URL as written.
+ * @returns URL with `https:` added when it starts with `//`.
+ */
+function absoluteUrl(url: string): string {
+	return url.startsWith('//') ? `https:${url}` : url;
+}
+
+/**
+ * Write text as a template param value: pipes and square brackets are escaped and line
+ * breaks become spaces.
+ * @param value - Text.
+ * @returns Param value.
+ */
+function escapeParamValue(value: string): string {
+	return value
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/\|/g, '{{!}}')
+		.replace(/\[/g, '&#91;')
+		.replace(/\]/g, '&#93;');
+}
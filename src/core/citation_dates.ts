@@ -0,0 +1,185 @@
+import { Citation, readCitation } from './citation_model';
+import { patchTemplateParams, readTemplateParams } from './markup_patch';
+import { convertDigitsToAscii } from './string_utils';
+
+/** Order of day and month in a page's dates. */
+export type DateOrder = 'dmy' | 'mdy';
+
+/** How a kind of date is written: with full month names, abbreviated ones, or as ISO 8601 (YYYY-MM-DD). */
+export type DateForm = 'long' | 'short' | 'iso';
+
+/** Date format a page asks for, as set by {{Use dmy dates}} or {{Use mdy dates}} and their `cs1-dates` param. */
+export interface DateStyle {
+	order: DateOrder;
+	/** Form of publication dates (`date`). */
+	publication: DateForm;
+	/** Form of access and archive dates. */
+	access: DateForm;
+}
+
+/** A calendar date read from a citation; day is null for a month and year. */
+export interface CitationDate {
+	year: number;
+	month: number;
+	day: number | null;
+}
+
+/** A date param rewritten by {@link normalizeCitationDates}. */
+export interface DateRewrite {
+	/** Param name as written. */
+	param: string;
+	from: string;
+	to: string;
+}
+
+/** Result of {@link normalizeCitationDates}. */
+export interface CitationDates {
+	citation: Citation;
+	rewrites: DateRewrite[];
+	/** Dates left as written because the day and month could be read either way. */
+	ambiguous: Array<{ param: string; value: string }>;
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** Date params and the kind of date they hold, keyed by lowercase name; retired spellings included. */
+const DATE_PARAMS: Record<string, keyof Omit<DateStyle, 'order'>> = {
+	'date': 'publication',
+	'access-date': 'access',
+	'accessdate': 'access',
+	'archive-date': 'access',
+	'archivedate': 'access'
+};
+
+const CS1_DATE_FORMS: Record<string, DateForm> = { l: 'long', s: 'short', y: 'iso' };
+
+const USE_DATES_RE = /\{\{\s*(?:use[\s_]+)?(dmy|mdy)(?:[\s_]+dates?)?\s*(\|[^{}]*)?\}\}/gi;
+
+/**
+ * Find the date format a page asks for in its {{Use dmy dates}} or {{Use mdy dates}}
+ * template. The `cs1-dates` param picks the form of publication dates and of access and
+ * archive dates: `l` long, `s` short, `y` ISO, one letter for both (`ly` is long
+ * publication dates with ISO access dates).
+ * @param wikitext - Page wikitext.
+ * @returns Date style of the first such template outside comments, or null when there is none.
+ */
+export function detectDateStyle(wikitext: string): DateStyle | null {
+	const text = wikitext.replace(/<!--[\s\S]*?(?:-->|$)/g, (comment) => ' '.repeat(comment.length));
+	USE_DATES_RE.lastIndex = 0;
+	const m = USE_DATES_RE.exec(text);
+	if (!m) return null;
+	const order = m[1].toLowerCase() as DateOrder;
+	const param = readTemplateParams(m[0]).find((candidate) => candidate.key.toLowerCase() === 'cs1-dates');
+	const forms = /^([lsy])([lsy])?$/i.exec(param?.value ?? '');
+	if (!forms) return { order, publication: 'long', access: 'long' };
+	const publication = CS1_DATE_FORMS[forms[1].toLowerCase()];
+	return { order, publication, access: forms[2] ? CS1_DATE_FORMS[forms[2].toLowerCase()] : publication };
+}
+
+/**
+ * Read a full date, or a month and year, in the forms citations are written in: ISO,
+ * day-month-year, month-day-year, CJK (年月日), and numeric dates whose order is clear.
+ * Digits of any script are read.
+ * @param value - Date as written, without comments.
+ * @returns Date; 'ambiguous' for numeric dates that read as either day or month first;
+ *   null for anything else (years, ranges, seasons, templates, invalid dates).
+ */
+export function parseCitationDate(value: string): CitationDate | 'ambiguous' | null {
+	const text = convertDigitsToAscii(value).trim().replace(/\s+/g, ' ');
+	let m: RegExpExecArray | null;
+	if ((m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text)) || (m = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/.exec(text))) {
+		return validDate(+m[1], +m[2], +m[3]);
+	}
+	if ((m = /^(\d{4})年(\d{1,2})月(?:(\d{1,2})日)?$/.exec(text))) return validDate(+m[1], +m[2], m[3] ? +m[3] : null);
+	if ((m = /^(\d{1,2}) ([a-z]+)\.?,? (\d{4})$/i.exec(text))) return validDate(+m[3], monthNumber(m[2]), +m[1]);
+	if ((m = /^([a-z]+)\.? (\d{1,2}),? (\d{4})$/i.exec(text))) return validDate(+m[3], monthNumber(m[1]), +m[2]);
+	if ((m = /^([a-z]+)\.?,? (\d{4})$/i.exec(text))) return validDate(+m[2], monthNumber(m[1]), null);
+	if ((m = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})$/.exec(text))) {
+		const [first, second, year] = [+m[1], +m[3], +m[4]];
+		if (first > 12) return validDate(year, second, first);
+		if (second > 12 || first === second) return validDate(year, first, second);
+		return 'ambiguous';
+	}
+	return null;
+}
+
+/**
+ * Write a date in a page's format. A month and year has no ISO form and is written with
+ * the month name.
+ * @param date - Date.
+ * @param order - Order of day and month.
+ * @param form - Form of the date.
+ * @returns Date text, e.g. "6 May 2020", "May 6, 2020", "6 Sep 2020" or "2020-05-06".
+ */
+export function formatCitationDate(date: CitationDate, order: DateOrder, form: DateForm): string {
+	if (form === 'iso' && date.day !== null) return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+	const month = form === 'short' ? MONTH_NAMES[date.month - 1].slice(0, 3) : MONTH_NAMES[date.month - 1];
+	if (date.day === null) return `${month} ${date.year}`;
+	return order === 'dmy' ? `${date.day} ${month} ${date.year}` : `${month} ${date.day}, ${date.year}`;
+}
+
+/**
+ * Rewrite the `date`, `access-date` and `archive-date` values of a citation in a page's
+ * format, keeping the comments next to them. Dates that could be read with day and month
+ * either way are left as written and listed; other values that are not a single date
+ * (years, ranges, seasons, templates) are left alone.
+ * @param citation - Citation.
+ * @param style - Date format of the page.
+ * @returns Updated citation, the rewrites made, and the ambiguous dates.
+ */
+export function normalizeCitationDates(citation: Citation, style: DateStyle): CitationDates {
+	const rewrites: DateRewrite[] = [];
+	const ambiguous: Array<{ param: string; value: string }> = [];
+	const next = citation.params.map((param) => {
+		const kind = DATE_PARAMS[param.key.toLowerCase()] ?? DATE_PARAMS[param.name];
+		if (!kind || !param.value) return null;
+		const date = parseCitationDate(param.value);
+		if (date === 'ambiguous') ambiguous.push({ param: param.key, value: param.value });
+		if (!date || date === 'ambiguous') return null;
+		const text = formatCitationDate(date, style.order, style[kind]);
+		if (text === param.value) return null;
+		rewrites.push({ param: param.key, from: param.value, to: text });
+		return text;
+	});
+	if (!rewrites.length) return { citation, rewrites, ambiguous };
+	let index = -1;
+	const raw = patchTemplateParams(citation.raw, (written) => {
+		const text = next[++index];
+		return text === null ? undefined : written.value.replace(citation.params[index].value, text);
+	});
+	return { citation: readCitation(raw) ?? citation, rewrites, ambiguous };
+}
+
+/**
+ * Check a year, month and day and build a date from them.
+ * @param year - Year.
+ * @param month - Month, 1-12, or 0 when the month name was not recognized.
+ * @param day - Day of the month, or null for a month and year.
+ * @returns Date, or null when no such date exists.
+ */
+function validDate(year: number, month: number, day: number | null): CitationDate | null {
+	if (month < 1 || month > 12) return null;
+	if (day !== null && (day < 1 || new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day)) return null;
+	return { year, month, day };
+}
+
+/**
+ * Look up a month by its English name or abbreviation ("Sept" included).
+ * @param name - Month name as written.
+ * @returns Month number, 1-12, or 0 when the name is not a month.
+ */
+function monthNumber(name: string): number {
+	const key = name.toLowerCase();
+	if (key === 'sept') return 9;
+	const index = MONTH_NAMES.findIndex((month) => month.toLowerCase() === key || (key.length === 3 && month.toLowerCase().startsWith(key)));
+	return index + 1;
+}
+
+/**
+ * Pad a month or day to two digits.
+ * @param n - Number.
+ * @returns Two-digit text.
+ */
+function pad(n: number): string {
+	return n < 10 ? `0${n}` : String(n);
+}
@@ -0,0 +1,432 @@
+import {
+	TemplateParamSpec,
+	TemplateParamType,
+	getTemplateAliasMap,
+	getTemplateParamOrder,
+	getTemplateParamSpecs
+} from '../data/templatedata_fetch';
+import { appendTemplateParam, patchTemplateParams, readTemplateParams, renameTemplateParams } from './markup_patch';
+import { convertDigitsToAscii } from './string_utils';
+
+/** A parameter of a citation template. */
+export interface CitationParam {
+	/** Name as written, or its position ("1", "2", ...) when unnamed. */
+	key: string;
+	/** Canonical name: the declared name the key is an alias of, lowercased. */
+	name: string;
+	/** Value without comments and the whitespace around it. */
+	value: string;
+	/** TemplateData spec, or null for params the template does not declare. */
+	spec: TemplateParamSpec | null;
+}
+
+/** A citation template invocation read against the template's TemplateData. */
+export interface Citation {
+	/** Template name as written. */
+	template: string;
+	/** Invocation markup, `{{…}}`. */
+	raw: string;
+	/** Parameters in written order. */
+	params: CitationParam[];
+	/** Specs of the declared params keyed by canonical name; empty when no TemplateData is cached. */
+	specs: Record<string, TemplateParamSpec>;
+}
+
+/** A field of a citation edit form. */
+export interface CitationField {
+	/** Canonical param name. */
+	name: string;
+	/** Name the param is written under, or the canonical name when it is not written yet. */
+	key: string;
+	value: string;
+	type: TemplateParamType;
+	required: boolean;
+	suggested: boolean;
+	deprecated: boolean;
+}
+
+/** Value accepted by {@link setCitationParam}; numbers and dates are written for the param's type. */
+export type CitationValue = string | number | Date;
+
+/** Kind of problem {@link checkCitation} finds in a citation. */
+export type CitationIssueKind = 'missing-required' | 'deprecated' | 'unknown' | 'duplicate' | 'invalid-value';
+
+/** One problem with a parameter of a citation. */
+export interface CitationIssue {
+	kind: CitationIssueKind;
+	/** Param name as written, or the canonical name of a missing param. */
+	param: string;
+	message: string;
+}
+
+/** A param rewritten under its canonical name by {@link migrateCitation}. */
+export interface ParamMigration {
+	/** Name as written. */
+	from: string;
+	/** Name it was rewritten to. */
+	to: string;
+	/** Value as written and as rewritten, when the new param takes different values. */
+	value?: { from: string; to: string };
+}
+
+/** Result of {@link migrateCitation}. */
+export interface CitationMigration {
+	citation: Citation;
+	/** Params rewritten, in written order. */
+	migrations: ParamMigration[];
+	/** Params left as written: undeclared, deprecated with no known replacement, or whose replacement is already given. */
+	issues: CitationIssue[];
+}
+
+/** Replacement of a retired param, with the values the new param takes for the old ones. */
+interface RetiredParam {
+	to: string;
+	values?: Record<string, string>;
+}
+
+const DEAD_URL_VALUES: Record<string, string> = { 'yes': 'dead', 'y': 'dead', 'true': 'dead', 'no': 'live', 'n': 'live', 'false': 'live', 'unfit': 'unfit', 'usurped': 'usurped' };
+
+/**
+ * Params the citation templates retired, which TemplateData marks deprecated (or drops)
+ * without saying what replaces them. Keyed by lowercase name.
+ */
+const RETIRED_PARAMS: Record<string, RetiredParam> = {
+	'accessdate': { to: 'access-date' },
+	'archivedate': { to: 'archive-date' },
+	'archiveurl': { to: 'archive-url' },
+	'authorlink': { to: 'author-link' },
+	'editorlink': { to: 'editor-link' },
+	'displayauthors': { to: 'display-authors' },
+	'displayeditors': { to: 'display-editors' },
+	'publicationdate': { to: 'publication-date' },
+	'publicationplace': { to: 'publication-place' },
+	'origyear': { to: 'orig-date' },
+	'nopp': { to: 'no-pp' },
+	'deadurl': { to: 'url-status', values: DEAD_URL_VALUES },
+	'dead-url': { to: 'url-status', values: DEAD_URL_VALUES },
+	'subscription': { to: 'url-access', values: { 'yes': 'subscription', 'y': 'subscription', 'true': 'subscription' } },
+	'registration': { to: 'url-access', values: { 'yes': 'registration', 'y': 'registration', 'true': 'registration' } },
+	'lastauthoramp': { to: 'name-list-style', values: { 'yes': 'amp', 'y': 'amp', 'true': 'amp' } }
+};
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+const SEASON = '(?:Spring|Summer|Fall|Autumn|Winter)';
+const YEAR = '(?:c\\.\\s*)?\\d{3,4}[a-z]?(?:[–-]\\d{2,4})?';
+
+/** Date forms the cite templates accept: ISO, day-month-year, month-day-year, month or season and year, years, CJK dates. */
+const DATE_FORMS = [
+	/^\d{4}-(0[1-9]|1[0-2])(?:-(0[1-9]|[12]\d|3[01]))?$/,
+	new RegExp(`^(?:\\d{1,2}[–-])?\\d{1,2} ${MONTH} \\d{4}$`, 'i'),
+	new RegExp(`^${MONTH} \\d{1,2}(?:[–-]\\d{1,2})?, \\d{4}$`, 'i'),
+	new RegExp(`^(?:${MONTH}|${SEASON})(?:[–-](?:${MONTH}|${SEASON}))? \\d{4}$`, 'i'),
+	new RegExp(`^${YEAR}$`),
+	/^\d{1,4}年(?:\d{1,2}月(?:\d{1,2}日)?)?$/,
+	/^(?:n\.d\.|nd|forthcoming|in press)$/i
+];
+
+/**
+ * Read a citation template invocation, resolving its params against the cached TemplateData.
+ * @param raw - Invocation as written, `{{cite web|…}}`.
+ * @returns Citation, or null when `raw` is not a template invocation.
+ */
+export function readCitation(raw: string): Citation | null {
+	const head = /^\{\{\s*([^{|}]+?)\s*(?=[|}])/.exec(raw);
+	if (!head || !raw.endsWith('}}')) return null;
+	const template = head[1];
+	const specs = getTemplateParamSpecs(template);
+	const aliases = getTemplateAliasMap(template);
+	const params = readTemplateParams(raw).map((param) => {
+		const name = canonicalParamName(param.key, aliases);
+		return { key: param.key, name, value: stripComments(param.value), spec: specs[name] ?? null };
+	});
+	return { template, raw, params, specs };
+}
+
+/**
+ * Get the value of a param, under whichever of its names it is written.
+ * @param citation - Citation.
+ * @param name - Param name or alias, case-insensitive.
+ * @returns First non-empty value, or undefined when the param is missing or empty.
+ */
+export function getCitationParam(citation: Citation, name: string): string | undefined {
+	const target = canonicalParamName(name, getTemplateAliasMap(citation.template));
+	return citation.params.find((param) => param.name === target && param.value)?.value;
+}
+
+/**
+ * Set a param, editing only its value. A param written under an alias keeps that name and
+ * the comments in its value, other copies of it are removed, and a missing param is added
+ * after the last one.
+ * @param citation - Citation.
+ * @param name - Param name or alias, case-insensitive; a missing param is added under this name.
+ * @param value - New value; numbers and dates are written for the param's type.
+ * @returns Updated citation.
+ */
+export function setCitationParam(citation: Citation, name: string, value: CitationValue): Citation {
+	const target = canonicalParamName(name, getTemplateAliasMap(citation.template));
+	const text = formatCitationValue(citation.specs[target]?.type ?? 'string', value);
+	const copies = citation.params.filter((param) => param.name === target);
+	if (!copies.length) return withRaw(citation, appendTemplateParam(citation.raw, name.trim(), text));
+	// Keep the copy that holds a value, so the edit lands where the reader saw it
+	const kept = copies.find((param) => param.value) ?? copies[0];
+	let index = -1;
+	const raw = patchTemplateParams(citation.raw, (written) => {
+		const param = citation.params[++index];
+		if (param.name !== target) return undefined;
+		if (param !== kept) return null;
+		if (param.value === text) return undefined;
+		const comments = written.value.match(/<!--[\s\S]*?-->/g);
+		return comments ? `${text} ${comments.join(' ')}` : text;
+	});
+	return withRaw(citation, raw);
+}
+
+/**
+ * Remove a param under all of its names.
+ * @param citation - Citation.
+ * @param name - Param name or alias, case-insensitive.
+ * @returns Updated citation.
+ */
+export function removeCitationParam(citation: Citation, name: string): Citation {
+	const target = canonicalParamName(name, getTemplateAliasMap(citation.template));
+	let index = -1;
+	const raw = patchTemplateParams(citation.raw, () => (citation.params[++index].name === target ? null : undefined));
+	return withRaw(citation, raw);
+}
+
+/**
+ * Check a citation against its TemplateData: required params that are missing or empty,
+ * deprecated or undeclared params, params given more than once, and values that do not
+ * fit the param's type. Nothing is reported for a template without cached TemplateData.
+ * @param citation - Citation.
+ * @returns Issues in written order, missing params last.
+ */
+export function checkCitation(citation: Citation): CitationIssue[] {
+	const declared = Object.keys(citation.specs);
+	if (!declared.length) return [];
+	const issues: CitationIssue[] = [];
+	const seen = new Set<string>();
+	citation.params.forEach((param) => {
+		if (!param.spec) {
+			issues.push({ kind: 'unknown', param: param.key, message: `"${param.key}" is not a parameter of {{${citation.template}}}.` });
+			return;
+		}
+		if (seen.has(param.name)) {
+			issues.push({ kind: 'duplicate', param: param.key, message: `"${param.key}" repeats the ${param.name} parameter.` });
+		}
+		seen.add(param.name);
+		if (param.spec.deprecated) {
+			issues.push({ kind: 'deprecated', param: param.key, message: `"${param.key}" is deprecated.` });
+		}
+		if (param.value && !isValidCitationValue(param.spec.type, param.value)) {
+			issues.push({ kind: 'invalid-value', param: param.key, message: `"${param.value}" is not a valid ${param.spec.type} for "${param.key}".` });
+		}
+	});
+	declared.forEach((name) => {
+		const spec = citation.specs[name];
+		if (!spec.required || citation.params.some((param) => param.name === name && param.value)) return;
+		issues.push({ kind: 'missing-required', param: name, message: `The required parameter "${name}" is missing.` });
+	});
+	return issues;
+}
+
+/**
+ * Rewrite retired and aliased params under their canonical names, keeping values, comments
+ * and layout as written. A value is converted when the new param takes different ones
+ * (`deadurl=no` becomes `url-status=live`); a param whose value has no equivalent, or whose
+ * new name is already given, is left as written, while an empty param under the new name
+ * is removed. Undeclared params are only reported.
+ * @param citation - Citation.
+ * @returns Migrated citation, the rewrites made, and the params left as written.
+ */
+export function migrateCitation(citation: Citation): CitationMigration {
+	const migrations: ParamMigration[] = [];
+	const issues: CitationIssue[] = [];
+	const declared = Object.keys(citation.specs).length > 0;
+	const plan = citation.params.map((param): ParamMigration | null => {
+		if (/^\d+$/.test(param.key)) return null;
+		const key = param.key.toLowerCase();
+		const retired = RETIRED_PARAMS[key];
+		const to = retired?.to ?? (param.name !== key ? param.name : null);
+		if (!to) {
+			if (declared && !param.spec) {
+				issues.push({ kind: 'unknown', param: param.key, message: `"${param.key}" is not a parameter of {{${citation.template}}}.` });
+			} else if (param.spec?.deprecated) {
+				issues.push({ kind: 'deprecated', param: param.key, message: `"${param.key}" in {{${citation.template}}} is deprecated and has no known replacement.` });
+			}
+			return null;
+		}
+		const written = param.value.toLowerCase();
+		if (retired?.values && written && !retired.values[written]) {
+			issues.push({
+				kind: 'deprecated',
+				param: param.key,
+				message: `"${param.key}=${param.value}" in {{${citation.template}}} has no ${to} equivalent; left as written.`
+			});
+			return null;
+		}
+		const value = retired?.values && written ? { from: param.value, to: retired.values[written] } : undefined;
+		return { from: param.key, to, value: value && value.from !== value.to ? value : undefined };
+	});
+	// A rewrite must not give a param twice, whether it is written already or rewritten from another name;
+	// an empty copy written already gives way to it
+	const kept = citation.params.filter((param, i) => !plan[i]);
+	const taken = new Set(kept.filter((param) => param.value).map((param) => param.name));
+	const dropped = new Set<CitationParam>();
+	plan.forEach((migration, i) => {
+		if (!migration) return;
+		if (taken.has(migration.to)) {
+			issues.push({
+				kind: 'duplicate',
+				param: migration.from,
+				message: `"${migration.from}" in {{${citation.template}}} was left as written: ${migration.to} is already given.`
+			});
+			plan[i] = null;
+			return;
+		}
+		taken.add(migration.to);
+		kept.filter((param) => param.name === migration.to).forEach((param) => dropped.add(param));
+		migrations.push(migration);
+	});
+	if (!migrations.length) return { citation, migrations, issues };
+	let index = -1;
+	const renamed = renameTemplateParams(citation.raw, () => plan[++index]?.to);
+	index = -1;
+	const raw = patchTemplateParams(renamed, (param) => {
+		if (dropped.has(citation.params[++index])) return null;
+		const value = plan[index]?.value;
+		return value ? param.value.replace(value.from, value.to) : undefined;
+	});
+	return { citation: withRaw(citation, raw), migrations, issues };
+}
+
+/**
+ * List the fields of an edit form for a citation: the named params it has, in TemplateData
+ * order and then as written, followed by the required and suggested params it lacks.
+ * @param citation - Citation.
+ * @returns One field per param.
+ */
+export function citationFields(citation: Citation): CitationField[] {
+	const order = getTemplateParamOrder(citation.template);
+	const written = citation.params.filter((param) => !/^\d+$/.test(param.key));
+	const names: string[] = [];
+	const add = (name: string): void => {
+		if (!names.includes(name)) names.push(name);
+	};
+	order.forEach((name) => {
+		const spec = citation.specs[name];
+		if (written.some((param) => param.name === name) || spec?.required || spec?.suggested) add(name);
+	});
+	written.forEach((param) => add(param.name));
+	return names.map((name) => {
+		const spec = citation.specs[name];
+		const param = written.find((candidate) => candidate.name === name && candidate.value) ?? written.find((candidate) => candidate.name === name);
+		return {
+			name,
+			key: param?.key ?? name,
+			value: param?.value ?? '',
+			type: spec?.type ?? 'string',
+			required: spec?.required ?? false,
+			suggested: spec?.suggested ?? false,
+			deprecated: spec?.deprecated ?? false
+		};
+	});
+}
+
+/**
+ * Check the value of an edit form field.
+ * @param field - Field.
+ * @returns Problem to show next to the field, or null when the value is fine.
+ */
+export function citationFieldError(field: CitationField): string | null {
+	const value = field.value.trim();
+	if (!value) return field.required ? 'Required.' : null;
+	if (isValidCitationValue(field.type, value)) return null;
+	if (field.type === 'date') return 'Not a date the citation templates accept.';
+	if (field.type === 'url') return 'Not a full URL.';
+	return `Not a valid ${field.type}.`;
+}
+
+/**
+ * Write the values of an edit form back into a citation, editing only the params whose
+ * value changed; an emptied field removes its param.
+ * @param citation - Citation the fields were listed for.
+ * @param fields - Fields with their edited values.
+ * @returns Updated citation.
+ */
+export function applyCitationFields(citation: Citation, fields: CitationField[]): Citation {
+	return fields.reduce((next, field) => {
+		const value = field.value.trim();
+		if (value === (getCitationParam(next, field.name) ?? '')) return next;
+		return value ? setCitationParam(next, field.key, value) : removeCitationParam(next, field.name);
+	}, citation);
+}
+
+/**
+ * Write a value for a param of the given type.
+ * @param type - Param type.
+ * @param value - Value; dates are written as ISO dates (YYYY-MM-DD).
+ * @returns Value text.
+ */
+export function formatCitationValue(type: TemplateParamType, value: CitationValue): string {
+	if (value instanceof Date) {
+		const iso = value.toISOString().slice(0, 10);
+		return type === 'number' ? String(value.getUTCFullYear()) : iso;
+	}
+	return String(value).trim();
+}
+
+/**
+ * Check whether a value fits a param type, ignoring comments. Values holding templates
+ * are taken as valid, since what they expand to is not known here.
+ * @param type - Param type.
+ * @param value - Value as written.
+ * @returns True when the value fits.
+ */
+export function isValidCitationValue(type: TemplateParamType, value: string): boolean {
+	const text = convertDigitsToAscii(stripComments(value));
+	if (!text || text.includes('{{')) return true;
+	switch (type) {
+		case 'number':
+			return /^-?\d+(?:[.,]\d+)?$/.test(text);
+		case 'url':
+			return /^(?:(?:https?|ftp):)?\/\/[^\s/?#]+\.[^\s]*$/i.test(text);
+		case 'wiki-page-name':
+			return !/[[\]{}|<>]/.test(text);
+		case 'date':
+			return DATE_FORMS.some((form) => form.test(text));
+		default:
+			return true;
+	}
+}
+
+/**
+ * Resolve a param name to the declared name it is an alias of.
+ * @param name - Param name as written.
+ * @param aliases - TemplateData alias map, alias to canonical name.
+ * @returns Canonical name, lowercased.
+ */
+function canonicalParamName(name: string, aliases: Record<string, string>): string {
+	const norm = name.trim().toLowerCase();
+	return aliases[norm] ?? norm;
+}
+
+/**
+ * Remove comments from a param value.
+ * @param value - Value as written.
+ * @returns Value without comments, trimmed.
+ */
+function stripComments(value: string): string {
+	return value.replace(/<!--[\s\S]*?(?:-->|$)/g, '').trim();
+}
+
+/**
+ * Reread a citation after its markup was patched.
+ * @param citation - Citation before the edit.
+ * @param raw - Patched markup.
+ * @returns Updated citation, or the same one when nothing changed.
+ */
+function withRaw(citation: Citation, raw: string): Citation {
+	if (raw === citation.raw) return citation;
+	return readCitation(raw) ?? citation;
+}
@@ -0,0 +1,333 @@
+import { Reference } from '../types';
+
+/** Footnote marker decoded from the rendered page. */
+export interface CiteMarker {
+	/** Ref name, or null for an unnamed ref. */
+	name: string | null;
+	/** Ref group when the markup reveals it, or undefined when it does not. */
+	group?: string | null;
+	/** Id of the footnote's entry in the reference list, when known. */
+	noteId?: string;
+}
+
+/** A rendered footnote marker paired with the element that should be highlighted. */
+export interface MarkerAnchor {
+	anchor: Element;
+	marker: CiteMarker;
+}
+
+/**
+ * Decode a Cite footnote target id (`cite_note-<name>-<n>` or `cite_note-<n>`).
+ * @param id - Element id or link fragment, with or without a leading '#'.
+ * @returns Decoded marker, or null when the id is not a Cite note id.
+ */
+export function decodeCiteNoteId(id: string): CiteMarker | null {
+	const key = decodeFragment(id);
+	if (/^cite_note-\d+$/.test(key)) return { name: null };
+	const named = key.match(/^cite_note-(.+)-\d+$/);
+	return named ? { name: named[1] } : null;
+}
+
+/**
+ * Decode a Cite footnote marker id (`cite_ref-<name>_<n>-<k>` or `cite_ref-<n>`).
+ * @param id - Marker element id.
+ * @returns Decoded marker, or null when the id is not a Cite marker id.
+ */
+export function decodeCiteRefId(id: string): CiteMarker | null {
+	const key = decodeFragment(id);
+	if (/^cite_ref-\d+$/.test(key)) return { name: null };
+	const named = key.match(/^cite_ref-(.+)_\d+-\d+$/);
+	return named ? { name: named[1] } : null;
+}
+
+/**
+ * Decode the `data-mw` attribute Parsoid puts on `typeof="mw:Extension/ref"` markers.
+ * @param dataMw - Raw attribute value.
+ * @returns Marker with the name and group as written, or null when the JSON is unusable.
+ */
+export function decodeParsoidDataMw(dataMw: string): CiteMarker | null {
+	try {
+		const parsed = JSON.parse(dataMw) as { name?: string; attrs?: { name?: unknown; group?: unknown } };
+		if (parsed.name && parsed.name !== 'ref') return null;
+		const attrs = parsed.attrs ?? {};
+		const name = typeof attrs.name === 'string' && attrs.name.trim() ? attrs.name : null;
+		const group = typeof attrs.group === 'string' && attrs.group.trim() ? attrs.group.trim() : null;
+		return { name, group };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read the group a legacy marker label names, e.g. "[notes 3]".
+ * Groups with custom labels (lower-alpha and friends) render without it.
+ * @param label - Marker link text.
+ * @returns Group name, null for a plain "[3]", or undefined when the label does not tell.
+ */
+export function groupFromLabel(label: string): string | null | undefined {
+	const text = label.replace(/^\s*\[|\]\s*$/g, '').trim();
+	if (/^\d+$/.test(text)) return null;
+	const grouped = text.match(/^(.+)\s+\d+$/);
+	return grouped ? grouped[1] : undefined;
+}
+
+/**
+ * Collect the footnote markers rendered on the page, in document order.
+ * Parsoid markers are decoded from `data-mw`; others from the Cite id scheme.
+ * @param root - Element or document to search.
+ * @returns Decoded markers with their link elements.
+ */
+export function collectMarkers(root: ParentNode = document): MarkerAnchor[] {
+	const markers: MarkerAnchor[] = [];
+	root.querySelectorAll<HTMLElement>('sup.reference, span.reference').forEach((sup) => {
+		const anchor = sup.querySelector<HTMLAnchorElement>('a[href]');
+		if (!anchor) return;
+		const href = anchor.getAttribute('href') || '';
+		const dataMw = sup.getAttribute('data-mw');
+		const fragment = href.slice(href.lastIndexOf('#') + 1);
+		const marker = (dataMw ? decodeParsoidDataMw(dataMw) : null)
+			?? decodeCiteNoteId(fragment)
+			?? decodeCiteRefId(sup.id);
+		if (!marker) return;
+		if (fragment) marker.noteId = decodeFragment(fragment);
+		if (marker.group === undefined) {
+			const group = groupFromLabel(anchor.textContent || '');
+			if (group !== undefined) marker.group = group;
+		}
+		markers.push({ anchor, marker });
+	});
+	return markers;
+}
+
+/**
+ * Check whether every marker can be accounted for by the page source.
+ * Markers it cannot account for come from transcluded templates.
+ * @param refs - References parsed from the page wikitext.
+ * @param markers - Markers in document order.
+ * @returns True when every named marker has a source ref and unnamed markers match nameless refs one to one.
+ */
+export function markersMatchSource(refs: Reference[], markers: MarkerAnchor[]): boolean {
+	const { byName, nameless, anchors } = indexRefs(refs);
+	const unnamed = markers.filter(({ marker }) => !marker.name).length;
+	if (unnamed !== nameless.length) return false;
+	return markers.every(({ marker }) => !marker.name || byName.has(nameKey(marker.name)) || Boolean(footnoteRef(anchors, marker.name)));
+}
+
+/**
+ * Assign decoded markers to reference uses.
+ * Named markers are looked up by name through an index, so the pass stays linear in
+ * the number of markers; a name used in several groups is resolved with the marker's
+ * group when known. Unnamed markers are matched to nameless refs by document order.
+ * Markers beyond the known uses of a named ref are added as uses without a source span,
+ * since Cite merges a same-named ref emitted by a template into the page's footnote.
+ *
+ * Markers of shortened footnotes carry the FOOTNOTE names Module:Footnotes generates and
+ * are attached to the {{sfn}} uses of the anchor they cite.
+ *
+ * Markers the page source does not hold become references flagged as not editable.
+ * `transcluded` (references read from Parsoid HTML) names their templates and tells
+ * which unnamed markers belong to transclusions; without it, unnamed markers are only
+ * matched when they count the same as the nameless refs, since a transcluded one would
+ * shift them.
+ * @param refs - References parsed from the page wikitext.
+ * @param markers - Markers in document order.
+ * @param transcluded - References from Parsoid HTML of the same revision, if fetched.
+ * @returns References for markers emitted by transcluded templates.
+ */
+export function assignMarkers(refs: Reference[], markers: MarkerAnchor[], transcluded: Reference[] = []): Reference[] {
+	const { byName, nameless, anchors } = indexRefs(refs);
+	const parsoidByName = new Map<string, Reference>();
+	const parsoidByBareName = new Map<string, Reference>();
+	const parsoidUnnamed: Reference[] = [];
+	transcluded.forEach((ref) => {
+		if (!ref.name) {
+			parsoidUnnamed.push(ref);
+			return;
+		}
+		parsoidByName.set(`${ref.group ?? ''}\u0000${nameKey(ref.name)}`, ref);
+		if (!parsoidByBareName.has(nameKey(ref.name))) parsoidByBareName.set(nameKey(ref.name), ref);
+	});
+	// Legacy markers may not reveal their group; fall back to the name alone
+	const parsoidFor = (name: string, group: string | null | undefined): Reference | undefined => {
+		return parsoidByName.get(`${group ?? ''}\u0000${nameKey(name)}`) ?? parsoidByBareName.get(nameKey(name));
+	};
+
+	const cursor = new Map<Reference, number>();
+	const attach = (ref: Reference, anchor: Element): void => {
+		let next = cursor.get(ref) ?? 0;
+		while (ref.uses[next]?.noMarker) next++;
+		if (next < ref.uses.length) {
+			ref.uses[next].anchor = anchor;
+		} else {
+			ref.uses.push({ index: ref.uses.length, anchor, span: null });
+		}
+		cursor.set(ref, next + 1);
+	};
+
+	const generated = new Map<string, Reference>();
+	const addGenerated = (key: string, { anchor, marker }: MarkerAnchor, parsoid: Reference | undefined): void => {
+		let ref = generated.get(key);
+		if (!ref) {
+			const group = marker.group ?? parsoid?.group ?? null;
+			// Parsoid keeps the name as written; ids only carry its underscored form
+			const name = parsoid?.name ?? marker.name;
+			ref = {
+				id: name ? (group ? `${group}::${name}` : name) : `__transcluded_${key}`,
+				name,
+				group,
+				kind: parsoid?.kind ?? 'ref',
+				contentWikitext: parsoid?.contentWikitext || noteText(anchor, marker.noteId),
+				uses: [],
+				definition: null,
+				editable: false,
+				sourceTemplate: parsoid?.sourceTemplate ?? null
+			};
+			generated.set(key, ref);
+		}
+		ref.uses.push({ index: ref.uses.length, anchor, span: null });
+	};
+
+	const unnamed: MarkerAnchor[] = [];
+	markers.forEach((item) => {
+		const { anchor, marker } = item;
+		if (!marker.name) {
+			unnamed.push(item);
+			return;
+		}
+		const candidates = byName.get(nameKey(marker.name));
+		const footnote = candidates ? undefined : footnoteRef(anchors, marker.name);
+		if (footnote) {
+			attach(footnote, anchor);
+			return;
+		}
+		if (!candidates) {
+			addGenerated(`${marker.group ?? ''}::${nameKey(marker.name)}`, item, parsoidFor(marker.name, marker.group));
+			return;
+		}
+		const target = candidates.length > 1 && marker.group !== undefined
+			? candidates.find((ref) => ref.group === marker.group) ?? candidates[0]
+			: candidates[0];
+		attach(target, anchor);
+		// A reuse on the page of a ref a template defines is no more editable than the template
+		const parsoid = parsoidFor(marker.name, marker.group);
+		if (!target.definition && parsoid && parsoid.editable === false) {
+			target.editable = false;
+			target.sourceTemplate = parsoid.sourceTemplate ?? null;
+		}
+	});
+
+	const ordered = nameless
+		.slice()
+		.sort((a, b) => (a.uses[0].span?.start ?? 0) - (b.uses[0].span?.start ?? 0));
+	if (ordered.length === unnamed.length) {
+		ordered.forEach((ref, i) => attach(ref, unnamed[i].anchor));
+	} else if (parsoidUnnamed.length === unnamed.length) {
+		// Parsoid lists the same footnotes in the same order and knows which are transcluded
+		const fromSource = unnamed.filter((_, i) => parsoidUnnamed[i].editable !== false);
+		if (fromSource.length === ordered.length) {
+			ordered.forEach((ref, i) => attach(ref, fromSource[i].anchor));
+		}
+		unnamed.forEach((item, i) => {
+			if (parsoidUnnamed[i].editable === false) addGenerated(String(i), item, parsoidUnnamed[i]);
+		});
+	} else if (unnamed.length) {
+		console.info('[Cite Forge] Unnamed footnote markers do not match the source; skipping them', {
+			markers: unnamed.length, refs: ordered.length
+		});
+	}
+
+	return Array.from(generated.values());
+}
+
+/**
+ * Attach rendered footnote markers to the uses of each reference.
+ * @param refs - References parsed from the page wikitext.
+ * @param root - Element or document holding the rendered page.
+ * @param transcluded - References from Parsoid HTML, to name the templates of transcluded refs.
+ * @returns References for markers emitted by transcluded templates.
+ */
+export function attachDomUses(refs: Reference[], root: ParentNode = document, transcluded: Reference[] = []): Reference[] {
+	return assignMarkers(refs, collectMarkers(root), transcluded);
+}
+
+/**
+ * Index source references for marker lookups.
+ * Shortened-footnote anchors are kept apart: their markers carry generated FOOTNOTE names.
+ * @param refs - References parsed from the page wikitext.
+ * @returns Named refs by normalized name, nameless refs, and {{sfn}}-cited anchors by the
+ *   normalized author and year part of their CITEREF id.
+ */
+function indexRefs(refs: Reference[]): { byName: Map<string, Reference[]>; nameless: Reference[]; anchors: Map<string, Reference> } {
+	const byName = new Map<string, Reference[]>();
+	const nameless: Reference[] = [];
+	const anchors = new Map<string, Reference>();
+	refs.forEach((ref) => {
+		if (ref.kind === 'sfn' && ref.id.startsWith('CITEREF')) anchors.set(nameKey(ref.id.slice('CITEREF'.length)), ref);
+		if (ref.kind === 'sfn' || ref.kind === 'harvnb') return;
+		if (!ref.name) {
+			if (ref.uses.length) nameless.push(ref);
+			return;
+		}
+		const key = nameKey(ref.name);
+		const list = byName.get(key) ?? [];
+		list.push(ref);
+		byName.set(key, list);
+	});
+	return { byName, nameless, anchors };
+}
+
+/**
+ * Find the shortened-footnote anchor a {{sfn}} marker cites. Module:Footnotes names the
+ * footnote "FOOTNOTE" followed by the authors, the year and the page, and the anchor is
+ * "CITEREF" followed by the same authors and year, so the longest anchor the name
+ * continues is the one cited ("Smith2020a" rather than "Smith2020").
+ * @param anchors - Anchors cited by {{sfn}}, by normalized author and year part.
+ * @param name - Marker name.
+ * @returns Reference of the anchor, or undefined when the name is not a FOOTNOTE name of the page.
+ */
+function footnoteRef(anchors: Map<string, Reference>, name: string): Reference | undefined {
+	const key = nameKey(name);
+	if (!key.startsWith('FOOTNOTE')) return undefined;
+	const rest = key.slice('FOOTNOTE'.length);
+	let best: string | undefined;
+	anchors.forEach((_ref, anchor) => {
+		if (anchor && rest.startsWith(anchor) && (!best || anchor.length > best.length)) best = anchor;
+	});
+	return best === undefined ? undefined : anchors.get(best);
+}
+
+/**
+ * Read the rendered text of a footnote from the reference list.
+ * @param anchor - Marker link, used to reach its document.
+ * @param noteId - Id of the footnote's list entry.
+ * @returns Footnote text, or an empty string when the entry is not found.
+ */
+function noteText(anchor: Element, noteId: string | undefined): string {
+	if (!noteId) return '';
+	const note = anchor.ownerDocument?.getElementById(noteId);
+	const text = note?.querySelector('.reference-text') ?? note;
+	return (text?.textContent ?? '').trim();
+}
+
+/**
+ * Normalize a ref name the way Cite turns it into an id: whitespace becomes underscores.
+ * @param name - Ref name as written or decoded from an id.
+ * @returns Comparable key.
+ */
+function nameKey(name: string): string {
+	return name.trim().replace(/[\s_]+/g, '_');
+}
+
+/**
+ * Strip a leading '#' and percent-decoding from an id or link fragment.
+ * @param id - Raw id or fragment.
+ * @returns Decoded id, or the raw value when it is not valid percent-encoding.
+ */
+function decodeFragment(id: string): string {
+	const raw = id.replace(/^#/, '');
+	try {
+		return decodeURIComponent(raw);
+	} catch {
+		return raw;
+	}
+}
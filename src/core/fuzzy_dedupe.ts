@@ -0,0 +1,254 @@
+import { findCiteTemplate, parseTemplateParams, pickTemplateParams } from './references';
+import { convertDigitsToAscii, extractUrl, firstYearCandidate, stripMarkup } from './string_utils';
+
+/** Which copy of a duplicate cluster keeps its body. */
+export type SurvivorRule = 'most-complete' | 'earliest';
+
+/** What identifies the source a ref body cites. */
+export interface CitationIdentity {
+	doi: string | null;
+	isbn: string | null;
+	/** URL without scheme, `www.`, fragment, or tracking params; archive URLs are unwrapped. */
+	url: string | null;
+	title: string | null;
+	author: string | null;
+	year: string | null;
+	work: string | null;
+	/** Pinpoint page or location inside the source. */
+	pages: string | null;
+	/** Whether the body holds a cite template the fields were read from. */
+	templated: boolean;
+	/** Body reduced to lowercase words, for refs written as plain text. */
+	text: string;
+	/** Number of filled template params, or the plain text length for untemplated refs. */
+	completeness: number;
+}
+
+/** A ref body offered for clustering. */
+export interface DuplicateCandidate {
+	key: string;
+	content: string;
+}
+
+/** Refs that likely cite the same source. */
+export interface DuplicateCluster {
+	/** Candidate keys in input order. */
+	keys: string[];
+	/** Key of the copy whose body should be kept. */
+	survivor: string;
+	/** Lowest pairwise similarity in the cluster, from 0 to 1. */
+	confidence: number;
+}
+
+/** Similarity below which two refs are not even proposed as duplicates. */
+const PROPOSAL_FLOOR = 0.6;
+
+const TRACKING_PARAM_RE = /^(?:utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * Read the identifying fields of a ref body from its first cite template,
+ * falling back to the plain text for refs written without one.
+ * @param content - Ref body wikitext.
+ * @returns Citation identity.
+ */
+export function citationIdentity(content: string): CitationIdentity {
+	const span = findCiteTemplate(content);
+	const template = span ? content.slice(span.start, span.end) : null;
+	const text = normalizeWords(stripMarkup(content));
+	if (!template) {
+		const url = extractUrl(content);
+		return {
+			doi: null, isbn: null, url: url ? normalizeUrl(url) : null, title: null, author: null, year: null, work: null,
+			pages: null, templated: false, text, completeness: text.length
+		};
+	}
+
+	const params = parseTemplateParams(template);
+	const pick = (...keys: string[]): string | null => {
+		const value = pickTemplateParams(params, ...keys);
+		return value ? stripMarkup(value) || null : null;
+	};
+	const doi = pick('doi');
+	const isbn = pick('isbn');
+	const archived = pick('archive-url', 'archiveurl');
+	const url = pick('url') ?? (archived ? unwrapArchiveUrl(archived) : null);
+	const title = pick('title', 'script-title', 'trans-title');
+	const author = pick('last', 'last1', 'surname', 'surname1', 'author', 'author1', 'authors', 'editor', 'editor1');
+	const work = pick('work', 'website', 'journal', 'newspaper', 'magazine', 'periodical', 'publisher');
+	const year = firstYearCandidate(convertDigitsToAscii(pick('date', 'year') ?? ''))?.ascii ?? null;
+	const pages = pick('page', 'pages', 'p', 'pp', 'at', 'loc');
+	return {
+		doi: doi ? doi.toLowerCase().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:)/, '') : null,
+		isbn: isbn ? normalizeIsbn(isbn) : null,
+		url: url ? normalizeUrl(url) : null,
+		title: title ? normalizeWords(title) || null : null,
+		author: author ? normalizeWords(author) || null : null,
+		year,
+		work: work ? normalizeWords(work) || null : null,
+		pages: pages ? pages.replace(/[–—−]/g, '-').replace(/\s+/g, '') : null,
+		templated: true,
+		text,
+		completeness: params.filter((param) => param.value.trim()).length
+	};
+}
+
+/**
+ * Score how likely two ref bodies cite the same source. Matching DOI or ISBN is near
+ * certain, a matching URL or title is strong, and conflicting identifiers, authors,
+ * or years rule a match out. Different pinpoint pages halve the score, since merging
+ * them would drop a page.
+ * @param a - First identity.
+ * @param b - Second identity.
+ * @returns Similarity from 0 to 1.
+ */
+export function citationSimilarity(a: CitationIdentity, b: CitationIdentity): number {
+	if (a.doi && b.doi) return a.doi === b.doi ? pageFactor(a, b) : 0;
+	if (a.isbn && b.isbn && a.isbn !== b.isbn) return 0;
+	if (disjoint(a.author, b.author) || conflicts(a.year, b.year)) return 0;
+
+	const sameTitle = Boolean(a.title && a.title === b.title);
+	let score = 0;
+	if (a.isbn && a.isbn === b.isbn) {
+		score = 0.95;
+	} else if (a.url && a.url === b.url) {
+		if (sameTitle) score = 0.95;
+		else score = conflicts(a.title, b.title) ? 0.6 : 0.9;
+	} else if (a.url && b.url && (a.templated || b.templated)) {
+		// Different pages of the same site are different sources, whatever their titles
+		score = 0;
+	} else if (sameTitle) {
+		const agreeing = [a.author && a.author === b.author, a.year && a.year === b.year, a.work && a.work === b.work].filter(Boolean).length;
+		score = agreeing >= 2 ? 0.9 : agreeing === 1 ? 0.85 : 0.7;
+	} else if (!a.templated && !b.templated && a.text && a.text === b.text) {
+		score = 0.9;
+	}
+	return score * pageFactor(a, b);
+}
+
+/**
+ * Group ref bodies that likely cite the same source. A ref joins the cluster it is most
+ * similar to, provided it scores at least `minScore` against every member, so one loose
+ * match cannot chain unrelated refs together. Byte-identical bodies (up to whitespace)
+ * always score 1.
+ * @param candidates - Ref bodies in document order; compare only refs of one group.
+ * @param keep - Rule picking the copy whose body survives; ties go to the earliest.
+ * @param minScore - Lowest similarity at which two refs count as duplicates.
+ * @returns Clusters of two or more refs, in order of their first member.
+ */
+export function findDuplicateClusters(
+	candidates: DuplicateCandidate[],
+	keep: SurvivorRule = 'most-complete',
+	minScore = PROPOSAL_FLOOR
+): DuplicateCluster[] {
+	const items = candidates.map((candidate) => ({
+		...candidate,
+		exact: candidate.content.replace(/\s+/g, ' ').trim(),
+		identity: citationIdentity(candidate.content)
+	}));
+	type Item = (typeof items)[number];
+	const score = (a: Item, b: Item): number => (a.exact === b.exact ? 1 : citationSimilarity(a.identity, b.identity));
+
+	const clusters: Array<{ members: Item[]; confidence: number }> = [];
+	items.forEach((item) => {
+		const ranked = clusters
+			.map((cluster) => ({ cluster, weakest: Math.min(...cluster.members.map((member) => score(member, item))) }))
+			.filter((entry) => entry.weakest >= minScore)
+			.sort((a, b) => b.weakest - a.weakest);
+		if (!ranked.length) {
+			clusters.push({ members: [item], confidence: 1 });
+			return;
+		}
+		const { cluster, weakest } = ranked[0];
+		cluster.members.push(item);
+		cluster.confidence = Math.min(cluster.confidence, weakest);
+	});
+
+	return clusters
+		.filter((cluster) => cluster.members.length > 1)
+		.map((cluster) => {
+			const survivor = keep === 'earliest'
+				? cluster.members[0]
+				: cluster.members.reduce((best, member) => (member.identity.completeness > best.identity.completeness ? member : best));
+			return { keys: cluster.members.map((member) => member.key), survivor: survivor.key, confidence: cluster.confidence };
+		});
+}
+
+/**
+ * Reduce text to lowercase words, dropping punctuation and markup leftovers.
+ * @param text - Plain text.
+ * @returns Space-separated words.
+ */
+function normalizeWords(text: string): string {
+	return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Normalize a URL so that copies written differently compare equal.
+ * @param url - URL as written.
+ * @returns Comparable URL.
+ */
+function normalizeUrl(url: string): string {
+	const unwrapped = unwrapArchiveUrl(url.trim());
+	const [base, query = ''] = unwrapped.replace(/#.*$/, '').split('?', 2);
+	const kept = query.split('&').filter((pair) => pair && !TRACKING_PARAM_RE.test(pair.split('=')[0])).sort();
+	const path = base.replace(/^[a-z]+:\/\//i, '').replace(/^www\./i, '').replace(/\/+$/, '');
+	const slash = path.indexOf('/');
+	const host = slash === -1 ? path : path.slice(0, slash);
+	return `${host.toLowerCase()}${slash === -1 ? '' : path.slice(slash)}${kept.length ? `?${kept.join('&')}` : ''}`;
+}
+
+/**
+ * Recover the original URL from a Wayback Machine or archive.today link.
+ * @param url - Possibly archived URL.
+ * @returns Original URL, or the input when it is not an archive link.
+ */
+function unwrapArchiveUrl(url: string): string {
+	const m = /^(?:https?:)?\/\/(?:web\.)?archive\.(?:org\/web|today|ph|is)\/\d+[a-z_]*\/(.+)$/i.exec(url);
+	return m ? m[1] : url;
+}
+
+/**
+ * Normalize an ISBN to its 13-digit form.
+ * @param isbn - ISBN as written.
+ * @returns Digits of the ISBN-13, or the cleaned input when it is malformed.
+ */
+function normalizeIsbn(isbn: string): string {
+	const digits = convertDigitsToAscii(isbn).toUpperCase().replace(/[^0-9X]/g, '');
+	if (!/^\d{9}[\dX]$/.test(digits)) return digits;
+	const core = `978${digits.slice(0, 9)}`;
+	const sum = core.split('').reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+	return `${core}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * Check whether two optional fields are both set and disagree.
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns True when the values conflict.
+ */
+function conflicts(a: string | null, b: string | null): boolean {
+	return Boolean(a && b && a !== b);
+}
+
+/**
+ * Check whether two optional name lists are both set and share no word, so that
+ * `last=Smith` and `author=John Smith` still agree.
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns True when the names conflict.
+ */
+function disjoint(a: string | null, b: string | null): boolean {
+	if (!a || !b) return false;
+	const words = new Set(a.split(' '));
+	return !b.split(' ').some((word) => words.has(word));
+}
+
+/**
+ * Penalty for refs citing different pages of the same source.
+ * @param a - First identity.
+ * @param b - Second identity.
+ * @returns 0.5 when the pinpoints differ, otherwise 1.
+ */
+function pageFactor(a: CitationIdentity, b: CitationIdentity): number {
+	return conflicts(a.pages, b.pages) ? 0.5 : 1;
+}
@@ -0,0 +1,346 @@
+import { SourceSpan } from '../types';
+import { escapeAttr } from './string_utils';
+import { getTemplateNames, templateNamePattern } from '../data/template_aliases';
+import { RefTagToken, TemplateToken, WikitextToken, findTemplateEnd, tokenizeWikitext } from './wikitext_tokenizer';
+import { extractAttr, parseRTemplateEntries, renderRefSelf, splitTemplateParams } from './references';
+
+/** Place inside a cited source, as written in {{rp}}, {{r}}, or a sub-reference. */
+export interface Locator {
+	page?: string;
+	pages?: string;
+	at?: string;
+}
+
+/** One ref cited at a point in the text, with its locator. */
+export interface PinnedRef {
+	name: string | null;
+	group: string | null;
+	locator: Locator;
+}
+
+/**
+ * How a citation is written: `<ref name=x />` with an optional {{rp}}, an {{r}} call
+ * (optionally followed by {{rp}}), or a Cite sub-reference, `<ref extends=x>p. 5</ref>`
+ * or `<ref name=x details="p. 5" />`.
+ */
+export type CitationForm = 'ref' | 'r' | 'extends';
+
+/** Form page pins are converted to: `<ref/>{{rp}}`, {{r|p=}}, or `<ref extends>`. */
+export type LocatorStyle = 'rp' | 'r' | 'extends';
+
+/** A citation of one or more refs, with the {{rp}} that follows it. */
+export interface CitationUnit extends SourceSpan {
+	form: CitationForm;
+	refs: PinnedRef[];
+	/** Span of the {{rp}} call that follows the citation, if any; included in the unit's span. */
+	rp: SourceSpan | null;
+	/** Params or attributes that no other form can carry, as written. */
+	extra: string[];
+}
+
+/** A page pin rewritten into another form. */
+export interface LocatorEdit extends SourceSpan {
+	text: string;
+	/** Names of the refs cited. */
+	names: string[];
+}
+
+/** A page pin left as written because converting it would drop data. */
+export interface LocatorLoss extends SourceSpan {
+	message: string;
+}
+
+const FORM_OF_STYLE: Record<LocatorStyle, CitationForm> = { rp: 'ref', r: 'r', extends: 'extends' };
+
+const STYLE_LABELS: Record<LocatorStyle, string> = {
+	rp: '<ref />{{rp}}',
+	r: '{{r}}',
+	extends: 'a sub-reference'
+};
+
+/**
+ * Find every citation that can carry a page pin: self-closing named refs and {{r}} calls,
+ * each with the {{rp}} that follows it, and sub-references. A definition followed by
+ * {{rp}} is included with its body as an extra, as no other form can carry it. Citations in
+ * comments and nowiki are skipped; those nested in ref bodies are included.
+ * @param text - Wikitext to scan.
+ * @returns Citations in document order.
+ */
+export function findCitationUnits(text: string): CitationUnit[] {
+	const units: CitationUnit[] = [];
+	const visit = (tokens: WikitextToken[], limit: number): void => {
+		tokens.forEach((token) => {
+			if (token.type === 'ref') {
+				if (token.selfClosing && extractAttr(token.attrs, 'details') !== null) units.push(extendsUnit(token));
+				else if (token.selfClosing) units.push(withRp(text, refUnit(token), limit));
+				else if (extractAttr(token.attrs, 'extends') !== null) units.push(extendsUnit(token));
+				else {
+					const unit = withRp(text, refUnit(token), limit);
+					if (unit.rp) units.push({ ...unit, extra: ['its definition', ...unit.extra] });
+					visit(token.children, token.contentEnd);
+				}
+			} else if (token.type === 'template' && token.role === 'r') {
+				units.push(withRp(text, rUnit(token), limit));
+			} else if (token.type === 'references') {
+				visit(token.children, token.contentEnd);
+			}
+		});
+	};
+	visit(tokenizeWikitext(text, { rNames: getTemplateNames('r') }), text.length);
+	return units;
+}
+
+/**
+ * Parse the params of an {{rp}} call. The first positional param and `p=`/`page=` give
+ * the page, `pp=`/`pages=` the page range, and `at=`/`loc=`/`location=` any other place.
+ * @param paramText - Raw parameter text after the template name.
+ * @returns Locator, the `group=` override, and params {{rp}} has beyond those.
+ */
+export function parseRpParams(paramText: string): { locator: Locator; group: string | null; extra: string[] } {
+	const locator: Locator = {};
+	let group: string | null = null;
+	const extra: string[] = [];
+	splitTemplateParams(paramText.replace(/^\s*\|/, '')).forEach((param) => {
+		const eq = param.indexOf('=');
+		const key = eq >= 0 ? param.slice(0, eq).trim().toLowerCase() : '';
+		const value = eq >= 0 ? param.slice(eq + 1).trim() : param;
+		if (!value) return;
+		if (!key || key === 'p' || key === 'page' || key === '1') {
+			if (locator.page === undefined) locator.page = value;
+			else extra.push(param);
+		} else if (key === 'pp' || key === 'pages') locator.pages = value;
+		else if (key === 'at' || key === 'loc' || key === 'location') locator.at = value;
+		else if (key === 'group' || key === 'grp' || key === 'g') group = value;
+		else extra.push(param);
+	});
+	return { locator, group, extra };
+}
+
+/**
+ * Check whether a ref is cited with a page, page range, or other place.
+ * @param ref - Pinned ref.
+ * @returns True when the locator is set.
+ */
+export function hasLocator(ref: PinnedRef): boolean {
+	return Boolean(ref.locator.page || ref.locator.pages || ref.locator.at);
+}
+
+/**
+ * Render pinned refs as an {{r}} call, numbering the params of every ref after the first.
+ * @param refs - Refs in citation order.
+ * @returns {{r}} wikitext.
+ */
+export function renderRChain(refs: PinnedRef[]): string {
+	const params: string[] = [];
+	const pinned = refs.some(hasLocator);
+	refs.forEach((ref, idx) => {
+		const suffix = idx === 0 ? '' : String(idx + 1);
+		params.push(ref.name ?? '');
+		if (ref.group) params.push(`group${pinned ? suffix : ''}=${ref.group}`);
+		if (ref.locator.page) params.push(`p${suffix}=${ref.locator.page}`);
+		if (ref.locator.pages) params.push(`pp${suffix}=${ref.locator.pages}`);
+		if (ref.locator.at) params.push(`loc${suffix}=${ref.locator.at}`);
+	});
+	return `{{r|${params.join('|')}}}`;
+}
+
+/**
+ * Render pinned refs in a locator style. Refs without a locator are rendered as
+ * `<ref name=x />` in the `rp` and `extends` styles.
+ * @param refs - Refs in citation order.
+ * @param style - Target style.
+ * @returns Wikitext of the citation.
+ */
+export function renderCitation(refs: PinnedRef[], style: LocatorStyle): string {
+	if (style === 'r') return renderRChain(refs);
+	return refs.map((ref) => {
+		const self = renderRefSelf(ref.name, ref.group, false);
+		if (!hasLocator(ref)) return self;
+		if (style === 'rp') {
+			const params = [
+				ref.locator.page ? `p=${ref.locator.page}` : '',
+				ref.locator.pages ? `pp=${ref.locator.pages}` : '',
+				ref.locator.at ? `at=${ref.locator.at}` : ''
+			].filter(Boolean);
+			return `${self}{{rp|${params.join('|')}}}`;
+		}
+		const group = ref.group ? ` group="${escapeAttr(ref.group)}"` : '';
+		return `<ref extends="${escapeAttr(ref.name ?? '')}"${group}>${renderExtendsBody(ref.locator)}</ref>`;
+	}).join('');
+}
+
+/**
+ * Rewrite every page pin of a text in one locator style. Citations without a locator,
+ * and those already in the style, are left alone; so are citations whose conversion
+ * would drop a param or attribute, or give a sub-reference both a page and a place,
+ * which are reported instead.
+ * @param text - Wikitext to convert.
+ * @param style - Target style.
+ * @param keep - Optional check whether the citation at an offset may be converted.
+ * @returns Edits with offsets into `text`, and the citations left as written.
+ */
+export function convertLocators(
+	text: string,
+	style: LocatorStyle,
+	keep: (offset: number) => boolean = () => true
+): { edits: LocatorEdit[]; losses: LocatorLoss[] } {
+	const edits: LocatorEdit[] = [];
+	const losses: LocatorLoss[] = [];
+	findCitationUnits(text).forEach((unit) => {
+		if (!unit.refs.length || !unit.refs.some(hasLocator) || unit.refs.some((ref) => !ref.name)) return;
+		// {{r}} followed by {{rp}} is folded even in the {{r}} style
+		if (unit.form === FORM_OF_STYLE[style] && !(unit.form === 'r' && unit.rp)) return;
+		if (!keep(unit.start)) return;
+		const names = unit.refs.map((ref) => ref.name!);
+		const label = names.map((name) => `"${name}"`).join(', ');
+		if (unit.extra.length) {
+			losses.push({
+				start: unit.start,
+				end: unit.end,
+				message: `Kept the page pin of ${label} as written: converting it to ${STYLE_LABELS[style]} would drop ${unit.extra.join(', ')}.`
+			});
+			return;
+		}
+		// A sub-reference's text reads back as one page or place
+		if (style === 'extends' && unit.refs.some((ref) => locatorParts(ref.locator) > 1)) {
+			losses.push({
+				start: unit.start,
+				end: unit.end,
+				message: `Kept the page pin of ${label} as written: a sub-reference cannot keep its page and place apart.`
+			});
+			return;
+		}
+		edits.push({ start: unit.start, end: unit.end, text: renderCitation(unit.refs, style), names });
+	});
+	return { edits, losses };
+}
+
+/**
+ * Describe a locator style for change log reasons.
+ * @param style - Locator style.
+ * @returns Short label of the markup the style produces.
+ */
+export function locatorStyleLabel(style: LocatorStyle): string {
+	return STYLE_LABELS[style];
+}
+
+/**
+ * Read a `<ref name=x />` or a definition as a citation.
+ * @param token - Ref token.
+ * @returns Citation without its {{rp}}.
+ */
+function refUnit(token: RefTagToken): CitationUnit {
+	const name = extractAttr(token.attrs, 'name');
+	return {
+		form: 'ref',
+		start: token.start,
+		end: token.end,
+		refs: name ? [{ name, group: extractAttr(token.attrs, 'group'), locator: {} }] : [],
+		rp: null,
+		extra: []
+	};
+}
+
+/**
+ * Read an {{r}} call as a citation. Params of an index no ref name carries are extra.
+ * @param token - {{r}} template token.
+ * @returns Citation without its {{rp}}.
+ */
+function rUnit(token: TemplateToken): CitationUnit {
+	const entries = parseRTemplateEntries(token.paramText);
+	const names = entries.filter((entry) => entry.isName);
+	const indexes = new Set(names.map((entry) => entry.index));
+	const value = (kind: string, index: number): string | undefined =>
+		entries.find((entry) => entry.kind === kind && entry.index === index)?.value;
+	return {
+		form: 'r',
+		start: token.start,
+		end: token.end,
+		refs: names.map((entry) => ({
+			name: entry.value,
+			group: value('group', entry.index) ?? null,
+			locator: { page: value('page', entry.index), pages: value('pages', entry.index), at: value('at', entry.index) }
+		})),
+		rp: null,
+		extra: entries
+			.filter((entry) => entry.kind === 'other' || (!entry.isName && !indexes.has(entry.index)))
+			.map((entry) => (entry.key ? `${entry.key}=${entry.value}` : entry.value))
+	};
+}
+
+/**
+ * Read a sub-reference as a citation. Its text becomes the locator: `p. 5` a page,
+ * `pp. 5–7` a page range, anything else a place.
+ * @param token - Ref token, either `<ref extends=x>` or `<ref name=x details=... />`.
+ * @returns Citation.
+ */
+function extendsUnit(token: RefTagToken): CitationUnit {
+	const details = token.selfClosing ? extractAttr(token.attrs, 'details') : null;
+	const body = (details ?? token.content ?? '').trim();
+	const extra: string[] = [];
+	const name = details === null ? extractAttr(token.attrs, 'name') : null;
+	// Other refs may reuse a named sub-reference, and would be left undefined
+	if (name !== null) extra.push(`name="${name}"`);
+	if (splitTemplateParams(body).length > 1) extra.push('the "|" in its text');
+	if (token.children.length) extra.push('the refs nested in it');
+	const pages = /^(?:pp\.?|pages)\s*(\S[\s\S]*)$/i.exec(body);
+	const page = pages ? null : /^(?:p\.?|page)\s*(\S[\s\S]*)$/i.exec(body);
+	const locator: Locator = pages ? { pages: pages[1] } : page ? { page: page[1] } : body ? { at: body } : {};
+	return {
+		form: 'extends',
+		start: token.start,
+		end: token.end,
+		refs: [{ name: extractAttr(token.attrs, details === null ? 'extends' : 'name') || null, group: extractAttr(token.attrs, 'group'), locator }],
+		rp: null,
+		extra
+	};
+}
+
+/**
+ * Attach the {{rp}} call that directly follows a citation. After an {{r}} call it pins
+ * the last ref, unless that ref is pinned already.
+ * @param text - Full wikitext.
+ * @param unit - Citation without its {{rp}}.
+ * @param limit - End of the enclosing body.
+ * @returns The citation, extended over the {{rp}} when one follows.
+ */
+function withRp(text: string, unit: CitationUnit, limit: number): CitationUnit {
+	const head = new RegExp(`^\\s*\\{\\{\\s*(?:${templateNamePattern('rp')})\\s*(?=[|}])`, 'i')
+		.exec(text.slice(unit.end, Math.min(limit, unit.end + 200)));
+	if (!head) return unit;
+	const start = unit.end + head[0].indexOf('{{');
+	const end = findTemplateEnd(text, start, limit);
+	if (end === -1) return unit;
+	const rp = parseRpParams(text.slice(unit.end + head[0].length, end - 2));
+	const last = unit.refs[unit.refs.length - 1];
+	const extra = [...unit.extra, ...rp.extra];
+	if (!last || (unit.form === 'r' && hasLocator(last))) {
+		extra.push(text.slice(start, end));
+	} else {
+		last.locator = rp.locator;
+		last.group = rp.group ?? last.group;
+	}
+	return { ...unit, end, rp: { start, end }, extra };
+}
+
+/**
+ * Count the parts of a locator that are set.
+ * @param locator - Locator.
+ * @returns Number of the page, page range and place given.
+ */
+function locatorParts(locator: Locator): number {
+	return [locator.page, locator.pages, locator.at].filter(Boolean).length;
+}
+
+/**
+ * Write a locator as the text of a sub-reference.
+ * @param locator - Locator.
+ * @returns Body text such as `p. 5`.
+ */
+function renderExtendsBody(locator: Locator): string {
+	return [
+		locator.page ? `p. ${locator.page}` : '',
+		locator.pages ? `pp. ${locator.pages}` : '',
+		locator.at ?? ''
+	].filter(Boolean).join(', ');
+}
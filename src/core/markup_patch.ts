@@ -0,0 +1,282 @@
+import { escapeAttr } from './string_utils';
+
+/** A parameter of a template invocation as seen by {@link patchTemplateParams}. */
+export interface TemplateParamView {
+	/** Parameter name as written, trimmed, or its position ("1", "2", ...) when unnamed. */
+	key: string;
+	/** Value without the whitespace around it. */
+	value: string;
+}
+
+/** One parameter of an invocation, with offsets into the invocation text. */
+interface ParamSlot extends TemplateParamView {
+	/** Offset of the `|` before the parameter. */
+	start: number;
+	end: number;
+	/** Offsets of the trimmed name; both equal `valueStart` when unnamed. */
+	keyStart: number;
+	keyEnd: number;
+	/** Offsets of the trimmed value. */
+	valueStart: number;
+	valueEnd: number;
+	positional: boolean;
+}
+
+/** An attribute of an opening tag, with offsets into the tag text. */
+interface AttrSlot {
+	name: string;
+	value: string;
+	/** Offset of the whitespace before the attribute. */
+	start: number;
+	end: number;
+	/** Offsets of the value, quotes included. */
+	valueStart: number;
+	valueEnd: number;
+	quote: '"' | "'" | '';
+	/** Whether the attribute is written without a value. */
+	bare: boolean;
+}
+
+/** Markup skipped whole when looking for parameter pipes: comments and tag blocks such as <ref>…</ref>. */
+const OPAQUE_RE = /^(?:<!--[\s\S]*?(?:-->|$)|<(ref|nowiki|pre|math|syntaxhighlight|gallery)\b[^>]*?(?:\/>|>[\s\S]*?(?:<\/\1\s*>|$)))/i;
+
+/**
+ * Set attributes of the opening tag of an element, editing only the values that changed.
+ * Attribute names keep their casing and the spacing and quote style around them; a value
+ * that cannot stay unquoted or in single quotes is written in double quotes.
+ * New attributes are added after the last one as `name="value"`.
+ * @param raw - Element markup as written, e.g. `<REF NAME = 'a'>…</REF>` or `<ref name=a/>`.
+ * @param attrs - Values to set; null removes the attribute, omitted attributes are kept.
+ * @returns Markup with the attributes set.
+ */
+export function patchTagAttrs(raw: string, attrs: Record<string, string | null>): string {
+	const open = /^<[^\s/>]+/.exec(raw);
+	if (!open) return raw;
+	const slots = readAttrs(raw, open[0].length);
+	const tagEnd = slots.length ? slots[slots.length - 1].end : open[0].length;
+	const edits: Array<{ start: number; end: number; text: string }> = [];
+	Object.keys(attrs).forEach((name) => {
+		const value = attrs[name];
+		const slot = slots.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+		if (!slot) {
+			if (value !== null) edits.push({ start: tagEnd, end: tagEnd, text: ` ${name}="${escapeAttr(value)}"` });
+			return;
+		}
+		if (value === null) {
+			edits.push({ start: slot.start, end: slot.end, text: '' });
+		} else if (value !== slot.value) {
+			edits.push({ start: slot.valueStart, end: slot.valueEnd, text: `${slot.bare ? '=' : ''}${quoteAttr(value, slot.quote)}` });
+		}
+	});
+	return applyEdits(raw, edits);
+}
+
+/**
+ * Set the attributes and body of a full element such as `<ref>…</ref>`, keeping the
+ * opening and closing tags as written.
+ * @param raw - Element markup as written.
+ * @param attrs - Values to set, as for {@link patchTagAttrs}.
+ * @param body - New body; the body as written is kept when it is equal.
+ * @returns Patched markup, or null when `raw` is not a full element.
+ */
+export function patchElement(raw: string, attrs: Record<string, string | null>, body: string): string | null {
+	const open = /^<([^\s/>]+)/.exec(raw);
+	if (!open) return null;
+	const slots = readAttrs(raw, open[0].length);
+	const openEnd = raw.indexOf('>', slots.length ? slots[slots.length - 1].end : open[0].length);
+	const close = new RegExp(`<\\/${open[1]}\\s*>$`, 'i').exec(raw);
+	if (openEnd === -1 || raw[openEnd - 1] === '/' || !close) return null;
+	const written = raw.slice(openEnd + 1, close.index);
+	const tag = patchTagAttrs(raw.slice(0, openEnd + 1), attrs);
+	return `${tag}${written === body ? written : body}${close[0]}`;
+}
+
+/**
+ * Rewrite parameters of a template invocation, editing only the values that changed and
+ * keeping the template name, separators, spacing and line breaks as written.
+ * @param raw - Invocation as written, `{{name|…}}`.
+ * @param edit - Called for every parameter; returns the new value, null to drop the
+ *   parameter, or undefined to keep it.
+ * @returns Patched invocation.
+ */
+export function patchTemplateParams(raw: string, edit: (param: TemplateParamView) => string | null | undefined): string {
+	const edits: Array<{ start: number; end: number; text: string }> = [];
+	const slots = readParams(raw);
+	slots.forEach((slot, i) => {
+		const next = edit({ key: slot.key, value: slot.value });
+		if (next === undefined || next === slot.value) return;
+		if (next === null) {
+			// Dropping the last param also drops the space left before its pipe
+			const before = i === slots.length - 1 ? raw.slice(0, slot.start).length - raw.slice(0, slot.start).replace(/\s+$/, '').length : 0;
+			edits.push({ start: slot.start - before, end: slot.end, text: '' });
+		} else if (slot.positional && next.includes('=')) {
+			// An unnamed value holding "=" would be read as a named parameter
+			edits.push({ start: slot.valueStart, end: slot.valueEnd, text: `${slot.key}=${next.trim()}` });
+		} else {
+			edits.push({ start: slot.valueStart, end: slot.valueEnd, text: next.trim() });
+		}
+	});
+	return applyEdits(raw, edits);
+}
+
+/**
+ * Rename named parameters of a template invocation, editing only the names and keeping
+ * their values, spacing and line breaks as written.
+ * @param raw - Invocation as written, `{{name|…}}`.
+ * @param rename - Called for every parameter; returns the new name, or undefined to keep it.
+ *   Unnamed parameters keep their position whatever is returned.
+ * @returns Patched invocation.
+ */
+export function renameTemplateParams(raw: string, rename: (param: TemplateParamView) => string | undefined): string {
+	const edits: Array<{ start: number; end: number; text: string }> = [];
+	readParams(raw).forEach((slot) => {
+		const next = rename({ key: slot.key, value: slot.value });
+		if (!slot.positional && next !== undefined && next !== slot.key) edits.push({ start: slot.keyStart, end: slot.keyEnd, text: next });
+	});
+	return applyEdits(raw, edits);
+}
+
+/**
+ * Set one named parameter of a template invocation, appending it when missing.
+ * @param raw - Invocation as written, `{{name|…}}`.
+ * @param key - Parameter name, matched case-insensitively.
+ * @param value - New value, or null to remove the parameter.
+ * @returns Patched invocation.
+ */
+export function setTemplateParam(raw: string, key: string, value: string | null): string {
+	const found = readParams(raw).some((slot) => slot.key.toLowerCase() === key.toLowerCase());
+	if (found) return patchTemplateParams(raw, (param) => (param.key.toLowerCase() === key.toLowerCase() ? value : undefined));
+	if (value === null || !raw.endsWith('}}')) return raw;
+	return `${raw.slice(0, -2)}|${key}=${value}}}`;
+}
+
+/**
+ * Add a named parameter after the last one, laid out like it: the same space or line break
+ * before the pipe and the same spacing around "=".
+ * @param raw - Invocation as written, `{{name|…}}`.
+ * @param key - Parameter name.
+ * @param value - Parameter value.
+ * @returns Invocation with the parameter added.
+ */
+export function appendTemplateParam(raw: string, key: string, value: string): string {
+	if (!raw.endsWith('}}')) return raw;
+	const slots = readParams(raw);
+	const last = slots[slots.length - 1];
+	if (!last) return `${raw.slice(0, -2)}|${key}=${value}}}`;
+	const before = /\s*$/.exec(raw.slice(0, last.start))![0];
+	const named = /^(\s*)[^=]*?(\s*=\s*)$/.exec(raw.slice(last.start + 1, last.valueStart));
+	const text = `${before}|${named ? named[1] : ''}${key}${named ? named[2] : '='}${value}`;
+	return `${raw.slice(0, last.valueEnd)}${text}${raw.slice(last.valueEnd)}`;
+}
+
+/**
+ * Read the parameters of a template invocation as {@link patchTemplateParams} sees them.
+ * @param raw - Invocation as written, `{{name|…}}`.
+ * @returns Parameters in written order.
+ */
+export function readTemplateParams(raw: string): TemplateParamView[] {
+	return readParams(raw).map((slot) => ({ key: slot.key, value: slot.value }));
+}
+
+/**
+ * Read the attributes of an opening tag.
+ * @param raw - Markup starting with the tag.
+ * @param from - Offset just after the tag name.
+ * @returns Attributes in written order.
+ */
+function readAttrs(raw: string, from: number): AttrSlot[] {
+	const re = /(\s+)([^\s=/>]+)(?:(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+?)(?=\s|\/?>|$)))?/y;
+	const slots: AttrSlot[] = [];
+	re.lastIndex = from;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(raw))) {
+		const valueStart = m.index + m[1].length + m[2].length + (m[3] ?? '').length;
+		const quote = m[4] !== undefined ? '"' : m[5] !== undefined ? "'" : '';
+		slots.push({
+			name: m[2],
+			value: m[4] ?? m[5] ?? m[6] ?? '',
+			start: m.index,
+			end: re.lastIndex,
+			valueStart: m[3] === undefined ? re.lastIndex : valueStart,
+			valueEnd: re.lastIndex,
+			quote,
+			bare: m[3] === undefined
+		});
+	}
+	return slots;
+}
+
+/**
+ * Read the parameters of a template invocation.
+ * @param raw - Invocation as written, `{{name|…}}`.
+ * @returns Parameters in written order; the template name is not included.
+ */
+function readParams(raw: string): ParamSlot[] {
+	if (!raw.startsWith('{{') || !raw.endsWith('}}')) return [];
+	const limit = raw.length - 2;
+	const pipes: number[] = [];
+	let depth = 0;
+	for (let i = 2; i < limit; i++) {
+		const opaque = raw[i] === '<' ? OPAQUE_RE.exec(raw.slice(i, limit)) : null;
+		if (opaque) {
+			i += opaque[0].length - 1;
+		} else if ((raw[i] === '{' && raw[i + 1] === '{') || (raw[i] === '[' && raw[i + 1] === '[')) {
+			depth++;
+			i++;
+		} else if ((raw[i] === '}' && raw[i + 1] === '}') || (raw[i] === ']' && raw[i + 1] === ']')) {
+			depth = Math.max(0, depth - 1);
+			i++;
+		} else if (raw[i] === '|' && depth === 0) {
+			pipes.push(i);
+		}
+	}
+	let position = 0;
+	return pipes.map((start, i) => {
+		const end = i + 1 < pipes.length ? pipes[i + 1] : limit;
+		const text = raw.slice(start + 1, end);
+		const eq = text.indexOf('=');
+		const positional = eq === -1;
+		const valueFrom = start + 1 + (positional ? 0 : eq + 1);
+		const value = raw.slice(valueFrom, end);
+		const lead = value.length - value.replace(/^\s+/, '').length;
+		const trimmed = value.trim();
+		const key = positional ? '' : text.slice(0, eq).trim();
+		const keyStart = positional ? valueFrom + lead : start + 1 + text.indexOf(key);
+		return {
+			key: positional ? String(++position) : key,
+			value: trimmed,
+			start,
+			end,
+			keyStart,
+			keyEnd: keyStart + key.length,
+			valueStart: valueFrom + lead,
+			valueEnd: valueFrom + lead + trimmed.length,
+			positional
+		};
+	});
+}
+
+/**
+ * Write an attribute value in the quote style it was written in, when the value allows.
+ * @param value - New value.
+ * @param quote - Quote character as written, or '' for an unquoted value.
+ * @returns Quoted value.
+ */
+function quoteAttr(value: string, quote: '"' | "'" | ''): string {
+	if (quote === '' && /^[^\s"'<>/=`]+$/.test(value)) return value;
+	if (quote === "'" && !value.includes("'")) return `'${value}'`;
+	return `"${escapeAttr(value)}"`;
+}
+
+/**
+ * Apply non-overlapping edits to a string.
+ * @param text - Source text.
+ * @param edits - Edits with offsets into `text`.
+ * @returns Edited text.
+ */
+function applyEdits(text: string, edits: Array<{ start: number; end: number; text: string }>): string {
+	return edits
+		.slice()
+		.sort((a, b) => b.start - a.start)
+		.reduce((out, edit) => out.slice(0, edit.start) + edit.text + out.slice(edit.end), text);
+}
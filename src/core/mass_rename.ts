@@ -1,5 +1,6 @@
 import { Reference } from '../types';
 import { pickTemplateParams, parseTemplateParams } from './references';
+import { resolveTemplateAlias } from '../data/template_aliases';
 import {
 	convertDigitsToAscii,
 	domainFromUrl,
@@ -135,7 +136,8 @@ export function extractMetadata(ref: Reference, providedContent?: string): RefMe
 	const templateName = (() => {
 		const match = content.match(/\{\{\s*([^{|}]+?)(?:\s*\||\s*}})/);
 		if (!match) return null;
-		return match[1].replace(/_/g, ' ').trim().toLowerCase();
+		const written = match[1].replace(/_/g, ' ').trim().toLowerCase();
+		return resolveTemplateAlias(written)?.canonical ?? written;
 	})();
 
 	const pick = (...keys: string[]): string | undefined => pickTemplateParams(params, ...keys);
@@ -1,78 +1,100 @@
-import { Reference } from '../types';
+import { Reference, ReferenceKind, SourceSpan } from '../types';
 import { escapeAttr } from './string_utils';
 import { getTemplateAliasMap, getTemplateParamOrder } from '../data/templatedata_fetch';
+import { getTemplateNames, isTemplateInFamily, resolveTemplateAlias } from '../data/template_aliases';
+import { RefTagToken, ReferencesTagToken, TemplateToken, WikitextToken, findTemplateEnd, tokenizeWikitext } from './wikitext_tokenizer';
+import { findSections, sectionAt } from './sections';
+import { DuplicateCluster, SurvivorRule, citationIdentity, findDuplicateClusters } from './fuzzy_dedupe';
+import { patchElement, patchTagAttrs, patchTemplateParams, setTemplateParam } from './markup_patch';
+import { CitationUnit, LocatorStyle, PinnedRef, convertLocators, findCitationUnits, hasLocator, locatorStyleLabel, renderRChain } from './locators';
+import { Citation, ParamMigration, migrateCitation, readCitation } from './citation_model';
+import { DateRewrite, DateStyle, detectDateStyle, normalizeCitationDates } from './citation_dates';
 
 /**
  * Parse wikitext for basic ref usages.
  * Extracts named and unnamed references from various wikitext formats including
  * <ref> tags, self-closing refs, and {{r|...}} template syntax.
+ * Shares the tokenizer and record model of transformWikitext, so IDs, use counts,
+ * and source offsets always agree with what the transformer acts on.
  *
  * @param wikitext - The raw wikitext string to parse for references.
  * @returns An array of parsed Reference objects with their metadata and usage information.
  */
 export function parseReferences(wikitext: string): Reference[] {
-	const refs = new Map<string, Reference>();
-	let namelessCounter = 0;
-
-	const getOrCreateRef = (name: string | null, group: string | null, content: string): Reference => {
-		const key = name ?? `__nameless_${namelessCounter++}`;
-		const existing = refs.get(key);
-
-		if (existing) {
-			if (content && !existing.contentWikitext) {
-				existing.contentWikitext = content;
-			}
-			return existing;
-		}
+	const ctx = parseWikitext(String(wikitext || ''), resolveReflistNames());
+	const refs = refIterator(normalizeRefKeys(ctx.refs)).map((rec) => toReference(rec));
+	refs.forEach((ref) => {
+		if (!ref.parent) return;
+		const parent = refs.find((other) => other.id === ref.parent);
+		if (parent) parent.children = [...(parent.children ?? []), ref.id];
+	});
+	ctx.citeRefs.forEach((rec) => refs.push(citeRefToReference(rec)));
+	return refs;
+}
 
-		const ref: Reference = {
-			id: key, name, group, contentWikitext: content, uses: []
-		};
-		refs.set(key, ref);
-		return ref;
+/**
+ * Convert an internal reference record into the public Reference shape.
+ * @param rec - Parsed reference record.
+ * @returns Reference with uses and definition spans.
+ */
+function toReference(rec: RefRecord): Reference {
+	const def = firstDefinition(rec);
+	const ref: Reference = {
+		id: referenceId(rec.name, rec.group, rec.key),
+		name: rec.name,
+		group: rec.group,
+		kind: recordKind(rec),
+		contentWikitext: (def?.content ?? '').trim(),
+		uses: rec.uses.map((use, index) => ({ index, anchor: null, span: { start: use.start, end: use.end } })),
+		definition: def ? { start: def.start, end: def.end } : null
 	};
+	if (rec.extendsName !== undefined) ref.parent = referenceId(rec.extendsName, rec.group, refKey(rec.extendsName, rec.group));
+	return ref;
+}
 
-	// Sanitize wikitext to remove comments, nowiki, pre, syntaxhighlight blocks
-	const sanitized = sanitizeWikitext(wikitext);
-
-	// Parse self-closing refs: <ref name="foo" />
-	// Attribute pattern allows quoted values with any chars including /
-	const refSelfClosing = /<ref\b((?:\s+\w+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s/>]+))*)\s*\/>/gi;
-	let match: RegExpExecArray | null;
-	while ((match = refSelfClosing.exec(sanitized)) !== null) {
-		const attrs = match[1] ?? '';
-		const name = extractAttr(attrs, 'name');
-		const group = extractAttr(attrs, 'group');
-		const ref = getOrCreateRef(name, group, '');
-		ref.uses.push({ index: ref.uses.length, anchor: null });
-	}
-
-	// Parse full refs: <ref>content</ref> and <ref name="foo">content</ref>
-	// Match opening tag that is NOT self-closing (no / before >)
-	const refTagFull = /<ref\b((?:\s+\w+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s/>]+))*)(?<!\s*\/)\s*>([\s\S]*?)<\/ref>/gi;
-	while ((match = refTagFull.exec(sanitized)) !== null) {
-		const attrs = match[1] ?? '';
-		const content = match[2] ?? '';
-		const name = extractAttr(attrs, 'name');
-		const group = extractAttr(attrs, 'group');
-		const ref = getOrCreateRef(name, group, content.trim());
-		ref.uses.push({ index: ref.uses.length, anchor: null });
-	}
+/**
+ * Build the public ID of a reference: its name, or its key when grouped or unnamed.
+ * @param name - Reference name.
+ * @param group - Reference group.
+ * @param key - Record key.
+ * @returns Reference ID.
+ */
+function referenceId(name: string | null, group: string | null, key: string): string {
+	return name && !group ? name : key;
+}
 
-	// Parse {{r|...}} templates (may contain multiple names)
-	const refTemplate = /\{\{\s*r\s*(\|[\s\S]*?)\}\}/gi;
-	while ((match = refTemplate.exec(sanitized)) !== null) {
-		const params = match[1] ?? '';
-		const entries = parseRTemplateEntries(params);
-		entries
-			.filter((e) => e.isName)
-			.forEach((entry) => {
-				const ref = getOrCreateRef(entry.value, null, '');
-				ref.uses.push({ index: ref.uses.length, anchor: null });
-			});
-	}
+/**
+ * Convert a shortened-footnote anchor record into the public Reference shape.
+ * The anchor stands in for the name; the first citing template is shown as content.
+ * @param rec - CITEREF anchor record.
+ * @returns Reference keyed by the anchor.
+ */
+function citeRefToReference(rec: CiteRefRecord): Reference {
+	return {
+		id: rec.anchor,
+		name: null,
+		group: null,
+		kind: rec.uses.some((use) => use.role === 'sfn') ? 'sfn' : 'harvnb',
+		contentWikitext: rec.uses[0]?.raw ?? '',
+		uses: rec.uses.map((use, index) => ({
+			index,
+			anchor: null,
+			span: { start: use.start, end: use.end },
+			...(use.role === 'harv' ? { noMarker: true } : {})
+		})),
+		definition: null
+	};
+}
 
-	return Array.from(refs.values());
+/**
+ * Determine the syntax family of a reference record from the templates citing it.
+ * @param rec - Reference record.
+ * @returns 'efn' or 'refn' for footnote templates, otherwise 'ref'.
+ */
+function recordKind(rec: RefRecord): ReferenceKind {
+	const note = [...rec.definitions, ...rec.uses].find((use) => use.kind === 'note' && use.template);
+	if (!note?.template) return 'ref';
+	return resolveTemplateAlias(note.template)?.family === 'refn' ? 'refn' : 'efn';
 }
 
 /**
@@ -160,6 +182,8 @@ export function parseRTemplateEntries(paramString: string): RTemplateEntry[] {
 		}
 
 		const isNameKey = kind === 'name';
+		// A comment is no part of a ref name or group
+		if (kind === 'name' || kind === 'group') value = value.replace(/<!--[\s\S]*?(?:-->|$)/g, '').trim();
 		if (!value) return;
 		if (isNameKey && idx > nameCounter) {
 			nameCounter = idx;
@@ -176,52 +200,6 @@ export function parseRTemplateNames(paramString: string): string[] {
 		.map((e) => e.value);
 }
 
-/**
- * Attaches DOM elements to references based on their names.
- *
- * This function iterates through a list of references and associates
- * them with corresponding anchor elements found in the document.
- * It updates the `anchor` property of each reference's `uses` array
- * with the appropriate anchor element, or adds a new entry if all
- * existing uses have been assigned.
- *
- * @param refs - An array of Reference objects that contain the name
- *               and uses to be attached to the corresponding DOM elements.
- */
-export function attachDomUses(refs: Reference[]): void {
-	const byName = new Map<string, Reference>();
-	const attachCursor = new Map<string, number>();
-
-	refs.forEach((ref) => {
-		if (ref.name) {
-			byName.set(ref.name, ref);
-			attachCursor.set(ref.name, 0);
-		}
-	});
-
-	if (!byName.size) {
-		return;
-	}
-
-	const anchors = Array.from(document.querySelectorAll<HTMLAnchorElement>('sup.reference a[href], span.reference a[href]'));
-
-	anchors.forEach((anchor) => {
-		const href = anchor.getAttribute('href') || '';
-		byName.forEach((ref, name) => {
-			const encodedName = encodeURIComponent(name);
-			if (href.includes(`cite_note-${name}`) || href.includes(`cite_note-${encodedName}`) || href.includes(`cite_ref-${name}`) || href.includes(`cite_ref-${encodedName}`)) {
-				const cursor = attachCursor.get(name) ?? 0;
-				if (cursor < ref.uses.length) {
-					ref.uses[cursor].anchor = anchor;
-					attachCursor.set(name, cursor + 1);
-				} else {
-					ref.uses.push({ index: ref.uses.length, anchor });
-				}
-			}
-		});
-	});
-}
-
 /**
  * Extract an attribute value from an HTML/XML attribute string.
  * Supports quoted (single/double) and unquoted attribute values.
@@ -236,22 +214,6 @@ export function extractAttr(attrs: string, attrName: string): string | null {
 	return match[1] ?? match[2] ?? match[3] ?? null;
 }
 
-/**
- * Remove comments and non-ref markup from wikitext to simplify parsing.
- * Strips HTML comments, nowiki, pre, and syntaxhighlight blocks.
- * @param text - Raw wikitext to sanitize.
- * @returns Sanitized wikitext with problematic blocks removed.
- */
-function sanitizeWikitext(text: string): string {
-	let t = String(text || '');
-	t = t.replace(/<!--[\s\S]*?-->/g, '');
-	t = t.replace(/<nowiki\b[^>]*>[\s\S]*?<\/nowiki>/gi, '');
-	t = t.replace(/<pre\b[^>]*>[\s\S]*?<\/pre>/gi, '');
-	t = t.replace(/<syntaxhighlight\b[^>]*>[\s\S]*?<\/syntaxhighlight>/gi, '');
-	t = t.replace(/<nowiki\b[^>]*\/\s*>/gi, '');
-	return t;
-}
-
 /**
  * Get the alphabetical grouping key for a reference name.
  * Returns '#' for numeric, '*' for unnamed/special, or uppercase letter.
@@ -271,11 +233,11 @@ export function groupKey(name: string | null | undefined): string {
  * Format a reference name for copying based on user preference.
  * @param name - The reference name to format.
  * @param fmt - The format style: 'raw', 'r' (template), or 'ref' (tag).
+ * @param group - Reference group to carry into the template or tag, if any.
  * @returns Formatted string ready for clipboard.
  */
-export function formatCopy(name: string, fmt: 'raw' | 'r' | 'ref'): string {
-	if (fmt === 'r') return `{{r|${name}}}`;
-	if (fmt === 'ref') return `<ref name="${escapeAttr(name)}" />`;
+export function formatCopy(name: string, fmt: 'raw' | 'r' | 'ref', group: string | null = null): string {
+	if (fmt === 'r' || fmt === 'ref') return renderRefSelf(name, group, fmt === 'r');
 	return name;
 }
 
@@ -311,6 +273,33 @@ export function splitTemplateParams(text: string): string[] {
 	return parts.map((p) => p.trim());
 }
 
+/**
+ * Explain why a reference cannot be renamed or deduped from the page source.
+ * @param ref - Reference to test.
+ * @returns Reason shown to the user, or null when the reference can be edited.
+ */
+export function renameBlockReason(ref: Reference): string | null {
+	if (ref.kind === 'sfn' || ref.kind === 'harvnb') {
+		return 'Shortened footnote anchors derive from the cited source; edit the citation instead.';
+	}
+	if (ref.editable === false) {
+		return ref.sourceTemplate
+			? `Defined by the transcluded template {{${ref.sourceTemplate}}}; edit that template instead.`
+			: 'Defined by a transcluded template, not in this page\'s source.';
+	}
+	return null;
+}
+
+/**
+ * Check whether a reference carries a name that can be edited in wikitext.
+ * Shortened-footnote anchors and refs defined by transcluded templates cannot be renamed.
+ * @param ref - Reference to test.
+ * @returns True for <ref>, {{efn}} and {{refn}} references written in the page source.
+ */
+export function canRename(ref: Reference): boolean {
+	return renameBlockReason(ref) === null;
+}
+
 /**
  * Check if a ref name appears auto-generated/VE style.
  * @param name - Ref name to test.
@@ -323,30 +312,170 @@ export function isAutoName(name: string | null): boolean {
 
 type LocationMode = 'keep' | 'all_inline' | 'all_ldr' | { minUsesForLdr: number };
 
+/**
+ * Order of the entries of a reference list: by name, by first use in the text, by the
+ * author and year of their cite templates, or as already written with new entries appended.
+ */
+export type LdrOrder = 'name' | 'first-use' | 'author-year' | 'preserve';
+
 export interface TransformOptions {
 	renameMap?: Record<string, string | null>;
 	renameNameless?: Record<string, string | null>;
 	dedupe?: boolean;
+	/**
+	 * With `dedupe`, also merge refs that cite the same source in different words, by
+	 * comparing their cite template params. Clusters scoring below `threshold` (0.85 by
+	 * default) are only reported; `keep` picks the copy whose body survives.
+	 */
+	fuzzyDedupe?: { threshold?: number; keep?: SurvivorRule };
 	locationMode?: LocationMode;
+	/** Shorthand for `ldrOrder: 'name'`. */
 	sortRefs?: boolean;
+	/**
+	 * Order of the list-defined refs in each rebuilt reference list. Comments and blank lines
+	 * written between entries stay with the entry they precede.
+	 */
+	ldrOrder?: LdrOrder;
 	useTemplateR?: boolean;
 	reflistTemplates?: string[];
 	normalizeAll?: boolean;
+	/**
+	 * Span of the section being edited. Transforms are still computed page-wide, but only
+	 * edits inside the span are emitted as `sectionText`; the rest are reported as warnings.
+	 */
+	section?: SourceSpan;
+	/** Operation IDs from a dry run's change log to apply; all operations when omitted. */
+	accept?: string[];
+	/** Operation IDs from a dry run's change log to leave out. */
+	reject?: string[];
+	/** Uses to move off a ref onto a new named copy of its definition; applied before renames. */
+	split?: RefSplit[];
+	/** New bodies for the definitions of refs; applied after splits and before renames. */
+	edit?: RefEdit[];
+	/**
+	 * Rewrite every page pin in one form: `<ref name=x />{{rp|...}}`, {{r|x|p=...}}, or a
+	 * `<ref extends=x>` sub-reference. Pins that would lose a param in the new form are
+	 * kept as written and reported as warnings.
+	 */
+	locatorStyle?: LocatorStyle;
+	/**
+	 * Rewrite retired and aliased cite template params under their canonical names
+	 * (`accessdate` becomes `access-date`, `deadurl=no` becomes `url-status=live`).
+	 * Params the template's TemplateData does not declare are reported as warnings.
+	 */
+	migrateParams?: boolean;
+	/**
+	 * Rewrite the publication, access and archive dates of cite templates in the format the
+	 * page's {{Use dmy dates}} or {{Use mdy dates}} asks for. Dates whose day and month could
+	 * be read either way are left as written and reported as warnings.
+	 */
+	normalizeDates?: boolean;
+}
+
+/** Uses of one ref to give their own definition. */
+export interface RefSplit {
+	/** Name of the ref to split, as written in the input. */
+	name: string;
+	group?: string | null;
+	/** Indexes of the uses to move, as numbered by {@link parseReferences}. */
+	uses: number[];
+	/** Name of the new ref. */
+	newName: string;
+	/** Value of `page=` in the new copy's cite template; the body is cloned unchanged when omitted. */
+	page?: string;
+}
+
+/** A new body for the definition of one ref. */
+export interface RefEdit {
+	/** Name of the ref, as written in the input; for a nameless ref, its ID from {@link parseReferences}. */
+	name: string;
+	group?: string | null;
+	/** New definition body. */
+	content: string;
 }
 
 export interface TransformResult {
 	wikitext: string;
+	/** New text of `options.section`, when a section was given. */
+	sectionText?: string;
 	changes: {
 		renamed: Array<{ from: string; to: string | null }>;
 		deduped: Array<{ from: string; to: string }>;
+		split: Array<{ from: string; to: string; uses: number }>;
+		/** Refs whose definition body was replaced, by name as written (ID when nameless). */
+		edited: string[];
 		movedToLdr: string[];
 		movedToInline: string[];
+		/** Cite template params rewritten under their canonical names, in source order. */
+		migrated: Array<ParamMigration & { template: string }>;
+		/** Refs whose definition body had cite params rewritten, by name as written (ID when nameless). */
+		migratedRefs: string[];
+		/** Cite template dates rewritten in the page's date format, in source order. */
+		redated: Array<DateRewrite & { template: string }>;
+		/** Refs whose definition body had dates rewritten, by name as written (ID when nameless). */
+		redatedRefs: string[];
+		/** List-defined refs with no uses, dropped when the list no longer holds them, by name as written. */
+		droppedUnused: string[];
 	};
+	/** Every edit made to the page, in source order. */
+	changeLog: TransformChange[];
+	/** Near-duplicate clusters found by fuzzy dedupe, merged or not. */
+	duplicates?: DuplicateProposal[];
 	warnings: string[];
 }
 
+/** A cluster of near-identical refs, keyed by ref name. */
+export interface DuplicateProposal extends DuplicateCluster {
+	group: string | null;
+	/** Whether the cluster scored high enough to be merged. */
+	merged: boolean;
+}
+
+/** Edits of one change log operation, as offered for review. */
+export interface TransformOperation {
+	id: string;
+	op: ChangeOperation;
+	/** Reason of the operation's first edit. */
+	reason: string;
+	/** Number of edits the operation makes. */
+	edits: number;
+}
+
+/** Kind of edit recorded in the change log. */
+export type ChangeOperation =
+	| 'rename'
+	| 'dedupe'
+	| 'split'
+	| 'edit'
+	| 'move-inline'
+	| 'move-ldr'
+	| 'normalize'
+	| 'collapse-r'
+	| 'locator'
+	| 'migrate'
+	| 'date'
+	| 'reorder';
+
+/** One edit made by {@link transformWikitext}. */
+export interface TransformChange {
+	/**
+	 * Operation the edit belongs to, stable across runs on the same input, for
+	 * `accept`/`reject`. Null for reference list rewrites that follow from other operations.
+	 */
+	id: string | null;
+	op: ChangeOperation;
+	/** Key of the ref as written in the input (`group::name`), or null for reference lists and {{r}} chains. */
+	refKey: string | null;
+	/** Span replaced in the input wikitext. */
+	originalSpan: SourceSpan;
+	/** Span of the replacement text in the output wikitext. */
+	newSpan: SourceSpan;
+	/** Human-readable description of the edit. */
+	reason: string;
+}
+
 type RefKey = string;
-type RefUseKind = 'selfClosing' | 'full' | 'templateR';
+type RefUseKind = 'selfClosing' | 'full' | 'templateR' | 'note';
 
 interface RefUseInternal {
 	name: string | null;
@@ -356,6 +485,57 @@ interface RefUseInternal {
 	kind: RefUseKind;
 	content?: string;
 	rTemplateId?: number;
+	/** Footnote template name as written, for uses of kind 'note'. */
+	template?: string;
+	/** Source offsets of `content`, for definitions. */
+	contentStart?: number;
+	contentEnd?: number;
+	/** Definition whose body holds this use (a note's text or a list-defined ref), if nested. */
+	parent?: RefUseInternal;
+	/** Name of the ref a sub-reference definition extends, as written. */
+	extendsName?: string;
+	/** Whether the sub-reference is written `<ref name=parent details=... />`, with its text in `content`. */
+	details?: boolean;
+	/** Comments written next to a definition, carried along when it moves. */
+	trivia?: RefTrivia;
+	/** Whether `content` was replaced by a requested edit. */
+	edited?: boolean;
+}
+
+/** Comments written next to a definition. */
+interface RefTrivia {
+	/** Comment and blank lines (as '') above a list-defined entry; they stay in the list. */
+	leading: string[];
+	/** Comments before a list-defined entry on its line. */
+	before?: string;
+	/** Comments following the definition on its line. */
+	trailing: string;
+	/** Source offset where the trailing comments end, for in-text definitions. */
+	end?: number;
+}
+
+/** An {{r}} invocation with its parsed entries. */
+interface RTemplateMatch {
+	id: number;
+	start: number;
+	end: number;
+	entries: RTemplateEntry[];
+	/** Definition whose body holds the invocation, if nested. */
+	parent: RefUseInternal | null;
+}
+
+/** A {{sfn}} or {{harvnb}} invocation pointing at a CITEREF anchor. */
+interface CiteRefUse {
+	start: number;
+	end: number;
+	role: 'sfn' | 'harv';
+	raw: string;
+}
+
+/** All shortened-footnote uses that resolve to one CITEREF anchor. */
+interface CiteRefRecord {
+	anchor: string;
+	uses: CiteRefUse[];
 }
 
 interface RefRecord {
@@ -368,6 +548,14 @@ interface RefRecord {
 	ldrDefinitions: RefUseInternal[];
 	canonical?: RefRecord;
 	targetLocation: 'inline' | 'ldr';
+	/** Ref this one was split off; its placement follows that ref's. */
+	splitFrom?: RefRecord;
+	/** Split that took this ref's only inline definition, so the body must be written at a remaining use. */
+	definitionTakenBy?: RefRecord;
+	/** For sub-references, the name of the ref extended, as written. */
+	extendsName?: string;
+	/** For sub-references, the record of the ref extended, when it is on the page. */
+	parentRef?: RefRecord;
 }
 
 interface TemplateMatch {
@@ -376,14 +564,88 @@ interface TemplateMatch {
 	name: string;
 	content: string;
 	params: TemplateParam[];
+	/** Container syntax: a reflist-style template or a <references> tag. */
+	form: 'template' | 'tag';
+	/** Group rendered by this container (`group=` param or attribute), or null for the default group. */
+	group: string | null;
+	/** Raw attribute text of a <references> tag; empty for templates. */
+	attrs: string;
+	/** Whether a <references> tag was written self-closing. */
+	selfClosing: boolean;
+	/** Comment lines written after the last list-defined entry. */
+	tail?: string[];
 }
 
+/** List-defined reference entry to be written into a container. */
+interface LdrEntry {
+	name: string;
+	group: string | null;
+	content: string;
+	/** Footnote template to render the entry with, when its body nests other refs. */
+	template?: string;
+	/** Name of the ref the entry extends, for sub-references. */
+	parent?: string;
+	/** Offset of the first in-text use, for ordering by first use. */
+	firstUse: number;
+	/** Comments moving with the definition. */
+	trivia?: RefTrivia;
+	/** Markup of the <ref> tag the body was written in, to keep its style. */
+	raw?: string;
+}
+
+/** Layout of the entries already written in a reference list. */
+interface ListLayout {
+	/** Current names of the entries, in written order. */
+	names: string[];
+	/** Lines written after the last entry. */
+	tail: string[];
+}
+
+const LDR_ORDER_LABELS: Record<LdrOrder, string> = {
+	'name': 'name',
+	'first-use': 'first use',
+	'author-year': 'author and year',
+	'preserve': 'written order'
+};
+
 interface TemplateParam {
 	name: string | null;
 	value: string;
 }
 
-const DEFAULT_REFLIST_TEMPLATES = ['reflist', 'references'];
+/** Groups rendered by the {{notelist}} variants; the matching {{efn}} variants default to the same group. */
+const NOTE_GROUPS: Record<string, string> = {
+	'efn': 'lower-alpha',
+	'efn-ua': 'upper-alpha',
+	'efn-lr': 'lower-roman',
+	'efn-ur': 'upper-roman',
+	'efn-lg': 'lower-greek',
+	'notelist': 'lower-alpha',
+	'notelist-ua': 'upper-alpha',
+	'notelist-lr': 'lower-roman',
+	'notelist-ur': 'upper-roman',
+	'notelist-lg': 'lower-greek'
+};
+
+/**
+ * Get the group a footnote template or notelist renders when no `group=` is given.
+ * @param template - Template name as written.
+ * @returns Default group, or null for templates that use the default group (e.g. {{refn}}).
+ */
+function defaultNoteGroup(template: string): string | null {
+	const canonical = resolveTemplateAlias(template)?.canonical;
+	return (canonical && NOTE_GROUPS[canonical]) || null;
+}
+
+/**
+ * Resolve the reflist template names to detect, consulting the per-wiki alias registry.
+ * @param override - Optional explicit list of names.
+ * @returns Lowercase reflist template names.
+ */
+function resolveReflistNames(override?: string[]): string[] {
+	const names = override && override.length > 0 ? override : getTemplateNames('reflist');
+	return names.map((n) => n.toLowerCase());
+}
 
 /**
  * Transform wikitext by applying rename, dedupe, and location rules without saving.
@@ -395,43 +657,314 @@ const DEFAULT_REFLIST_TEMPLATES = ['reflist', 'references'];
 export function transformWikitext(wikitext: string, options: TransformOptions = {}): TransformResult {
 	const warnings: string[] = [];
 	const renameMap = normalizeRenameMap(options.renameMap || {});
-	const renameNameless = options.renameNameless || {};
+	const renameNameless = { ...(options.renameNameless || {}) };
 	const dedupe = Boolean(options.dedupe);
-	const sortRefs = options.sortRefs === undefined ? false : Boolean(options.sortRefs);
+	const ldrOrder = options.ldrOrder ?? (options.sortRefs ? 'name' : null);
 	const useTemplateR = Boolean(options.useTemplateR);
 	const normalizeAll = options.normalizeAll === undefined ? false : options.normalizeAll !== false;
-	const reflistNames = (options.reflistTemplates && options.reflistTemplates.length > 0 ? options.reflistTemplates : DEFAULT_REFLIST_TEMPLATES).map((n) => n.toLowerCase());
+	const reflistNames = resolveReflistNames(options.reflistTemplates);
 	const targetMode = normalizeLocationMode(options.locationMode);
+	const isAccepted = operationFilter(options.accept, options.reject);
 
 	const ctx = parseWikitext(wikitext, reflistNames);
 	ctx.refs = normalizeRefKeys(ctx.refs);
+	const splits = (options.split || []).filter((entry) => isAccepted(`split:${refKey(entry.newName, entry.group ?? null)}`));
+	const split = applySplits(ctx.refs, ctx.rTemplates, splits, warnings);
+	const edits = (options.edit || []).filter((entry) => isAccepted(`edit:${editKey(ctx.refs, entry)}`));
+	const edited = applyBodyEdits(ctx.refs, ctx.rTemplates, edits, warnings);
+	// Listed before renames, so that the verifier can match the names as written
+	const migratedRefs = options.migrateParams ? rewrittenRefs(ctx.refs, (body) => migrateCiteParams(body, []).length > 0) : [];
+	const dateStyle = options.normalizeDates ? detectDateStyle(wikitext) : null;
+	const redatedRefs = dateStyle ? rewrittenRefs(ctx.refs, (body) => normalizeDates(body, dateStyle, []).length > 0) : [];
+	const unused = new Map(refIterator(ctx.refs)
+		.filter((ref) => ref.name && ref.uses.length === 0 && ref.definitions.length === 0 && ref.ldrDefinitions.length > 0)
+		.map((ref) => [ref, ref.name ?? ref.id]));
+	[...Object.keys(renameMap), ...Object.keys(renameNameless)].forEach((key) => {
+		if (ctx.citeRefs.has(key)) warnings.push(`Shortened footnote anchor ${key} cannot be renamed; edit the cited source instead.`);
+	});
+	Object.keys(renameNameless).forEach((key) => {
+		if (ctx.citeRefs.has(key) || !isAccepted(`rename:${key}`)) delete renameNameless[key];
+	});
+	Object.keys(renameMap).forEach((name) => {
+		if (refIterator(ctx.refs).some((ref) => ref.name === name && !isAccepted(`rename:${ref.key}`))) delete renameMap[name];
+	});
 
 	applyRenames(ctx.refs, renameMap, renameNameless);
 	ctx.refs = normalizeRefKeys(ctx.refs);
-	const deduped = dedupe ? applyDedupe(ctx.refs) : [];
+	const allowMerge = (ref: RefRecord): boolean => isAccepted(`dedupe:${ref.key}`);
+	let duplicates: DuplicateProposal[] | undefined;
+	let deduped: Array<{ from: string; to: string }> = [];
+	if (dedupe && options.fuzzyDedupe) {
+		({ deduped, duplicates } = applyFuzzyDedupe(ctx.refs, options.fuzzyDedupe, allowMerge));
+		duplicates.filter((cluster) => !cluster.merged).forEach((cluster) => {
+			const names = cluster.keys.map((name) => `"${name}"`).join(', ');
+			warnings.push(`Possible duplicates not merged (confidence ${cluster.confidence.toFixed(2)}): ${names}.`);
+		});
+	} else if (dedupe) {
+		deduped = applyDedupe(ctx.refs, allowMerge);
+	}
 	assignLocations(ctx.refs, targetMode);
+	// A rejected move keeps the definition where it is
+	refIterator(ctx.refs).forEach((ref) => {
+		const current = ref.definitions.length === 0 && ref.ldrDefinitions.length > 0 ? 'ldr' : 'inline';
+		if (ref.targetLocation !== current && !isAccepted(`move-${ref.targetLocation}:${ref.key}`)) ref.targetLocation = current;
+	});
+	refIterator(ctx.refs).forEach((ref) => {
+		if (ref.splitFrom) ref.targetLocation = (ref.splitFrom.canonical ?? ref.splitFrom).targetLocation;
+		// Sub-references stay where they are written
+		if (ref.extendsName !== undefined) ref.targetLocation = ref.definitions.length === 0 && ref.ldrDefinitions.length > 0 ? 'ldr' : 'inline';
+	});
+	// With no use to hold it, an entry moved out of the list is dropped
+	const droppedUnused = [...unused].filter(([ref]) => (ref.canonical ?? ref) === ref && ref.targetLocation === 'inline').map(([, name]) => name);
 
-	const plan = buildReplacementPlan(ctx, {
+	const plan = buildReplacementPlan({ ...ctx, source: wikitext }, {
 		useTemplateR,
-		sortRefs,
+		ldrOrder,
 		normalizeAll,
 		locationModeKeep: targetMode === 'keep',
+		keepPinnedR: options.locatorStyle === 'r',
 		renameLookup: (name: string) => renameMap[name]
 	});
 
-	const replaced = applyReplacements(wikitext, plan.replacements);
-	const finalText = useTemplateR ? collapseRefsAndRp(replaced, true) : replaced;
+	warnings.push(...plan.warnings);
+	const accepted = plan.replacements.filter((r) => !r.change || isAccepted(operationId(r.change, Math.min(r.start, wikitext.length))));
+	// Later passes rewrite the text the earlier ones produced; their offsets map back through each pass to the input
+	const stages: ChangeStage[] = [];
+	const undone: TrackedEdit[][] = [];
+	const toSource = (offset: number): number => undoOffset(undone, offset);
+	const runPass = (text: string, replacements: Replacement[]): string => {
+		stages.push({ text, replacements });
+		undone.push(undoReplacements(text, replacements));
+		return applyReplacements(text, replacements);
+	};
+	const replaced = runPass(wikitext, accepted);
+	const locatorStyle = options.locatorStyle;
+	const migrated: Array<ParamMigration & { template: string }> = [];
+	const redated: Array<DateRewrite & { template: string }> = [];
+	// Another pin style must not be folded back into {{r}}
+	const foldPins = !locatorStyle || locatorStyle === 'r';
+	// Run on the page, then on the edited section
+	const passes: TextPass[] = [];
+	if (locatorStyle) passes.push({ op: 'locator', plan: (text, keep, report) => convertPins(text, locatorStyle, report ? warnings : [], keep) });
+	if (options.migrateParams) {
+		passes.push({ op: 'migrate', plan: (text, keep, report) => migrateCiteParams(text, report ? warnings : [], keep, report ? migrated : undefined) });
+	}
+	if (dateStyle) {
+		passes.push({ op: 'date', plan: (text, keep, report) => normalizeDates(text, dateStyle, report ? warnings : [], keep, report ? redated : undefined) });
+	}
+	if (useTemplateR) passes.push({ op: 'collapse-r', plan: (text, keep) => collapseRefsAndRp(text, keep, foldPins) });
+	const finalText = runTextPasses(replaced, passes, (op, offset) => isAccepted(`${op}@${toSource(offset)}`), runPass, true);
+	if (options.normalizeDates && !dateStyle) warnings.push('Dates were left as written: the page has no {{Use dmy dates}} or {{Use mdy dates}}.');
+	let sectionText: string | undefined;
+	if (options.section) {
+		const span = options.section;
+		const scoped = scopeToSection(wikitext, accepted, span);
+		// The section's passes are filtered like the page's, by the offsets they map back to
+		const sectionUndone = [undoReplacements(wikitext.slice(span.start, span.end), scoped.replacements)];
+		const keepInSection = (op: ChangeOperation, offset: number): boolean => isAccepted(`${op}@${span.start + undoOffset(sectionUndone, offset)}`);
+		const runSectionPass = (text: string, replacements: Replacement[]): string => {
+			sectionUndone.push(undoReplacements(text, replacements));
+			return applyReplacements(text, replacements);
+		};
+		sectionText = runTextPasses(scoped.text, passes, keepInSection, runSectionPass, false);
+		warnings.push(...scoped.warnings);
+	}
 
 	return {
-		wikitext: finalText, changes: {
+		wikitext: finalText, sectionText, changes: {
 			renamed: Object.entries(renameMap).map(([from, to]) => ({ from, to })),
 			deduped,
+			split,
+			edited,
 			movedToInline: plan.movedInline,
-			movedToLdr: plan.movedLdr
-		}, warnings
+			movedToLdr: plan.movedLdr,
+			migrated,
+			migratedRefs,
+			redated,
+			redatedRefs,
+			droppedUnused
+		},
+		changeLog: buildChangeLog(stages),
+		duplicates,
+		warnings
 	};
 }
 
+/**
+ * Group a change log into the operations a user can accept or reject.
+ * @param changeLog - Change log of a dry run.
+ * @returns One entry per operation ID, in source order; derived edits are left out.
+ */
+export function summarizeOperations(changeLog: TransformChange[]): TransformOperation[] {
+	const operations = new Map<string, TransformOperation>();
+	changeLog.forEach((change) => {
+		if (change.id === null) return;
+		const existing = operations.get(change.id);
+		if (existing) {
+			existing.edits++;
+			return;
+		}
+		operations.set(change.id, { id: change.id, op: change.op, reason: change.reason, edits: 1 });
+	});
+	return Array.from(operations.values());
+}
+
+/**
+ * Rewrite the page pins of a text in one locator style, for the change log.
+ * @param text - Wikitext to convert.
+ * @param style - Target style.
+ * @param warnings - Collector for the pins kept because converting them would drop data.
+ * @param keep - Optional check whether the pin at an offset may be converted.
+ * @returns Replacements with offsets into `text`.
+ */
+function convertPins(text: string, style: LocatorStyle, warnings: string[], keep?: (offset: number) => boolean): Replacement[] {
+	const { edits, losses } = convertLocators(text, style, keep);
+	warnings.push(...losses.map((loss) => loss.message));
+	return edits.map((edit) => ({
+		start: edit.start,
+		end: edit.end,
+		text: edit.text,
+		change: {
+			op: 'locator',
+			refKey: null,
+			reason: `Rewrote the page pin of ${edit.names.map((name) => `"${name}"`).join(', ')} as ${locatorStyleLabel(style)}`
+		}
+	}));
+}
+
+/**
+ * List the refs whose definition bodies a text pass rewrites.
+ * @param refs - Map of reference records, before renames.
+ * @param rewrites - Check whether the pass rewrites a body.
+ * @returns Names (IDs for nameless refs) of the refs, as written.
+ */
+function rewrittenRefs(refs: Map<RefKey, RefRecord>, rewrites: (body: string) => boolean): string[] {
+	return refIterator(refs)
+		.filter((ref) => [...ref.definitions, ...ref.ldrDefinitions].some((def) => def.content && rewrites(def.content)))
+		.map((ref) => ref.name ?? ref.id);
+}
+
+/**
+ * Rewrite the retired and aliased params of every cite template in a text, for the change log.
+ * @param text - Wikitext to migrate.
+ * @param warnings - Collector for the params left as written.
+ * @param keep - Optional check whether the template at an offset may be rewritten.
+ * @param collected - Optional collector for the rewrites made.
+ * @returns Replacements with offsets into `text`, one per template.
+ */
+function migrateCiteParams(
+	text: string,
+	warnings: string[],
+	keep?: (offset: number) => boolean,
+	collected?: Array<ParamMigration & { template: string }>
+): Replacement[] {
+	const replacements: Replacement[] = [];
+	eachCitation(text, (citation, start) => {
+		const result = migrateCitation(citation);
+		warnings.push(...result.issues.map((issue) => issue.message));
+		if (!result.migrations.length || (keep && !keep(start))) return;
+		collected?.push(...result.migrations.map((migration) => ({ ...migration, template: citation.template })));
+		const rewrites = result.migrations.map((migration) =>
+			migration.value ? `${migration.from}=${migration.value.from} to ${migration.to}=${migration.value.to}` : `${migration.from} to ${migration.to}`
+		);
+		replacements.push({
+			start,
+			end: start + citation.raw.length,
+			text: result.citation.raw,
+			change: { op: 'migrate', refKey: null, reason: `Renamed ${rewrites.join(', ')} in {{${citation.template}}}` }
+		});
+	});
+	return replacements;
+}
+
+/**
+ * Rewrite the dates of every cite template in a text in the page's date format, for the change log.
+ * @param text - Wikitext to rewrite.
+ * @param style - Date format of the page.
+ * @param warnings - Collector for the dates left as written because they are ambiguous.
+ * @param keep - Optional check whether the template at an offset may be rewritten.
+ * @param collected - Optional collector for the rewrites made.
+ * @returns Replacements with offsets into `text`, one per template.
+ */
+function normalizeDates(
+	text: string,
+	style: DateStyle,
+	warnings: string[],
+	keep?: (offset: number) => boolean,
+	collected?: Array<DateRewrite & { template: string }>
+): Replacement[] {
+	const replacements: Replacement[] = [];
+	eachCitation(text, (citation, start) => {
+		const result = normalizeCitationDates(citation, style);
+		result.ambiguous.forEach((date) => {
+			warnings.push(`Left ${date.param}=${date.value} in {{${citation.template}}} as written: the day and month could be read either way.`);
+		});
+		if (!result.rewrites.length || (keep && !keep(start))) return;
+		collected?.push(...result.rewrites.map((rewrite) => ({ ...rewrite, template: citation.template })));
+		const rewrites = result.rewrites.map((rewrite) => `${rewrite.param}=${rewrite.from} as ${rewrite.to}`);
+		replacements.push({
+			start,
+			end: start + citation.raw.length,
+			text: result.citation.raw,
+			change: { op: 'date', refKey: null, reason: `Rewrote ${rewrites.join(', ')} in {{${citation.template}}}` }
+		});
+	});
+	return replacements;
+}
+
+/**
+ * Visit every cite template of a text, leaving out those in comments and nowiki.
+ * @param text - Wikitext to scan.
+ * @param visit - Called with each citation and its offset in `text`.
+ */
+function eachCitation(text: string, visit: (citation: Citation, start: number) => void): void {
+	const inert = tokenizeWikitext(text).filter((token) => token.type === 'comment' || token.type === 'nowiki');
+	let span: SourceSpan | null = null;
+	while ((span = findCiteTemplate(text, span ? span.end : 0))) {
+		const { start, end } = span;
+		if (inert.some((token) => start >= token.start && start < token.end)) continue;
+		const citation = readCitation(text.slice(start, end));
+		if (citation) visit(citation, start);
+	}
+}
+
+/**
+ * Apply the replacements that fall inside an edited section to that section's text.
+ * Replacements elsewhere on the page (or straddling the section boundary) are left out
+ * and counted per section in a single warning, since they need a full-page edit.
+ * @param wikitext - Full page wikitext.
+ * @param replacements - Page-wide replacements.
+ * @param span - Span of the edited section.
+ * @returns New section text, the replacements applied to it (with offsets into the section)
+ *   and warnings for the edits left out.
+ */
+function scopeToSection(
+	wikitext: string,
+	replacements: Replacement[],
+	span: SourceSpan
+): { text: string; replacements: Replacement[]; warnings: string[] } {
+	const isLast = wikitext.slice(span.end).trim() === '';
+	const inside: Replacement[] = [];
+	const outside = new Map<string, number>();
+	const sections = findSections(wikitext);
+	replacements.slice().sort((a, b) => a.start - b.start).forEach((r) => {
+		const appended = r.start >= wikitext.length;
+		if (appended ? isLast : r.start >= span.start && r.end <= span.end) {
+			inside.push(appended ? r : { ...r, start: r.start - span.start, end: r.end - span.start });
+			return;
+		}
+		const section = appended ? null : sectionAt(sections, r.start);
+		const label = !section ? 'the end of the page'
+			: section.title === null ? 'the lead section' : `section "${section.title}"`;
+		outside.set(label, (outside.get(label) ?? 0) + 1);
+	});
+	const effects = Array.from(outside.entries()).map(([label, count]) => `${count} in ${label}`);
+	const warnings = effects.length
+		? [`Changes outside the edited section need a full-page edit and were left out: ${effects.join(', ')}.`]
+		: [];
+	return { text: applyReplacements(wikitext.slice(span.start, span.end), inside), replacements: inside, warnings };
+}
+
 /**
  * Build a map of ref identifiers to their first captured content from wikitext,
  * including list-defined references inside reflist templates.
@@ -440,7 +973,7 @@ export function transformWikitext(wikitext: string, options: TransformOptions =
  * @returns Map of ref names/IDs to their content strings.
  */
 export function getRefContentMap(wikitext: string, reflistTemplates?: string[]): Map<string, string> {
-	const reflistNames = (reflistTemplates && reflistTemplates.length > 0 ? reflistTemplates : DEFAULT_REFLIST_TEMPLATES).map((n) => n.toLowerCase());
+	const reflistNames = resolveReflistNames(reflistTemplates);
 	const ctx = parseWikitext(wikitext, reflistNames);
 	const refs = normalizeRefKeys(ctx.refs);
 	const map = new Map<string, string>();
@@ -530,22 +1063,191 @@ function applyRenames(refs: Map<RefKey, RefRecord>, rename: Record<string, strin
 	}
 }
 
+/**
+ * Move chosen uses of refs onto new named copies of their definitions.
+ * A new copy is placed like the ref it was split off. When the moved uses include the
+ * ref's only inline definition, the body is written again at the ref's first remaining use.
+ * A {{r}} call holding an inline copy is written as <ref> tags.
+ * @param refs - Map of reference records; new records are added to it.
+ * @param rTemplates - Parsed {{r}} invocations, whose entries are pointed at the new names.
+ * @param splits - Requested splits.
+ * @param warnings - Collector for splits that cannot be made.
+ * @returns Splits made.
+ */
+function applySplits(
+	refs: Map<RefKey, RefRecord>,
+	rTemplates: RTemplateMatch[],
+	splits: RefSplit[],
+	warnings: string[]
+): Array<{ from: string; to: string; uses: number }> {
+	const made: Array<{ from: string; to: string; uses: number }> = [];
+	splits.forEach((split) => {
+		const group = split.group ?? null;
+		const ref = refs.get(refKey(split.name, group));
+		const label = `"${split.name}"`;
+		const def = ref ? firstDefinition(ref) : null;
+		if (!ref || !def) {
+			warnings.push(`Cannot split ${label}: it has no definition on this page.`);
+			return;
+		}
+		const key = refKey(split.newName, group);
+		if (!split.newName.trim() || refs.has(key)) {
+			warnings.push(`Cannot split ${label} into "${split.newName}": that name is already taken.`);
+			return;
+		}
+		const moving = ref.uses.filter((_use, index) => split.uses.includes(index));
+		if (!moving.length || moving.length === ref.uses.length) {
+			warnings.push(`Cannot split ${label}: choose some but not all of its uses.`);
+			return;
+		}
+		// Unless list-defined, the copy's body is written at one of its uses
+		const canHold = (use: RefUseInternal): boolean => ref.definitions.includes(use)
+			|| (use.kind === 'templateR' ? canExpandRCall(use, rTemplates) : !use.parent || use.parent.kind === 'note');
+		if (!ref.ldrDefinitions.length && !moving.some(canHold)) {
+			warnings.push(`Cannot split ${label}: none of the chosen uses can hold the definition of "${split.newName}".`);
+			return;
+		}
+		let content = def.content ?? '';
+		if (split.page !== undefined) {
+			const paged = setCitePage(content, split.page);
+			if (paged === null) warnings.push(`Split copy "${split.newName}" of ${label} has no cite template, so its page was not set.`);
+			else content = paged;
+		}
+
+		const copy: RefRecord = {
+			id: key,
+			name: split.newName,
+			group,
+			key,
+			// Not one of the uses: the body is written where the copy is placed
+			definitions: [{ ...def, name: split.newName, content, parent: undefined }],
+			uses: moving,
+			ldrDefinitions: [],
+			targetLocation: ref.targetLocation,
+			splitFrom: ref
+		};
+		ref.uses = ref.uses.filter((use) => !moving.includes(use));
+		if (ref.definitions.length && ref.definitions.every((d) => moving.includes(d))) {
+			ref.definitions = [{ ...ref.definitions[0] }];
+			ref.definitionTakenBy = copy;
+		}
+		// An {{r}} call citing the ref several times lists one name entry per use, in order
+		const seen = new Map<number, number>();
+		ref.uses.concat(moving).sort((a, b) => a.start - b.start).forEach((use) => {
+			if (use.rTemplateId === undefined) return;
+			const nth = seen.get(use.rTemplateId) ?? 0;
+			seen.set(use.rTemplateId, nth + 1);
+			if (!moving.includes(use)) return;
+			const entry = rTemplates[use.rTemplateId]?.entries.filter((e) => e.isName && e.value === split.name)[nth];
+			if (entry) entry.value = split.newName;
+		});
+		refs.set(key, copy);
+		made.push({ from: split.name, to: split.newName, uses: moving.length });
+	});
+	return made;
+}
+
+/**
+ * Find the ref a body edit is for.
+ * @param refs - Map of reference records.
+ * @param edit - Requested edit.
+ * @returns The named ref in the edit's group, or the nameless ref with the edit's ID.
+ */
+function findEditTarget(refs: Map<RefKey, RefRecord>, edit: RefEdit): RefRecord | undefined {
+	return refs.get(refKey(edit.name, edit.group ?? null))
+		?? refIterator(refs).find((ref) => !ref.name && (ref.id === edit.name || ref.key === edit.name));
+}
+
+/**
+ * Build the key a body edit is logged under: the ref key for named refs, the ID for nameless ones.
+ * @param refs - Map of reference records.
+ * @param edit - Requested edit.
+ * @returns Key used in the `edit:` operation ID.
+ */
+function editKey(refs: Map<RefKey, RefRecord>, edit: RefEdit): string {
+	const ref = findEditTarget(refs, edit);
+	return ref && !ref.name ? ref.id : refKey(edit.name, edit.group ?? null);
+}
+
+/**
+ * Replace the body of each edited ref's first definition. Bodies that hold other refs are
+ * left alone, since the refs nested in them are tracked by their offsets in the source,
+ * and so are new bodies holding <ref> tags, which would not be tracked at all.
+ * @param refs - Map of reference records.
+ * @param rTemplates - Parsed {{r}} invocations, to tell which bodies nest refs.
+ * @param edits - Requested edits.
+ * @param warnings - Collector for edits that cannot be made.
+ * @returns Names (IDs for nameless refs) of the refs edited.
+ */
+function applyBodyEdits(refs: Map<RefKey, RefRecord>, rTemplates: RTemplateMatch[], edits: RefEdit[], warnings: string[]): string[] {
+	const nested = collectNestedParents(refs, rTemplates);
+	const made: string[] = [];
+	edits.forEach((edit) => {
+		const ref = findEditTarget(refs, edit);
+		const def = ref ? firstDefinition(ref) : null;
+		const label = `"${edit.name}"`;
+		if (!ref || !def) {
+			warnings.push(`Cannot edit ${label}: it has no definition on this page.`);
+			return;
+		}
+		if (nested.has(def) || /<ref\b/i.test(`${def.content ?? ''}${edit.content}`)) {
+			warnings.push(`Cannot edit ${label} here: its body would hold other refs. Edit it in the source instead.`);
+			return;
+		}
+		if (!edit.content.trim() || edit.content === def.content) return;
+		def.content = edit.content;
+		def.edited = true;
+		made.push(edit.name);
+	});
+	return made;
+}
+
+/**
+ * Set the page of the first cite template in a ref body, replacing any page, pages, or
+ * location param it has.
+ * @param content - Ref body wikitext.
+ * @param page - New page value.
+ * @returns Updated body, or null when the body has no cite template.
+ */
+function setCitePage(content: string, page: string): string | null {
+	const span = findCiteTemplate(content);
+	if (!span) return null;
+	const params = splitParamSpans(content.slice(span.start + 2, span.end - 2)).map((param) => param.text);
+	const isPage = (param: string): boolean => /^\s*(?:page|pages|p|pp|at)\s*=/i.test(param);
+	const at = params.findIndex((param, i) => i > 0 && isPage(param));
+	let pieces: string[];
+	if (at !== -1) {
+		// Rewrite the first pinpoint in place and drop the others
+		const [, before, after] = /^(\s*)[^=]*=[\s\S]*?(\s*)$/.exec(params[at])!;
+		pieces = params.map((param, i) => (i === at ? `${before}page=${page}${after}` : param)).filter((param, i) => i === at || i === 0 || !isPage(param));
+	} else {
+		// Append, copying the spacing written before the last pipe (" |" or "\n|")
+		const last = params[params.length - 1];
+		const lead = params.length > 1 ? /\s*$/.exec(params[params.length - 2])![0] : '';
+		const trailing = /\s*$/.exec(last)![0];
+		pieces = [...params.slice(0, -1), `${last.slice(0, last.length - trailing.length)}${lead}`, `page=${page}${trailing}`];
+	}
+	return `${content.slice(0, span.start)}{{${pieces.join('|')}}}${content.slice(span.end)}`;
+}
+
 /**
  * Deduplicate references based on their content.
- * References with identical content are merged, with one canonical reference retained.
+ * References with identical content in the same group are merged, with one canonical reference retained.
  * @param refs - Map of reference records to deduplicate.
+ * @param allowed - Optional check whether a duplicate may be merged into an earlier copy.
  * @returns Array of changes made during deduplication.
  */
-function applyDedupe(refs: Map<RefKey, RefRecord>): Array<{ from: string; to: string }> {
+function applyDedupe(refs: Map<RefKey, RefRecord>, allowed: (ref: RefRecord) => boolean = () => true): Array<{ from: string; to: string }> {
 	const canonicalByContent = new Map<string, RefRecord>();
 	const changes: Array<{ from: string; to: string }> = [];
 
 	refIterator(refs).forEach((ref) => {
 		const content = firstContent(ref);
-		if (!content || !ref.name) return;
-		const norm = normalizeContent(content);
+		// A split copy was made on purpose and must not be merged back; sub-references only make sense under their parent
+		if (!content || !ref.name || ref.splitFrom || ref.extendsName !== undefined) return;
+		const norm = `${ref.group ?? ''}\u0000${normalizeContent(content)}`;
 		const existing = canonicalByContent.get(norm);
-		if (existing && existing.name) {
+		if (existing && existing.name && allowed(ref)) {
 			ref.canonical = existing;
 			// Preserve content if canonical lacked it
 			if (existing.definitions.length === 0 && ref.definitions.length > 0) {
@@ -564,6 +1266,54 @@ function applyDedupe(refs: Map<RefKey, RefRecord>): Array<{ from: string; to: st
 	return changes;
 }
 
+/**
+ * Merge references that likely cite the same source, even when their bodies differ.
+ * Each cluster keeps the body of the copy picked by `options.keep`; matches scoring
+ * below the threshold are left alone and only reported.
+ * @param refs - Map of reference records to deduplicate.
+ * @param options - Merge threshold and survivor rule.
+ * @param allowed - Optional check whether a duplicate may be merged into the kept copy.
+ * @returns Merges made and every cluster found.
+ */
+function applyFuzzyDedupe(
+	refs: Map<RefKey, RefRecord>,
+	options: { threshold?: number; keep?: SurvivorRule },
+	allowed: (ref: RefRecord) => boolean = () => true
+): { deduped: Array<{ from: string; to: string }>; duplicates: DuplicateProposal[] } {
+	const threshold = options.threshold ?? 0.85;
+	const deduped: Array<{ from: string; to: string }> = [];
+	const duplicates: DuplicateProposal[] = [];
+	const byGroup = new Map<string | null, RefRecord[]>();
+	refIterator(refs).forEach((ref) => {
+		if (!ref.name || !firstContent(ref) || ref.splitFrom || ref.extendsName !== undefined) return;
+		ref.canonical = ref;
+		byGroup.set(ref.group, [...(byGroup.get(ref.group) ?? []), ref]);
+	});
+
+	byGroup.forEach((members, group) => {
+		const byName = new Map(members.map((ref) => [ref.name!, ref]));
+		const candidates = members.map((ref) => ({ key: ref.name!, content: firstContent(ref)! }));
+		const merged = findDuplicateClusters(candidates, options.keep, threshold);
+		merged.forEach((cluster) => {
+			duplicates.push({ ...cluster, group, merged: true });
+			const survivor = byName.get(cluster.survivor)!;
+			cluster.keys.forEach((name) => {
+				const ref = byName.get(name)!;
+				if (ref === survivor || !allowed(ref)) return;
+				// The survivor's body wins, so the merged copy's definitions are not carried over
+				ref.canonical = survivor;
+				deduped.push({ from: name, to: survivor.name! });
+			});
+		});
+		// Weaker matches between the kept copies and the remaining refs are only proposed
+		const absorbed = new Set(merged.flatMap((cluster) => cluster.keys.filter((key) => key !== cluster.survivor)));
+		findDuplicateClusters(candidates.filter((candidate) => !absorbed.has(candidate.key)), options.keep).forEach((cluster) => {
+			duplicates.push({ ...cluster, group, merged: false });
+		});
+	});
+	return { deduped, duplicates };
+}
+
 /**
  * Assign target locations (inline or ldr) to references based on mode and usage.
  * @param refs - Map of reference records to assign locations.
@@ -623,14 +1373,23 @@ function aggregateUses(refs: Map<RefKey, RefRecord>, canonical: RefRecord): RefU
 	return collected;
 }
 
+/**
+ * Get the first definition with non-empty content from a reference's definitions or ldrDefinitions.
+ * @param ref - Reference record to search.
+ * @returns The first definition carrying content, or null if none found.
+ */
+function firstDefinition(ref: RefRecord): RefUseInternal | null {
+	const hasContent = (d: RefUseInternal) => (d.content || '').trim().length > 0;
+	return ref.definitions.find(hasContent) || ref.ldrDefinitions.find(hasContent) || null;
+}
+
 /**
  * Get the first non-empty content from a reference's definitions or ldrDefinitions.
  * @param ref - Reference record to extract content from.
  * @returns The first non-empty content string or null if none found.
  */
 function firstContent(ref: RefRecord): string | null {
-	const def = ref.definitions.find((d) => (d.content || '').trim().length > 0) || ref.ldrDefinitions.find((d) => (d.content || '').trim().length > 0);
-	return def?.content ?? null;
+	return firstDefinition(ref)?.content ?? null;
 }
 
 /**
@@ -689,18 +1448,25 @@ function normalizeRefKeys(refs: Map<RefKey, RefRecord>): Map<RefKey, RefRecord>
 
 /**
  * Parse wikitext for refs, uses, and reflist templates.
+ * Walks the shared token stream in document order, so nameless IDs are assigned
+ * by position and refs inside comments or nowiki blocks are ignored.
+ * Footnote templates ({{efn}}, {{refn}}) are recorded like <ref> tags in their group,
+ * and {{sfn}}/{{harvnb}} uses are collected per CITEREF anchor. Uses nested in a
+ * definition body (a note's text or a list-defined ref) keep a link to that definition.
  * @param wikitext - Source wikitext to parse.
  * @param reflistNames - Names of reflist templates to detect.
- * @returns Parsed references, templates, and reflist template entries.
+ * @returns Parsed references, templates, reflist template entries, and CITEREF anchors.
  */
 function parseWikitext(wikitext: string, reflistNames: string[]): {
 	refs: Map<RefKey, RefRecord>;
 	templates: TemplateMatch[];
-	rTemplates: Array<{ id: number; start: number; end: number; entries: RTemplateEntry[] }>
+	rTemplates: RTemplateMatch[];
+	citeRefs: Map<string, CiteRefRecord>;
 } {
 	const refs = new Map<RefKey, RefRecord>();
-	const templates = findTemplates(wikitext, reflistNames);
-	const rTemplates: Array<{ id: number; start: number; end: number; entries: RTemplateEntry[] }> = [];
+	const templates: TemplateMatch[] = [];
+	const rTemplates: RTemplateMatch[] = [];
+	const citeRefs = new Map<string, CiteRefRecord>();
 	let namelessCounter = 0;
 
 	// Helper to get or create a RefRecord
@@ -715,215 +1481,731 @@ function parseWikitext(wikitext: string, reflistNames: string[]): {
 		return rec;
 	};
 
-	// Parse full <ref>...</ref> tags
-	const refFull = /<ref\b([^>/]*?)>([\s\S]*?)<\/ref>/gi;
-	for (const match of wikitext.matchAll(refFull)) {
-		const idx = match.index ?? 0;
-		if (inTemplateRange(idx, templates)) continue;
-		const attrs = match[1] ?? '';
-		const content = match[2] ?? '';
-		const name = extractAttr(attrs, 'name');
-		const group = extractAttr(attrs, 'group');
-		const ref = getRef(name, group);
-		const use: RefUseInternal = {
-			name, group, start: idx, end: idx + match[0].length, kind: 'full', content
-		};
-		ref.definitions.push(use);
+	// Record a definition or use, either in the text or list-defined inside a container.
+	const record = (ref: RefRecord, use: RefUseInternal, listDefined: boolean): void => {
+		if (listDefined) {
+			ref.ldrDefinitions.push(use);
+			return;
+		}
+		if (use.content !== undefined && use.kind !== 'selfClosing') ref.definitions.push(use);
 		ref.uses.push(use);
-	}
+	};
 
-	// Parse self-closing <ref ... /> tags
-	const refSelf = /<ref\b([^>]*?)\/\s*>/gi;
-	for (const match of wikitext.matchAll(refSelf)) {
-		const idx = match.index ?? 0;
-		if (inTemplateRange(idx, templates)) continue;
-		const attrs = match[1] ?? '';
-		const name = extractAttr(attrs, 'name');
-		const group = extractAttr(attrs, 'group');
-		const ref = getRef(name, group);
+	// Record a <ref> tag either as an in-text use or as a list-defined definition.
+	// List-defined refs without a group attribute inherit the group of their container.
+	const addRefTag = (tok: RefTagToken, container: TemplateMatch | null, parent: RefUseInternal | null): RefUseInternal | null => {
+		const details = tok.selfClosing ? extractAttr(tok.attrs, 'details') : null;
+		if (container && tok.selfClosing && details === null) return null;
+		const group = extractAttr(tok.attrs, 'group');
+		if (details !== null) {
+			// <ref name="book" details="p. 12" /> defines an unnamed sub-reference of "book"
+			const ref = getRef(null, group ?? container?.group ?? null);
+			const use: RefUseInternal = {
+				name: null, group, start: tok.start, end: tok.end, kind: 'selfClosing', content: details,
+				extendsName: extractAttr(tok.attrs, 'name') ?? '', details: true
+			};
+			if (parent) use.parent = parent;
+			ref.extendsName = use.extendsName;
+			ref.definitions.push(use);
+			ref.uses.push(use);
+			return use;
+		}
+		const name = extractAttr(tok.attrs, 'name');
+		const ref = getRef(name, group ?? container?.group ?? null);
 		const use: RefUseInternal = {
-			name, group, start: idx, end: idx + match[0].length, kind: 'selfClosing'
+			name, group, start: tok.start, end: tok.end, kind: tok.selfClosing ? 'selfClosing' : 'full'
 		};
-		ref.uses.push(use);
-	}
+		if (tok.content !== null) {
+			use.content = tok.content;
+			use.contentStart = tok.contentStart;
+			use.contentEnd = tok.contentEnd;
+		}
+		const extendsName = tok.content !== null ? extractAttr(tok.attrs, 'extends') : null;
+		if (extendsName !== null) {
+			use.extendsName = extendsName;
+			ref.extendsName = extendsName;
+		}
+		if (parent) use.parent = parent;
+		record(ref, use, container !== null);
+		return use;
+	};
+
+	// Record an {{efn}}/{{refn}} invocation: with text it defines the note, without it reuses one.
+	const addNoteTemplate = (tok: TemplateToken, container: TemplateMatch | null, parent: RefUseInternal | null): RefUseInternal | null => {
+		const note = parseNoteParams(tok.paramText, tok.nameEnd);
+		if (container && note.content === null) return null;
+		const group = note.group ?? defaultNoteGroup(tok.name);
+		const ref = getRef(note.name, group);
+		const use: RefUseInternal = {
+			name: note.name, group, start: tok.start, end: tok.end, kind: 'note', template: tok.name
+		};
+		if (note.content !== null) {
+			use.content = note.content;
+			use.contentStart = note.contentStart;
+			use.contentEnd = note.contentStart + note.content.length;
+		}
+		if (parent) use.parent = parent;
+		record(ref, use, container !== null);
+		return use;
+	};
 
-	// Parse {{r|...}} templates
-	const rTemplate = /\{\{\s*r\s*(\|[\s\S]*?)\}\}/gi;
-	for (const match of wikitext.matchAll(rTemplate)) {
-		const idx = match.index ?? 0;
-		if (inTemplateRange(idx, templates)) continue;
-		const params = match[1] ?? '';
-		const entries = parseRTemplateEntries(params);
+	// Record an {{r}} invocation as one use per cited name.
+	const addRTemplate = (tok: TemplateToken, parent: RefUseInternal | null): void => {
+		const entries = parseRTemplateEntries(tok.paramText.replace(/^\s+/, ''));
 		const tplId = rTemplates.length;
-		rTemplates.push({ id: tplId, start: idx, end: idx + match[0].length, entries });
+		rTemplates.push({ id: tplId, start: tok.start, end: tok.end, entries, parent });
 		entries
 			.filter((e) => e.isName)
 			.forEach((entry) => {
 				const ref = getRef(entry.value, null);
 				const use: RefUseInternal = {
-					name: entry.value, group: null, start: idx, end: idx + match[0].length, kind: 'templateR', rTemplateId: tplId
+					name: entry.value, group: null, start: tok.start, end: tok.end, kind: 'templateR', rTemplateId: tplId
 				};
+				if (parent) use.parent = parent;
 				ref.uses.push(use);
 			});
-	}
+	};
 
-	// Parse list-defined refs inside reflist templates
-	templates.forEach((tpl) => {
-		const refsParam = tpl.params.find((p) => p.name && p.name.toLowerCase() === 'refs');
-		if (refsParam && refsParam.value) {
-			const inner = refsParam.value;
-			let innerMatch: RegExpExecArray | null;
-			const innerFull = /<ref\b([^>/]*?)>([\s\S]*?)<\/ref>/gi;
-			const paramOffset = tpl.content.indexOf(inner);
-			const basePos = paramOffset >= 0 ? tpl.start + paramOffset : tpl.start;
-			while ((innerMatch = innerFull.exec(inner)) !== null) {
-				const attrs = innerMatch[1] ?? '';
-				const content = innerMatch[2] ?? '';
-				const name = extractAttr(attrs, 'name');
-				const group = extractAttr(attrs, 'group');
-				const ref = getRef(name, group);
-				const posStart = basePos + (innerMatch.index ?? 0);
-				const use: RefUseInternal = {
-					name, group, start: posStart, end: posStart + innerMatch[0].length, kind: 'full', content
-				};
-				ref.ldrDefinitions.push(use);
-			}
+	// Record an {{sfn}}/{{harvnb}} invocation under the anchor its citation generates.
+	const addCiteRef = (tok: TemplateToken): void => {
+		const anchor = citeRefAnchor(tok.paramText);
+		if (!anchor) return;
+		const rec = citeRefs.get(anchor) ?? { anchor, uses: [] };
+		rec.uses.push({ start: tok.start, end: tok.end, role: tok.role === 'sfn' ? 'sfn' : 'harv', raw: wikitext.slice(tok.start, tok.end) });
+		citeRefs.set(anchor, rec);
+	};
+
+	// Walk a token and everything nested in it. `container` is set for the top level of a
+	// reflist body; `parent` is the definition whose body holds the token.
+	const visit = (tok: WikitextToken, container: TemplateMatch | null, parent: RefUseInternal | null): void => {
+		if (tok.type === 'ref') {
+			const use = addRefTag(tok, container, parent);
+			tok.children.forEach((child) => visit(child, null, use ?? parent));
+			return;
+		}
+		if (tok.type === 'references') {
+			const list = referencesTagMatch(wikitext, tok);
+			templates.push(list);
+			tok.children.forEach((child) => visit(child, list, null));
+			return;
+		}
+		if (tok.type !== 'template') return;
+		if (tok.role === 'note') {
+			const use = addNoteTemplate(tok, container, parent);
+			tok.children.forEach((child) => visit(child, null, use ?? parent));
+			return;
+		}
+		if (tok.role === 'sfn' || tok.role === 'harv') {
+			addCiteRef(tok);
+			return;
 		}
+		if (tok.role === 'r') {
+			addRTemplate(tok, parent);
+			return;
+		}
+		const params = parseTemplateParams(tok.paramText);
+		// {{#tag:references}} strips one pair of quotes, so group="notes" names the group notes
+		const groupParam = params.find((p) => p.name && p.name.toLowerCase() === 'group')?.value.trim().replace(/^(["'])(.*)\1$/, '$2');
+		const list: TemplateMatch = {
+			start: tok.start,
+			end: tok.end,
+			name: tok.name,
+			content: wikitext.slice(tok.start, tok.end),
+			params,
+			form: 'template',
+			group: groupParam || defaultNoteGroup(tok.name),
+			attrs: '',
+			selfClosing: false
+		};
+		templates.push(list);
+		tok.children.forEach((child) => visit(child, list, null));
+	};
+
+	tokenizeWikitext(wikitext, {
+		reflistNames: [...reflistNames, ...getTemplateNames('notelist')],
+		rNames: getTemplateNames('r'),
+		noteNames: [...getTemplateNames('efn'), ...getTemplateNames('refn')],
+		sfnNames: getTemplateNames('sfn'),
+		harvNames: getTemplateNames('harv')
+	}).forEach((tok) => visit(tok, null, null));
+
+	refs.forEach((ref) => {
+		if (ref.extendsName !== undefined) ref.parentRef = refs.get(refKey(ref.extendsName, ref.group));
+		ref.definitions.forEach((def) => {
+			if (def.parent || def.extendsName !== undefined) return;
+			const trailing = /^(?:[ \t]*<!--[\s\S]*?-->)+/.exec(wikitext.slice(def.end));
+			if (trailing) def.trivia = { leading: [], trailing: trailing[0].trim(), end: def.end + trailing[0].length };
+		});
 	});
+	templates.forEach((tpl) => readListTrivia(tpl, refs));
+
+	return { refs, templates, rTemplates, citeRefs };
+}
+
+/**
+ * Parse the parameters of an {{efn}}/{{refn}} invocation.
+ * An `=` only names a parameter when it precedes any markup, so text such as
+ * `See <ref name="a" />` stays positional, as it does for the MediaWiki preprocessor.
+ * @param paramText - Raw parameter text after the template name.
+ * @param offset - Source offset of `paramText`.
+ * @returns Note name, explicit group, and body text (null when the invocation is a reuse) with its source offset.
+ */
+function parseNoteParams(paramText: string, offset: number): {
+	name: string | null;
+	group: string | null;
+	content: string | null;
+	contentStart: number;
+} {
+	const res: { name: string | null; group: string | null; content: string | null; contentStart: number } = {
+		name: null, group: null, content: null, contentStart: offset
+	};
+	const lead = /^\s*\|?/.exec(paramText)?.[0].length ?? 0;
+	let positional = 0;
+	splitParamSpans(paramText.slice(lead)).forEach((span) => {
+		const named = namedParam(span.text);
+		const key = named ? named.key.toLowerCase() : String(++positional);
+		if (key === 'name') res.name = named?.value || span.text.trim() || null;
+		else if (key === 'group') res.group = named?.value || span.text.trim() || null;
+		else if (key === '1') {
+			const valueStart = named ? span.text.indexOf('=') + 1 : 0;
+			const rawValue = span.text.slice(valueStart);
+			res.content = rawValue.trim();
+			res.contentStart = offset + lead + span.start + valueStart + (rawValue.length - rawValue.replace(/^\s+/, '').length);
+		}
+	});
+	if (res.content !== null && !res.content) res.content = null;
+	return res;
+}
+
+/**
+ * Split a template parameter into key and value when it is a named parameter.
+ * @param part - Single parameter text.
+ * @returns Key and value, or null for a positional parameter.
+ */
+function namedParam(part: string): { key: string; value: string } | null {
+	const eqIdx = part.indexOf('=');
+	if (eqIdx === -1) return null;
+	const key = part.slice(0, eqIdx);
+	if (/[<{[\]}]/.test(key)) return null;
+	return { key: key.trim(), value: part.slice(eqIdx + 1).trim() };
+}
 
-	return { refs, templates, rTemplates };
+/**
+ * Compute the CITEREF anchor an {{sfn}}/{{harvnb}} invocation links to.
+ * Positional parameters (surnames, then year) are concatenated as Module:Footnotes does.
+ * @param paramText - Raw parameter text after the template name.
+ * @returns Anchor ID such as "CITEREFSmith2001", or null without positional parameters.
+ */
+function citeRefAnchor(paramText: string): string | null {
+	const parts = splitParams(paramText.replace(/^\s*\|/, ''))
+		.filter((part) => !namedParam(part))
+		.map((part) => part.trim())
+		.filter(Boolean);
+	if (!parts.length) return null;
+	return `CITEREF${parts.join('').replace(/\s+/g, '_')}`;
 }
 
 /**
- * Check if an index is within any of the given template ranges.
- * @param idx - Index to check.
- * @param templates - Array of template matches with start and end positions.
- * @returns True if index is within any template range, false otherwise.
+ * Build a container match for a <references> tag.
+ * @param wikitext - Source wikitext.
+ * @param tok - References tag token.
+ * @returns Container match preserving the tag's raw attributes.
  */
-function inTemplateRange(idx: number, templates: TemplateMatch[]): boolean {
-	return templates.some((tpl) => idx >= tpl.start && idx <= tpl.end);
+function referencesTagMatch(wikitext: string, tok: ReferencesTagToken): TemplateMatch {
+	return {
+		start: tok.start,
+		end: tok.end,
+		name: 'references',
+		content: wikitext.slice(tok.start, tok.end),
+		params: [],
+		form: 'tag',
+		group: extractAttr(tok.attrs, 'group') || null,
+		attrs: tok.attrs,
+		selfClosing: tok.selfClosing
+	};
 }
 
 /**
  * Plan replacements for refs and reflist templates.
- * @param ctx - Parsing context with refs and templates.
+ * Definitions that hold nested uses are rendered after their nested uses, so renames
+ * and dedupes inside a note or list-defined ref are carried into the rewritten body.
+ * Markup that keeps its form is patched where it is written, leaving spacing, quoting
+ * and casing alone, unless `normalizeAll` asks for the house style.
+ * @param ctx - Parsing context with refs and templates, and the source they were read from.
  * @param opts - Options for replacement behavior.
- * @returns Replacement plan with text changes and moved refs.
+ * @returns Replacement plan with text changes, moved refs, and warnings.
  */
 function buildReplacementPlan(ctx: {
+	source: string;
 	refs: Map<RefKey, RefRecord>;
 	templates: TemplateMatch[];
-	rTemplates: Array<{ id: number; start: number; end: number; entries: RTemplateEntry[] }>
+	rTemplates: RTemplateMatch[]
 }, opts: {
 	useTemplateR: boolean;
-	sortRefs: boolean;
+	ldrOrder: LdrOrder | null;
 	normalizeAll: boolean;
 	locationModeKeep: boolean;
+	/** Whether {{r}} calls with a page pin stay {{r}} calls, as the {{r}} pin style asks. */
+	keepPinnedR?: boolean;
 	renameLookup?: (name: string) => string | null | undefined;
-}): { replacements: Replacement[]; movedInline: string[]; movedLdr: string[] } {
+}): { replacements: Replacement[]; movedInline: string[]; movedLdr: string[]; warnings: string[] } {
 	const replacements: Replacement[] = [];
 	const movedInline: string[] = [];
 	const movedLdr: string[] = [];
+	const warnings: string[] = [];
 
 	const canonicalMap = new Map<RefRecord, RefRecord>();
+	const ownerOf = new Map<RefUseInternal, RefRecord>();
 	refIterator(ctx.refs).forEach((ref) => {
 		const canonical = ref.canonical ?? ref;
 		canonicalMap.set(ref, canonical);
+		[...ref.uses, ...ref.definitions, ...ref.ldrDefinitions].forEach((use) => ownerOf.set(use, canonical));
 	});
 
-	// Replace chained {{r}} templates preserving names
-	ctx.rTemplates.forEach((tpl) => {
-		const rendered = renderRTemplate(tpl, ctx.refs, opts.useTemplateR, opts.renameLookup);
-		if (rendered !== null) {
-			replacements.push({ start: tpl.start, end: tpl.end, text: rendered });
-		}
+	const hosts = pickInlineHosts(ctx.refs, ctx.rTemplates, ownerOf, warnings);
+	// Bodies of split copies held by a {{r}} call, by call ID and name
+	const rHosted = new Map<number, Map<string, string>>();
+	hosts.forEach((use, ref) => {
+		if (use.kind !== 'templateR' || use.rTemplateId === undefined || !ref.name) return;
+		const bodies = rHosted.get(use.rTemplateId) ?? new Map<string, string>();
+		bodies.set(ref.name, firstContent(ref) ?? '');
+		rHosted.set(use.rTemplateId, bodies);
 	});
+	const keepStyle = !opts.normalizeAll;
+	const asWritten = (span: { start: number; end: number }): string => ctx.source.slice(span.start, span.end);
+	// Whether a definition body is still as written, before nested edits were carried into it
+	const bodyAsWritten = (def: RefUseInternal): boolean =>
+		def.contentStart !== undefined && def.content === ctx.source.slice(def.contentStart, def.contentEnd);
+	const renderedGroups = new Set<string | null>(ctx.templates.map((tpl) => tpl.group));
+	const nestedParents = collectNestedParents(ctx.refs, ctx.rTemplates);
+	const nestedChanges = new Map<RefUseInternal, ChangeInfo[]>();
+
+	// Describe rewriting a use or definition for the change log; `moved` is set when it moves a definition
+	const describe = (ref: RefRecord, use: RefUseInternal, targetName: string | null, moved: ChangeOperation | null): ChangeInfo => {
+		const key = use.name ? refKey(use.name, ref.group) : ref.id;
+		const label = `"${use.name ?? ref.id}"`;
+		const target = `"${targetName ?? ''}"`;
+		// Every edit of a split is keyed by the new ref, so the split is accepted or rejected as a whole
+		if (ref.splitFrom) {
+			const reason = moved ? `Split ${target} off ${label} with its own definition` : `Pointed a use of ${label} at ${target}, split off it`;
+			return { op: 'split', refKey: ref.key, reason };
+		}
+		if (ref.definitionTakenBy && moved === 'move-inline') {
+			return { op: 'split', refKey: ref.definitionTakenBy.key, reason: `Moved the definition of ${label} to its next use after splitting off "${ref.definitionTakenBy.name}"` };
+		}
+		// An edit carried by another rewrite of the definition is named in its reason
+		const alsoEdited = use.edited ? ' and edited its body' : '';
+		const renamed = use.name ? opts.renameLookup?.(use.name) !== undefined : targetName !== null;
+		if (renamed) {
+			return { op: 'rename', refKey: key, reason: `${use.name ? `Renamed ${label} to ${target}` : `Named unnamed ref ${ref.id} ${target}`}${alsoEdited}` };
+		}
+		if ((canonicalMap.get(ref) ?? ref) !== ref) {
+			return { op: 'dedupe', refKey: key, reason: `Merged duplicate ${label} into ${target}` };
+		}
+		if (moved === 'move-inline') return { op: moved, refKey: key, reason: `Moved definition of ${label} inline to its first use${alsoEdited}` };
+		if (moved === 'move-ldr') return { op: moved, refKey: key, reason: `Moved definition of ${label} to the reference list${alsoEdited}` };
+		if (use.edited) return { op: 'edit', refKey: key, reason: `Edited the body of ${label}` };
+		const inner = nestedChanges.get(use);
+		if (inner?.length) {
+			// Keyed like the nested edit, so accepting or rejecting it covers the enclosing rewrite too
+			return { op: inner[0].op, refKey: inner[0].refKey, reason: `${inner.map((c) => c.reason).join('; ')} inside the definition of ${label}` };
+		}
+		return { op: 'normalize', refKey: key, reason: `Normalized markup of ${label}` };
+	};
 
-	// Build replacements for individual refs
-	refIterator(ctx.refs).forEach((ref) => {
+	// Sub-reference definitions stay as written; only the names they carry follow renames and merges
+	const planSubRef = (ref: RefRecord, def: RefUseInternal): Replacement | null => {
+		const written = def.extendsName!;
+		const parent = ref.parentRef ? canonicalMap.get(ref.parentRef) ?? ref.parentRef : null;
+		const parentName = parent?.name ?? written;
+		const ownName = ref.name;
+		if (parentName === written && ownName === def.name) return null;
+		const content = def.content ?? '';
+		let text: string;
+		if (def.details && !ownName) {
+			text = keepStyle
+				? patchTagAttrs(asWritten(def), { name: parentName })
+				: `<ref name="${escapeAttr(parentName)}"${def.group ? ` group="${escapeAttr(def.group)}"` : ''} details="${escapeAttr(content)}" />`;
+		} else {
+			const patched = keepStyle && def.kind === 'full' ? patchElement(asWritten(def), { name: ownName, extends: parentName }, content) : null;
+			text = patched ?? renderRefTag(ownName, def.group, content, false, parentName);
+		}
+		const parentKey = refKey(written, ref.group);
+		let change: ChangeInfo;
+		if (ownName !== def.name) change = describe(ref, def, ownName, null);
+		else if (opts.renameLookup?.(written) !== undefined) change = { op: 'rename', refKey: parentKey, reason: `Pointed a sub-reference of "${written}" at its new name "${parentName}"` };
+		else change = { op: 'dedupe', refKey: parentKey, reason: `Pointed a sub-reference of duplicate "${written}" at the kept copy "${parentName}"` };
+		return { start: def.start, end: def.end, text, change };
+	};
+
+	// Render one use (or definition) of a ref; `report` records moves for the change summary.
+	const planUse = (ref: RefRecord, use: RefUseInternal, report: boolean): Replacement | null => {
+		if (use.kind === 'templateR' && typeof use.rTemplateId === 'number') {
+			// Handled via rTemplates replacement
+			return null;
+		}
+		if (use.extendsName !== undefined) return planSubRef(ref, use);
 		const canonical = canonicalMap.get(ref) ?? ref;
 		const targetName = canonical.name ?? ref.name;
 		const targetLocation = canonical.targetLocation;
-		const content = firstContent(canonical);
-
-		// Uses (including ones tied to definitions)
-		ref.uses.forEach((use, useIdx) => {
-			if (use.kind === 'templateR' && typeof use.rTemplateId === 'number') {
-				// Already handled via rTemplates replacement
-				return;
-			}
-			const isDefinition = ref.definitions.includes(use);
-			const canonicalContent = content || '';
-			if (
-				opts.locationModeKeep &&
-				!opts.useTemplateR &&
-				!opts.normalizeAll &&
-				targetName === use.name &&
-				ref.group === use.group &&
-				((use.kind === 'full' && canonicalContent === use.content) || use.kind !== 'full')
-			) {
-				return;
-			}
-			if (targetLocation === 'inline' && canonical === ref && useIdx === 0 && canonicalContent) {
-				// Ensure first use holds definition
-				const rendered = renderRefTag(targetName, ref.group, canonicalContent, opts.normalizeAll);
-				replacements.push({ start: use.start, end: use.end, text: rendered });
-				if (targetName) movedInline.push(targetName);
-			} else {
-				const rendered = renderRefSelf(targetName, ref.group, opts.useTemplateR);
-				replacements.push({ start: use.start, end: use.end, text: rendered });
+		const canonicalContent = firstContent(canonical) || '';
+		const isDefinition = ref.definitions.includes(use);
+		const isNote = use.kind === 'note' && Boolean(use.template);
+		if (
+			opts.locationModeKeep &&
+			!use.edited &&
+			!(canonical.definitionTakenBy && hosts.get(canonical) === use) &&
+			(isNote || (!opts.useTemplateR && !opts.normalizeAll)) &&
+			targetName === use.name &&
+			ref.group === use.group &&
+			(use.content === undefined || canonicalContent === use.content)
+		) {
+			return null;
+		}
+		if (report && isDefinition && targetLocation === 'ldr' && targetName) movedLdr.push(targetName);
+		if (targetLocation === 'inline' && canonical === ref && hosts.get(canonical) === use && canonicalContent) {
+			// The host use holds the definition; footnote templates keep their own syntax
+			if (report && targetName && !ref.splitFrom) movedInline.push(targetName);
+			// A body that nests refs must stay in a footnote template to remain valid
+			const template = isNote ? use.template! : nestingNoteTemplate(canonical, nestedParents);
+			const source = firstDefinition(canonical);
+			let patched: string | null = null;
+			if (keepStyle && isNote && isDefinition && bodyAsWritten(use) && use.content === canonicalContent) {
+				patched = setTemplateParam(asWritten(use), 'name', targetName);
+			} else if (keepStyle && !template && source?.kind === 'full') {
+				// The body keeps the tag it was written in, wherever it moves
+				patched = patchElement(asWritten(source), { name: targetName, group: ref.group }, canonicalContent);
 			}
-			if (isDefinition && targetLocation === 'ldr' && targetName) {
-				movedLdr.push(targetName);
+			const rendered = patched ?? (template
+				? renderNoteTemplate(template, targetName, ref.group, canonicalContent)
+				: renderRefTag(targetName, ref.group, canonicalContent, opts.normalizeAll));
+			const change = describe(ref, use, targetName, isDefinition ? null : 'move-inline');
+			// Comments written next to the definition elsewhere come along
+			const trivia = carriedTrivia(ctx.refs, canonical, use);
+			const text = `${trivia?.before ?? ''}${rendered}${trivia?.trailing ?? ''}`;
+			return text === asWritten(use) ? null : { start: use.start, end: use.end, text, change };
+		}
+		let rendered = isNote
+			? renderNoteTemplate(use.template!, targetName, ref.group, null)
+			: renderRefSelf(targetName, ref.group, opts.useTemplateR);
+		if (keepStyle && targetName && isNote && use.content === undefined) {
+			rendered = setTemplateParam(asWritten(use), 'name', targetName);
+		} else if (keepStyle && targetName && !isNote && use.kind === 'selfClosing' && !opts.useTemplateR) {
+			rendered = patchTagAttrs(asWritten(use), { name: targetName, group: ref.group });
+		}
+		// A definition rendered as a reuse has moved to the reference list or to its host use,
+		// taking the comments after it along
+		const change = describe(ref, use, targetName, isDefinition ? (targetLocation === 'ldr' ? 'move-ldr' : 'move-inline') : null);
+		const end = isDefinition && canonical === ref ? use.trivia?.end ?? use.end : use.end;
+		if (end === use.end && rendered === asWritten(use)) return null;
+		return { start: use.start, end, text: rendered, change };
+	};
+
+	// Render a list-defined definition in place (keep mode only).
+	const planLdrDefinition = (ref: RefRecord, def: RefUseInternal, report: boolean): Replacement | null => {
+		if (def.extendsName !== undefined) return planSubRef(ref, def);
+		const canonical = canonicalMap.get(ref) ?? ref;
+		const targetName = canonical.name ?? ref.name;
+		const content = def.content ?? '';
+		// Keep the attribute as written; an omitted group is inherited from the container
+		const targetGroup = def.group;
+		const isNote = def.kind === 'note' && Boolean(def.template);
+		// Copies split off a list-defined ref are listed right after it
+		const copies = ref.ldrDefinitions[0] === def
+			? refIterator(ctx.refs).filter((other) => other.splitFrom === ref && other.targetLocation === 'ldr')
+			: [];
+		const added = copies.map((copy) => {
+			const body = firstContent(copy) ?? '';
+			return `\n${isNote ? renderNoteTemplate(def.template!, copy.name, targetGroup, body) : renderRefTag(copy.name, targetGroup, body, opts.normalizeAll)}`;
+		}).join('');
+		const addChange = copies.length ? describe(copies[0], def, copies[0].name, 'move-ldr') : undefined;
+		if ((isNote || (!opts.useTemplateR && !opts.normalizeAll)) && targetName === def.name && targetGroup === def.group && !def.edited) {
+			return added ? { start: def.end, end: def.end, text: added, change: addChange } : null;
+		}
+		if (report && targetName) movedLdr.push(targetName);
+		let rendered: string;
+		if (isNote && keepStyle && bodyAsWritten(def)) rendered = setTemplateParam(asWritten(def), 'name', targetName);
+		else if (isNote) rendered = renderNoteTemplate(def.template!, targetName, targetGroup, content || null);
+		else if (content) rendered = (keepStyle ? patchElement(asWritten(def), { name: targetName }, content) : null) ?? renderRefTag(targetName, targetGroup, content, opts.normalizeAll);
+		else rendered = renderRefSelf(targetName, targetGroup, opts.useTemplateR);
+		if (!added && rendered === asWritten(def)) return null;
+		return { start: def.start, end: def.end, text: rendered + added, change: describe(ref, def, targetName, null) };
+	};
+
+	const planRTemplate = (tpl: RTemplateMatch): Replacement | null => {
+		const hosted = rHosted.get(tpl.id);
+		// Inside a <ref> body a {{r}} must not turn into a nested <ref> tag; one holding a definition must
+		const pinned = opts.keepPinnedR && tpl.entries.some((entry) => entry.kind === 'page' || entry.kind === 'pages' || entry.kind === 'at');
+		const preferTemplateR = !hosted && (opts.useTemplateR || pinned || (tpl.parent !== null && tpl.parent.kind !== 'note'));
+		const nameEntries = tpl.entries.filter((entry) => entry.isName);
+		let nth = 0;
+		// Names are read from the entries, which splits point at the new copies
+		const rendered = preferTemplateR && keepStyle
+			? patchTemplateParams(asWritten(tpl), (param) => (R_NAME_KEY_RE.test(param.key) && param.value
+				? resolveRName(nameEntries[nth++]?.value ?? param.value, ctx.refs, opts.renameLookup) ?? undefined
+				: undefined))
+			: renderRTemplate(tpl, ctx.refs, preferTemplateR, opts.renameLookup, hosted);
+		if (rendered === null || rendered === asWritten(tpl)) return null;
+		const names = tpl.entries.filter((e) => e.isName).map((e) => e.value);
+		const renamed = names.find((name) => opts.renameLookup?.(name) !== undefined);
+		const merged = names.find((name) => {
+			const ref = ctx.refs.get(refKey(name, null));
+			return ref !== undefined && (ref.canonical ?? ref) !== ref;
+		});
+		const copy = names.map((name) => ctx.refs.get(refKey(name, null))).find((ref) => ref?.splitFrom);
+		const focus = renamed ?? merged ?? (names.length === 1 ? names[0] : null);
+		const key = focus ? refKey(focus, null) : null;
+		let change: ChangeInfo;
+		if (copy) {
+			const reason = hosted?.has(copy.name!)
+				? `Split "${copy.name}" off "${copy.splitFrom!.name}" with its own definition`
+				: `Pointed a {{r}} call at "${copy.name}", split off "${copy.splitFrom!.name}"`;
+			change = { op: 'split', refKey: copy.key, reason };
+		}
+		else if (renamed) change = { op: 'rename', refKey: key, reason: `Renamed "${renamed}" in a {{r}} call` };
+		else if (merged) change = { op: 'dedupe', refKey: key, reason: `Pointed a {{r}} call at the kept copy of duplicate "${merged}"` };
+		else change = { op: 'normalize', refKey: key, reason: preferTemplateR ? 'Normalized a {{r}} call' : 'Converted a {{r}} call to <ref> tags' };
+		return { start: tpl.start, end: tpl.end, text: rendered, change };
+	};
+
+	// Rewrite definition bodies innermost-first with the replacements of the uses nested in them
+	const nested: Array<{ parent: RefUseInternal; depth: number; plan: () => Replacement | null }> = [];
+	refIterator(ctx.refs).forEach((ref) => {
+		ref.uses.forEach((use) => {
+			if (use.parent) nested.push({ parent: use.parent, depth: nestingDepth(use), plan: () => planUse(ref, use, false) });
+		});
+		if (opts.locationModeKeep) {
+			ref.ldrDefinitions.forEach((def) => {
+				if (def.parent) nested.push({ parent: def.parent, depth: nestingDepth(def), plan: () => planLdrDefinition(ref, def, false) });
+			});
+		}
+	});
+	ctx.rTemplates.forEach((tpl) => {
+		if (tpl.parent) nested.push({ parent: tpl.parent, depth: nestingDepth(tpl.parent) + 1, plan: () => planRTemplate(tpl) });
+	});
+	const maxDepth = nested.reduce((max, item) => Math.max(max, item.depth), 0);
+	for (let depth = maxDepth; depth > 0; depth--) {
+		const byParent = new Map<RefUseInternal, Replacement[]>();
+		nested.filter((item) => item.depth === depth).forEach((item) => {
+			const repl = item.plan();
+			if (!repl) return;
+			const list = byParent.get(item.parent) ?? [];
+			list.push(repl);
+			byParent.set(item.parent, list);
+			// Nested edits are carried by the rewrite of the enclosing definition, so log them there
+			const { content, contentStart } = item.parent;
+			const original = content !== undefined && contentStart !== undefined
+				? content.slice(repl.start - contentStart, repl.end - contentStart)
+				: null;
+			if (repl.change && original !== repl.text) {
+				nestedChanges.set(item.parent, [...(nestedChanges.get(item.parent) ?? []), repl.change]);
 			}
 		});
+		byParent.forEach((repls, parent) => rewriteDefinitionBody(parent, repls));
+	}
+
+	// Replace chained {{r}} templates preserving names
+	ctx.rTemplates.forEach((tpl) => {
+		const repl = planRTemplate(tpl);
+		if (repl) replacements.push(repl);
+	});
+
+	// Build replacements for individual refs
+	refIterator(ctx.refs).forEach((ref) => {
+		ref.uses.forEach((use) => {
+			const repl = planUse(ref, use, true);
+			if (repl) replacements.push(repl);
+		});
 
-		if (opts.locationModeKeep && ref.ldrDefinitions.length > 0) {
+		if (opts.locationModeKeep) {
 			ref.ldrDefinitions.forEach((def) => {
-				const content = def.content ?? '';
-				const targetGroup = def.group ?? ref.group;
-				if (!opts.useTemplateR && !opts.normalizeAll && targetName === def.name && targetGroup === def.group) {
-					return;
-				}
-				const rendered = content
-					? renderRefTag(targetName, targetGroup, content, opts.normalizeAll)
-					: renderRefSelf(targetName, targetGroup, opts.useTemplateR);
-				replacements.push({ start: def.start, end: def.end, text: rendered });
-				if (targetName) movedLdr.push(targetName);
+				const repl = planLdrDefinition(ref, def, true);
+				if (repl) replacements.push(repl);
 			});
 		}
 	});
 
 	// Rebuild reflist templates
 	if (!opts.locationModeKeep) {
-		const ldrEntries = buildLdrEntries(ctx.refs);
+		ctx.templates.forEach((tpl) => leaveListComments(ctx.refs, tpl));
+		const ldrEntries = buildLdrEntries(ctx.refs, nestedParents, keepStyle ? ctx.source : null);
+		const { routed, unrouted } = routeLdrEntries(ldrEntries, ctx.templates);
 		ctx.templates.forEach((tpl) => {
-			const updated = updateReflistTemplate(tpl, ldrEntries, opts.sortRefs);
+			const entries = routed.get(tpl) ?? [];
+			const layout = readListLayout(ctx.refs, tpl);
+			const updated = updateReflistTemplate(tpl, entries, opts.ldrOrder, layout);
 			if (updated !== tpl.content) {
-				replacements.push({ start: tpl.start, end: tpl.end, text: updated });
+				replacements.push({ start: tpl.start, end: tpl.end, text: updated, change: describeContainer(ctx.refs, tpl, entries, opts.ldrOrder) });
 			}
 		});
 
-		// If no reflist but we have LDR entries, append one
-		if (ldrEntries.length > 0 && ctx.templates.length === 0) {
-			const appendText = buildStandaloneReflist(ldrEntries, opts.sortRefs);
-			replacements.push({ start: Number.MAX_SAFE_INTEGER, end: Number.MAX_SAFE_INTEGER, text: appendText });
+		// If no container renders a group's LDR entries, append a reflist for that group
+		let appendText = '';
+		groupEntries(unrouted).forEach((entries, group) => {
+			appendText += buildStandaloneReflist(entries, opts.ldrOrder, group);
+			renderedGroups.add(group);
+		});
+		if (appendText) {
+			replacements.push({
+				start: Number.MAX_SAFE_INTEGER,
+				end: Number.MAX_SAFE_INTEGER,
+				text: appendText,
+				change: {
+					op: 'move-ldr',
+					refKey: null,
+					reason: `Appended a reference list holding ${unrouted.length} list-defined ref${unrouted.length === 1 ? '' : 's'}`,
+					derived: true
+				}
+			});
 		}
 	}
 
+	unrenderedGroups(ctx.refs, renderedGroups).forEach((group) => {
+		warnings.push(`Group "${group}" has uses but no {{reflist|group=${group}}} or <references group="${group}" /> renders it.`);
+	});
+
 	// De-duplicate overlapping replacements by keeping last
 	const collapsed = collapseReplacements(replacements);
 
-	return { replacements: collapsed, movedInline, movedLdr };
+	return { replacements: collapsed, movedInline, movedLdr, warnings };
+}
+
+/**
+ * Describe rewriting a reference list for the change log.
+ * @param refs - Map of reference records.
+ * @param tpl - Reflist template or <references> tag being rewritten.
+ * @param entries - List-defined refs it will hold.
+ * @param order - Order the entries are written in, or null for the order they were collected in.
+ * @returns Change log fields for the rewrite.
+ */
+function describeContainer(refs: Map<RefKey, RefRecord>, tpl: TemplateMatch, entries: LdrEntry[], order: LdrOrder | null): ChangeInfo {
+	// Compare by current name, so a renamed entry does not count as moved
+	const before = new Set<string>();
+	let renamed = false;
+	const edited: Array<{ key: string; label: string }> = [];
+	refIterator(refs).forEach((ref) => ref.ldrDefinitions.forEach((def) => {
+		const name = (ref.canonical ?? ref).name;
+		if (!name || def.start < tpl.start || def.end > tpl.end) return;
+		before.add(name);
+		if (def.name !== name) renamed = true;
+		if (def.edited) edited.push({ key: def.name ? refKey(def.name, ref.group) : ref.id, label: `"${def.name ?? ref.id}"` });
+	}));
+	const added = entries.filter((entry) => !before.has(entry.name)).length;
+	const removed = Array.from(before).filter((name) => !entries.some((entry) => entry.name === name)).length;
+	const list = tpl.form === 'tag' ? '<references>' : `{{${tpl.name.trim()}}}`;
+	if (added) return { op: 'move-ldr', refKey: null, reason: `Moved ${added} definition${added === 1 ? '' : 's'} into ${list}`, derived: true };
+	if (removed) return { op: 'move-inline', refKey: null, reason: `Moved ${removed} definition${removed === 1 ? '' : 's'} out of ${list}`, derived: true };
+	if (edited.length) {
+		// Keyed by the first edited entry; the others are applied or left out on their own before planning
+		return { op: 'edit', refKey: edited[0].key, reason: `Edited the body of ${edited.map((entry) => entry.label).join(', ')} in ${list}` };
+	}
+	if (renamed) return { op: 'rename', refKey: null, reason: `Renamed list-defined refs in ${list}`, derived: true };
+	if (order && order !== 'preserve') {
+		return { op: 'reorder', refKey: null, reason: `Sorted the list-defined refs in ${list} by ${LDR_ORDER_LABELS[order]}` };
+	}
+	return { op: 'normalize', refKey: null, reason: `Normalized the list-defined refs in ${list}` };
+}
+
+/**
+ * Pick, for every inline-targeted ref, the use that will hold its definition.
+ * The first use is preferred, but a use nested inside the ref's own definition would
+ * self-nest, and neither a {{r}} call nor a use inside a <ref> body can hold a definition.
+ * Refs left without a host stay where they are defined. A split copy has no definition
+ * to stay in, so failing other uses it is held by a top-level {{r}} call citing it whose
+ * params all carry over to <ref> tags, and the call is written as tags.
+ * @param refs - Map of reference records.
+ * @param rTemplates - Parsed {{r}} invocations, by ID.
+ * @param ownerOf - Canonical record owning each use or definition.
+ * @param warnings - Collector for refused moves.
+ * @returns Host use per canonical record (absent when no move is needed).
+ */
+function pickInlineHosts(
+	refs: Map<RefKey, RefRecord>,
+	rTemplates: RTemplateMatch[],
+	ownerOf: Map<RefUseInternal, RefRecord>,
+	warnings: string[]
+): Map<RefRecord, RefUseInternal> {
+	const hosts = new Map<RefRecord, RefUseInternal>();
+	refIterator(refs).forEach((ref) => {
+		if ((ref.canonical ?? ref) !== ref || ref.targetLocation !== 'inline' || !ref.uses.length || ref.extendsName !== undefined) return;
+		const canHost = (use: RefUseInternal): boolean => {
+			if (ref.definitions.includes(use)) return true;
+			if (use.kind === 'templateR') return false;
+			if (use.parent && use.parent.kind !== 'note') return false;
+			for (let p = use.parent; p; p = p.parent) {
+				if (ownerOf.get(p) === ref) return false;
+			}
+			return true;
+		};
+		const host = ref.uses.find(canHost) ?? (ref.splitFrom ? ref.uses.find((use) => canExpandRCall(use, rTemplates)) : undefined);
+		if (host) {
+			hosts.set(ref, host);
+			return;
+		}
+		// Only a list-defined ref is moving; an undefined one or one defined inline stays as written
+		if (!ref.ldrDefinitions.length) return;
+		warnings.push(`Definition of ${ref.name ?? ref.id} was not moved inline: none of its uses can hold it without nesting it inside itself or inside a <ref> body.`);
+		ref.targetLocation = 'ldr';
+	});
+	return hosts;
+}
+
+/**
+ * Check whether a {{r}} use can be written as <ref> tags, so that it can hold a definition:
+ * the call is not inside a <ref> body and all its params carry over to tags and {{rp}}.
+ * @param use - Use.
+ * @param rTemplates - Parsed {{r}} invocations, by ID.
+ * @returns True when the call can be expanded.
+ */
+function canExpandRCall(use: RefUseInternal, rTemplates: RTemplateMatch[]): boolean {
+	if (use.kind !== 'templateR' || use.parent) return false;
+	return rTemplates[use.rTemplateId!]?.entries.every((entry) => entry.kind !== 'other') ?? false;
+}
+
+/**
+ * Count the definitions a use is nested in.
+ * @param use - Use or definition.
+ * @returns Nesting depth (0 for top-level markup).
+ */
+function nestingDepth(use: RefUseInternal): number {
+	let depth = 0;
+	for (let p = use.parent; p; p = p.parent) depth++;
+	return depth;
+}
+
+/**
+ * Apply the replacements planned for nested uses to the body of their enclosing definition.
+ * @param def - Definition holding the nested uses.
+ * @param repls - Replacements with absolute source offsets.
+ */
+function rewriteDefinitionBody(def: RefUseInternal, repls: Replacement[]): void {
+	if (def.content === undefined || def.contentStart === undefined || def.contentEnd === undefined) return;
+	const base = def.contentStart;
+	const limit = def.contentEnd;
+	const inner = collapseReplacements(repls)
+		.filter((r) => r.start >= base && r.end <= limit)
+		.map((r) => ({ start: r.start - base, end: r.end - base, text: r.text }));
+	if (inner.length) def.content = applyReplacements(def.content, inner);
 }
 
 /**
  * Build list of LDR entries from references.
  * @param refs - Map of reference records.
+ * @param nestedParents - Definitions whose bodies hold nested uses.
+ * @param source - Page source, to keep the markup each body was written in; null to render it afresh.
  * @returns Array of LDR entries with name, group, and content.
  */
-function buildLdrEntries(refs: Map<RefKey, RefRecord>): Array<{ name: string; group: string | null; content: string }> {
-	const list: Array<{ name: string; group: string | null; content: string }> = [];
+function buildLdrEntries(
+	refs: Map<RefKey, RefRecord>,
+	nestedParents: Set<RefUseInternal> = new Set(),
+	source: string | null = null
+): LdrEntry[] {
+	const list: LdrEntry[] = [];
+	const firstUse = new Map<RefRecord, number>();
+	refIterator(refs).forEach((ref) => {
+		const canonical = ref.canonical ?? ref;
+		ref.uses.forEach((use) => firstUse.set(canonical, Math.min(firstUse.get(canonical) ?? Infinity, use.start)));
+	});
 	refIterator(refs).forEach((ref) => {
 		const canonical = ref.canonical ?? ref;
 		if (canonical !== ref) return;
@@ -931,11 +2213,136 @@ function buildLdrEntries(refs: Map<RefKey, RefRecord>): Array<{ name: string; gr
 		if (!canonical.name) return;
 		const content = firstContent(canonical);
 		if (!content) return;
-		list.push({ name: canonical.name, group: canonical.group, content });
+		const entry: LdrEntry = { name: canonical.name, group: canonical.group, content, firstUse: firstUse.get(canonical) ?? Infinity };
+		const trivia = carriedTrivia(refs, canonical);
+		if (trivia) entry.trivia = trivia;
+		const def = firstDefinition(canonical);
+		if (source !== null && def?.kind === 'full') entry.raw = source.slice(def.start, def.end);
+		if (canonical.extendsName !== undefined) {
+			const parent = canonical.parentRef ? canonical.parentRef.canonical ?? canonical.parentRef : null;
+			entry.parent = parent?.name ?? canonical.extendsName;
+		}
+		const template = nestingNoteTemplate(canonical, nestedParents);
+		if (template) entry.template = template;
+		list.push(entry);
 	});
 	return list;
 }
 
+/**
+ * Collect the comments that move with the definition of a ref: those next to its own
+ * definitions, and those of list-defined copies merged into it. Comments next to an
+ * in-text copy merged into it stay at that copy's remaining use. The lines above a
+ * list-defined copy belong to the list, and only move into another list.
+ * @param refs - Map of reference records.
+ * @param canonical - Canonical reference record.
+ * @param host - Definition the body is written back into, whose comments are already in place.
+ * @returns Combined comments, or null when there are none.
+ */
+function carriedTrivia(refs: Map<RefKey, RefRecord>, canonical: RefRecord, host: RefUseInternal | null = null): RefTrivia | null {
+	const leading: string[] = [];
+	const before: string[] = [];
+	const trailing: string[] = [];
+	refIterator(refs).forEach((ref) => {
+		if ((ref.canonical ?? ref) !== canonical) return;
+		(ref === canonical ? [...ref.definitions, ...ref.ldrDefinitions] : ref.ldrDefinitions).forEach((def) => {
+			if (def === host || !def.trivia) return;
+			if (!host) leading.push(...def.trivia.leading);
+			if (def.trivia.before) before.push(def.trivia.before);
+			if (def.trivia.trailing) trailing.push(def.trivia.trailing);
+		});
+	});
+	if (!leading.length && !before.length && !trailing.length) return null;
+	return { leading, before: before.join(' '), trailing: trailing.join(' ') };
+}
+
+/**
+ * Collect the definitions whose bodies hold nested uses or {{r}} calls.
+ * @param refs - Map of reference records.
+ * @param rTemplates - Parsed {{r}} invocations.
+ * @returns Set of enclosing definitions.
+ */
+function collectNestedParents(refs: Map<RefKey, RefRecord>, rTemplates: RTemplateMatch[]): Set<RefUseInternal> {
+	const parents = new Set<RefUseInternal>();
+	refIterator(refs).forEach((ref) => {
+		[...ref.uses, ...ref.ldrDefinitions].forEach((use) => {
+			if (use.parent) parents.add(use.parent);
+		});
+	});
+	rTemplates.forEach((tpl) => {
+		if (tpl.parent) parents.add(tpl.parent);
+	});
+	return parents;
+}
+
+/**
+ * Get the footnote template a definition must keep when moved, because its body nests other refs.
+ * @param ref - Canonical reference record.
+ * @param nestedParents - Definitions whose bodies hold nested uses.
+ * @returns Template name as written, or null when a plain <ref> can hold the body.
+ */
+function nestingNoteTemplate(ref: RefRecord, nestedParents: Set<RefUseInternal>): string | null {
+	const def = firstDefinition(ref);
+	if (!def || def.kind !== 'note' || !def.template || !nestedParents.has(def)) return null;
+	return def.template;
+}
+
+/**
+ * Assign LDR entries to the first container rendering their group.
+ * @param entries - List-defined reference entries.
+ * @param containers - Reflist templates and <references> tags found on the page.
+ * @returns Entries per container, plus entries whose group has no container.
+ */
+function routeLdrEntries(entries: LdrEntry[], containers: TemplateMatch[]): {
+	routed: Map<TemplateMatch, LdrEntry[]>;
+	unrouted: LdrEntry[];
+} {
+	const routed = new Map<TemplateMatch, LdrEntry[]>();
+	const unrouted: LdrEntry[] = [];
+	entries.forEach((entry) => {
+		const target = containers.find((c) => c.group === entry.group);
+		if (!target) {
+			unrouted.push(entry);
+			return;
+		}
+		const list = routed.get(target) ?? [];
+		list.push(entry);
+		routed.set(target, list);
+	});
+	return { routed, unrouted };
+}
+
+/**
+ * List the named groups that have uses but no container rendering them.
+ * The default group is skipped: MediaWiki appends a list for it when none is placed.
+ * @param refs - Map of reference records.
+ * @param renderedGroups - Groups rendered by containers on the page or appended by the plan.
+ * @returns Unrendered group names in first-seen order.
+ */
+function unrenderedGroups(refs: Map<RefKey, RefRecord>, renderedGroups: Set<string | null>): string[] {
+	const missing = new Set<string>();
+	refIterator(refs).forEach((ref) => {
+		const group = (ref.canonical ?? ref).group;
+		if (group && !renderedGroups.has(group)) missing.add(group);
+	});
+	return Array.from(missing);
+}
+
+/**
+ * Group LDR entries by their reference group, keeping first-seen order.
+ * @param entries - List-defined reference entries.
+ * @returns Map of group (null for default) to its entries.
+ */
+function groupEntries(entries: LdrEntry[]): Map<string | null, LdrEntry[]> {
+	const map = new Map<string | null, LdrEntry[]>();
+	entries.forEach((entry) => {
+		const list = map.get(entry.group) ?? [];
+		list.push(entry);
+		map.set(entry.group, list);
+	});
+	return map;
+}
+
 /**
  * Render a self-closing reference tag or template.
  * @param name - Reference name.
@@ -943,7 +2350,7 @@ function buildLdrEntries(refs: Map<RefKey, RefRecord>): Array<{ name: string; gr
  * @param preferTemplateR - Whether to prefer the {{r|...}} template format.
  * @returns Rendered reference string.
  */
-function renderRefSelf(name: string | null, group: string | null, preferTemplateR: boolean): string {
+export function renderRefSelf(name: string | null, group: string | null, preferTemplateR: boolean): string {
 	const safeEscape = (value: string): string => escapeAttr(value);
 	if (!name) {
 		// Fall back to empty self-closing tag
@@ -959,18 +2366,39 @@ function renderRefSelf(name: string | null, group: string | null, preferTemplate
 	return `<ref ${attrs.join(' ')} />`;
 }
 
+/**
+ * Render an {{efn}}/{{refn}} invocation, omitting the group its template implies.
+ * @param template - Footnote template name as written.
+ * @param name - Note name.
+ * @param group - Note group.
+ * @param content - Note text, or null to render a reuse.
+ * @returns Rendered footnote template string.
+ */
+function renderNoteTemplate(template: string, name: string | null, group: string | null, content: string | null): string {
+	const parts = [template];
+	if (name) parts.push(`name=${name}`);
+	if (group && group !== defaultNoteGroup(template)) parts.push(`group=${group}`);
+	if (content !== null) {
+		const body = normalizeContentBlock(content);
+		parts.push(namedParam(body) ? `1=${body}` : body);
+	}
+	return `{{${parts.join('|')}}}`;
+}
+
 /**
  * Render a full reference tag with content.
  * @param name - Reference name.
  * @param group - Reference group.
  * @param content - Reference content.
  * @param normalize - Whether to normalize the content body.
+ * @param parent - Name of the ref a sub-reference extends.
  * @returns Rendered full reference tag string.
  */
-function renderRefTag(name: string | null, group: string | null, content: string, normalize = false): string {
+function renderRefTag(name: string | null, group: string | null, content: string, normalize = false, parent: string | null = null): string {
 	const safeEscape = (value: string): string => escapeAttr(value);
 	const attrs: string[] = [];
 	if (name) attrs.push(`name="${safeEscape(name)}"`);
+	if (parent !== null) attrs.push(`extends="${safeEscape(parent)}"`);
 	if (group) attrs.push(`group="${safeEscape(group)}"`);
 	const inner = normalize ? normalizeRefBody(content) : normalizeContentBlock(content);
 	return `<ref${attrs.length ? ' ' + attrs.join(' ') : ''}>${inner}</ref>`;
@@ -983,8 +2411,9 @@ function renderRefTag(name: string | null, group: string | null, content: string
  */
 function normalizeRefBody(content: string): string {
 	let text = normalizeContentBlock(content);
-	const citeRegex = /\{\{\s*([Cc]ite\s+[^\|\}]+)\s*\|([\s\S]*?)\}\}/g;
+	const citeRegex = /\{\{\s*([^\|\{\}]+?)\s*\|([\s\S]*?)\}\}/g;
 	text = text.replace(citeRegex, (match, name: string, paramText: string) => {
+		if (!isTemplateInFamily(name, 'cite')) return match;
 		const params = parseTemplateParams('|' + paramText);
 		if (!params.length) return match;
 
@@ -1033,203 +2462,83 @@ function normalizeRefBody(content: string): string {
 
 /**
  * Collapse chains of <ref/> and {{rp|...}} into single {{r|...}} templates.
+ * Citations are read with {@link findCitationUnits}, so {{rp}} params holding templates
+ * are kept whole; a chain is a run of citations separated only by spaces on one line.
  * @param text - Source wikitext to process.
- * @param preferTemplateR - Whether to prefer the {{r|...}} template format.
- * @returns Wikitext with collapsed reference chains.
+ * @param keep - Optional check whether the chain at an offset may be collapsed.
+ * @param foldPins - Whether page pins may be folded into the {{r}} call; when not,
+ *   a pinned citation ends the chain and is left as written.
+ * @returns Replacements with offsets into `text`, one per chain collapsed.
  */
-function collapseRefsAndRp(text: string, preferTemplateR: boolean): string {
-	if (!preferTemplateR) return text;
-	const chainRegex = /(?:(?:<ref\b[^>]*\/>\s*(?:\{\{rp\|[^}]+\}\}\s*)?)|\{\{r\|[^}]+\}\}\s*(?:\{\{rp\|[^}]+\}\}\s*)?)+/gi;
-
-	/**
-	 * Tokenize a block of text into ref, r, and rp tokens.
-	 * @param block - Text block to tokenize.
-	 * @returns Array of tokens with type and raw text.
-	 */
-	const tokenize = (block: string): Array<{ type: 'ref' | 'r' | 'rp'; raw: string }> => {
-		const tokens: Array<{ type: 'ref' | 'r' | 'rp'; raw: string }> = [];
-		const re = /<ref\b[^>]*\/>|{{r\|[^}]+}}|{{rp\|[^}]+}}/gi;
-		let m: RegExpExecArray | null;
-		while ((m = re.exec(block)) !== null) {
-			const raw = m[0];
-			if (raw.startsWith('<ref')) tokens.push({ type: 'ref', raw });
-			else if (raw.startsWith('{{r|')) tokens.push({ type: 'r', raw });
-			else tokens.push({ type: 'rp', raw });
-		}
-		return tokens;
-	};
-
-	/**
-	 * Parse an {{rp|...}} template into its parameters.
-	 * @param raw - Raw {{rp|...}} template string.
-	 * @returns Parsed parameters including page, pages, at, group, and unsupported flag.
-	 */
-	const parseRp = (raw: string): { page?: string; pages?: string; at?: string; group?: string; unsupported: boolean } => {
-		const inner = raw.replace(/^\{\{rp\|/i, '').replace(/\}\}$/, '');
-		const params = splitTemplateParams(inner);
-		const res: { page?: string; pages?: string; at?: string; group?: string; unsupported: boolean } = { unsupported: false };
-		params.forEach((p) => {
-			const eq = p.indexOf('=');
-			let key = '';
-			let val = p;
-			if (eq >= 0) {
-				key = p.slice(0, eq).trim();
-				val = p.slice(eq + 1).trim();
-			}
-			const norm = key.toLowerCase();
-			if (!key || norm === 'p' || norm === 'page') res.page = val;
-			else if (norm === 'pp' || norm === 'pages') res.pages = val;
-			else if (norm === 'at' || norm === 'location' || norm === 'loc') res.at = val;
-			else if (norm === 'group' || norm === 'grp' || norm === 'g') res.group = val;
-			else res.unsupported = true;
-		});
-		return res;
-	};
-
-	/**
-	 * Extract name and group attributes from a <ref ... /> tag.
-	 * @param raw - Raw <ref ... /> tag string.
-	 * @returns Object with name and group values or null if not present.
-	 */
-	const refInfo = (raw: string): { name: string | null; group: string | null } => {
-		return { name: extractAttr(raw, 'name'), group: extractAttr(raw, 'group') };
-	};
-
-	/**
-	 * Parse entries from an {{r|...}} template.
-	 * @param raw - Raw {{r|...}} template string.
-	 * @returns Array of RTemplateEntry objects or null if invalid.
-	 */
-	const rEntriesFromR = (raw: string): RTemplateEntry[] | null => {
-		const match = raw.match(/^\{\{r\|([\s\S]+)\}\}$/i);
-		if (!match) return null;
-		const entries = parseRTemplateEntries(match[1]);
-		if (entries.some((e) => e.kind === 'other')) return null;
-		const nameCount = entries.filter((e) => e.isName).length;
-		if (!nameCount) return null;
-		if (entries.some((e) => !e.isName && e.index > nameCount)) return null;
-		return entries;
-	};
-
-	/**
-	 * Build an {{r|...}} template string from a chain of references.
-	 * @param items - Array of reference items with name, group, page, pages, and at.
-	 * @returns Rendered {{r|...}} template string.
-	 */
-	const buildChain = (items: Array<{
-		name: string;
-		group?: string | null;
-		page?: string;
-		pages?: string;
-		at?: string;
-	}>): string => {
-		const params: string[] = [];
-		const hasDetail = items.some((it) => it.page || it.pages || it.at);
-		items.forEach((it, idx) => {
-			const i = idx + 1;
-			params.push(it.name);
-			if (it.group) {
-				if (hasDetail) {
-					params.push(i === 1 ? `group=${it.group}` : `group${i}=${it.group}`);
-				} else {
-					params.push(`group=${it.group}`);
-				}
-			}
-			if (it.page) params.push(i === 1 ? `p=${it.page}` : `p${i}=${it.page}`);
-			if (it.pages) params.push(i === 1 ? `pp=${it.pages}` : `pp${i}=${it.pages}`);
-			if (it.at) params.push(i === 1 ? `loc=${it.at}` : `loc${i}=${it.at}`);
-		});
-		return `{{r|${params.join('|')}}}`;
-	};
-
-	// Process each matched chain
-	return text.replace(chainRegex, (block) => {
-		if (block.includes('\n') || block.includes('\r')) {
-			return block;
+function collapseRefsAndRp(text: string, keep: (offset: number) => boolean = () => true, foldPins = true): Replacement[] {
+	const chains: CitationUnit[][] = [];
+	findCitationUnits(text).forEach((unit) => {
+		const chain = chains[chains.length - 1];
+		const previous = chain?.[chain.length - 1];
+		if (unit.form === 'extends') {
+			chains.push([]);
+		} else if (previous && /^\s*$/.test(text.slice(previous.end, unit.start))) {
+			chain.push(unit);
+		} else {
+			chains.push([unit]);
 		}
-		const trailingWs = block.match(/\s+$/)?.[0] ?? '';
-		const trimmedBlock = trailingWs ? block.slice(0, -trailingWs.length) : block;
-		const tokens = tokenize(trimmedBlock);
-		if (!tokens.length) return block;
-		const parts: string[] = [];
-		let chain: Array<{ name: string; group?: string | null; page?: string; pages?: string; at?: string }> = [];
+	});
 
-		const flushChain = () => {
-			if (chain.length) {
-				parts.push(buildChain(chain));
-				chain = [];
-			}
+	const collapses: Replacement[] = [];
+	chains.forEach((units) => {
+		// A lone {{r}} call has nothing to fold into it
+		if (!units.length || (units.length === 1 && units[0].form === 'r' && !units[0].rp)) return;
+		const start = units[0].start;
+		const end = units[units.length - 1].end;
+		const block = text.slice(start, end);
+		if (block.includes('\n') || block.includes('\r') || !keep(start)) return;
+		const parts: string[] = [];
+		let chain: PinnedRef[] = [];
+		const flushChain = (): void => {
+			if (chain.length) parts.push(renderRChain(chain));
+			chain = [];
 		};
-
-		for (let i = 0; i < tokens.length; i++) {
-			const tok = tokens[i];
-			if (tok.type === 'ref') {
-				const rpTok = tokens[i + 1]?.type === 'rp' ? tokens[i + 1] : null;
-				if (rpTok) i++;
-				const info = refInfo(tok.raw);
-				if (!info.name) {
-					flushChain();
-					parts.push(tok.raw + (rpTok ? rpTok.raw : ''));
-					continue;
-				}
-				const rp = rpTok ? parseRp(rpTok.raw) : { unsupported: false };
-				if (rp.unsupported) {
-					flushChain();
-					parts.push(tok.raw + (rpTok ? rpTok.raw : ''));
-					continue;
-				}
-				chain.push({
-					name: info.name,
-					group: info.group,
-					page: rp.page,
-					pages: rp.pages,
-					at: rp.at
-				});
-				continue;
-			}
-
-			if (tok.type === 'r') {
-				const rpTok = tokens[i + 1]?.type === 'rp' ? tokens[i + 1] : null;
-				if (rpTok) i++;
-				const entries = rEntriesFromR(tok.raw);
-				if (!entries) {
-					flushChain();
-					parts.push(tok.raw + (rpTok ? rpTok.raw : ''));
-					continue;
-				}
-				entries
-					.filter((e) => e.isName)
-					.forEach((e) => {
-						const idx = e.index || 1;
-						const group = entries.find((en) => en.kind === 'group' && en.index === idx)?.value ?? null;
-						const page = entries.find((en) => en.kind === 'page' && en.index === idx)?.value;
-						const pages = entries.find((en) => en.kind === 'pages' && en.index === idx)?.value;
-						const at = entries.find((en) => en.kind === 'at' && en.index === idx)?.value;
-						chain.push({ name: e.value, group, page, pages, at });
-					});
-				if (rpTok) {
-					const rp = parseRp(rpTok.raw);
-					if (!rp.unsupported && chain.length) {
-						const last = chain[chain.length - 1];
-						last.page = rp.page ?? last.page;
-						last.pages = rp.pages ?? last.pages;
-						last.at = rp.at ?? last.at;
-						last.group = rp.group ?? last.group;
-					} else {
-						flushChain();
-						parts.push(tok.raw + rpTok.raw);
-					}
-				}
-				continue;
+		units.forEach((unit) => {
+			const foldable = unit.refs.length > 0 && !unit.extra.length && (foldPins || !unit.refs.some(hasLocator));
+			if (!foldable) {
+				flushChain();
+				parts.push(text.slice(unit.start, unit.end));
+				return;
 			}
-
-			// rp without preceding ref/r – flush
-			flushChain();
-			parts.push(tok.raw);
-		}
+			chain.push(...unit.refs);
+		});
 		flushChain();
-		return parts.join(' ') + trailingWs;
+		const next = parts.join(' ');
+		if (next === block) return;
+		collapses.push({
+			start,
+			end,
+			text: next,
+			change: { op: 'collapse-r', refKey: null, reason: 'Collapsed adjacent refs and page numbers into one {{r}} call' }
+		});
 	});
+	return collapses;
+}
+
+/** Keys of {{r}} params that hold a ref name: positional, numbered, `name`, or `n`. */
+const R_NAME_KEY_RE = /^(?:\d+|name\d*|n\d*)$/i;
+
+/**
+ * Resolve the name an {{r}} call should cite after renames and merges.
+ * @param raw - Name as written in the call.
+ * @param refs - Map of reference records.
+ * @param renameLookup - Optional function to rename reference names.
+ * @returns New name, or null when the ref is left nameless.
+ */
+function resolveRName(
+	raw: string,
+	refs: Map<RefKey, RefRecord>,
+	renameLookup?: (name: string) => string | null | undefined
+): string | null {
+	const ref = refs.get(refKey(raw, null));
+	const canonical = ref?.canonical ?? ref;
+	const mapped = renameLookup ? renameLookup(raw) : undefined;
+	return mapped !== undefined ? mapped : canonical?.name ?? (ref ? null : raw);
 }
 
 /**
@@ -1238,23 +2547,20 @@ function collapseRefsAndRp(text: string, preferTemplateR: boolean): string {
  * @param refs - Map of reference records for name resolution.
  * @param preferTemplateR - Whether to prefer the {{r|...}} template format.
  * @param renameLookup - Optional function to rename reference names.
+ * @param definitions - Bodies to write at the first citation of each name, when converting to <ref> tags.
  * @returns Rendered {{r|...}} template string or null if not renderable.
  */
 function renderRTemplate(
 	tpl: { entries: RTemplateEntry[] },
 	refs: Map<RefKey, RefRecord>,
 	preferTemplateR: boolean,
-	renameLookup?: (name: string) => string | null | undefined
+	renameLookup?: (name: string) => string | null | undefined,
+	definitions?: Map<string, string>
 ): string | null {
 	const nameEntries = tpl.entries.filter((e) => e.isName);
 	if (!nameEntries.length) return null;
 
-	const resolveName = (raw: string): string | null => {
-		const ref = refs.get(refKey(raw, null));
-		const canonical = ref?.canonical ?? ref;
-		const mapped = renameLookup ? renameLookup(raw) : undefined;
-		return mapped !== undefined ? mapped : canonical?.name ?? (ref ? null : raw);
-	};
+	const resolveName = (raw: string): string | null => resolveRName(raw, refs, renameLookup);
 
 	if (preferTemplateR) {
 		// Preserve all params; rename names.
@@ -1270,6 +2576,7 @@ function renderRTemplate(
 	// Convert to <ref> + optional {{rp}} when lossless; otherwise emit preserved {{r}}.
 	const segments: string[] = [];
 	const used = new Set<RTemplateEntry>();
+	const defined = new Set<string>();
 	let pendingUnsupported: RTemplateEntry[] = [];
 
 	const flushPending = () => {
@@ -1314,7 +2621,9 @@ function renderRTemplate(
 		const pagesLabel = pagesEntry?.key && pagesEntry.key.toLowerCase().startsWith('pages') ? 'pages' : 'pp';
 		const at = mappedRelevant.find((r) => r.kind === 'at' && r.index === idxNum)?.value;
 
-		let chunk = renderRefSelf(target, group, false);
+		const body = definitions?.get(target);
+		let chunk = body !== undefined && !defined.has(target) ? renderRefTag(target, group, body) : renderRefSelf(target, group, false);
+		defined.add(target);
 		const rpParts: string[] = [];
 		if (page) rpParts.push(`p=${page}`);
 		if (pages) rpParts.push(`${pagesLabel}=${pages}`);
@@ -1346,61 +2655,187 @@ function normalizeContentBlock(content: string): string {
 }
 
 /**
- * Update a reflist template with new refs parameter value.
- * @param tpl - Template match to update.
- * @param ldrEntries - List-defined reference entries.
- * @param sort - Whether to sort entries by name.
- * @returns Updated reflist template string.
+ * Update a reflist container with new list-defined entries.
+ * Templates get their refs= parameter rewritten; <references> tags get their body
+ * rewritten while keeping the tag's attributes (group, responsive) as written.
+ * @param tpl - Container match to update.
+ * @param ldrEntries - List-defined reference entries for this container.
+ * @param order - Order to write entries in, or null for the order given.
+ * @param layout - Layout of the entries the container already holds.
+ * @returns Updated container markup.
  */
-function updateReflistTemplate(tpl: TemplateMatch, ldrEntries: Array<{
-	name: string; group: string | null; content: string
-}>, sort: boolean): string {
-	const params = tpl.params.slice();
-	const hasRefsParam = params.some((p) => p.name && p.name.toLowerCase() === 'refs');
-	const refsValue = renderRefsValue(ldrEntries, sort);
-
-	if (ldrEntries.length === 0) {
-		// Remove refs param if present
-		const filtered = params.filter((p) => !(p.name && p.name.toLowerCase() === 'refs'));
-		return renderTemplate(tpl.name, filtered);
-	}
-
-	if (hasRefsParam) {
-		const next = params.map((p) => (p.name && p.name.toLowerCase() === 'refs' ? { ...p, value: refsValue } : p));
-		return renderTemplate(tpl.name, next);
+function updateReflistTemplate(tpl: TemplateMatch, ldrEntries: LdrEntry[], order: LdrOrder | null, layout?: ListLayout): string {
+	// Comments left in an emptied list keep it open
+	const kept = ldrEntries.length > 0 || Boolean(layout?.tail.some(Boolean));
+	if (tpl.form === 'tag') {
+		const attrs = tpl.attrs.replace(/\s+$/, '');
+		if (!kept) {
+			return tpl.selfClosing ? tpl.content : `<references${attrs} />`;
+		}
+		return `<references${attrs}>${renderRefsValue(ldrEntries, order, tpl.group, layout)}</references>`;
 	}
 
-	params.push({ name: 'refs', value: refsValue });
-	return renderTemplate(tpl.name, params);
+	// Only the refs param is rewritten; the other params keep their spacing
+	return setTemplateParam(tpl.content, 'refs', kept ? renderRefsValue(ldrEntries, order, tpl.group, layout) : null);
 }
 
 /**
- * Render the value for a refs parameter from entries.
+ * Render the value for a refs parameter from entries, each with the comments and blank
+ * lines written around it.
  * @param entries - List-defined reference entries.
- * @param sort - Whether to sort entries by name.
+ * @param order - Order to write entries in, or null for the order given.
+ * @param containerGroup - Group supplied by the container; matching entries omit the attribute.
+ * @param layout - Layout of the entries the container already holds.
  * @returns Rendered refs parameter value.
  */
-function renderRefsValue(entries: Array<{
-	name: string; group: string | null; content: string
-}>, sort: boolean): string {
-	const sorted = sort ? entries.slice().sort((a, b) => a.name.localeCompare(b.name, undefined, {
-		sensitivity: 'base', numeric: true
-	})) : entries;
-	return '\n' + sorted.map((e) => renderRefTag(e.name, e.group, e.content)).join('\n') + '\n';
+function renderRefsValue(entries: LdrEntry[], order: LdrOrder | null, containerGroup: string | null = null, layout?: ListLayout): string {
+	const lines: string[] = [];
+	orderLdrEntries(entries, order, layout).forEach((e) => {
+		const trivia = e.trivia;
+		// The container supplies the group, as in renderRefTag
+		const attrs: Record<string, string | null> = { name: e.name, group: e.group === containerGroup ? null : e.group };
+		if (e.parent !== undefined) attrs.extends = e.parent;
+		const patched = e.raw && !e.template ? patchElement(e.raw, attrs, e.content) : null;
+		const rendered = patched ?? (e.template
+			? renderNoteTemplate(e.template, e.name, e.group, e.content)
+			: renderRefTag(e.name, e.group === containerGroup ? null : e.group, e.content, false, e.parent ?? null));
+		lines.push(...(trivia?.leading ?? []), [trivia?.before, rendered, trivia?.trailing].filter(Boolean).join(' '));
+	});
+	if (layout) lines.push(...layout.tail);
+	// One blank line at most between entries, none at the ends
+	const compact = lines.filter((line, i) => line || (i > 0 && lines[i - 1] !== ''));
+	while (compact.length && !compact[0]) compact.shift();
+	while (compact.length && !compact[compact.length - 1]) compact.pop();
+	return '\n' + compact.join('\n') + '\n';
 }
 
 /**
- * Render a template with given name and parameters.
- * @param name - Template name.
- * @param params - Template parameters.
- * @returns Rendered template string.
+ * Put the entries of a reference list in the requested order. Sorting is stable, so
+ * entries that compare equal keep the order they were collected in.
+ * @param entries - List-defined reference entries.
+ * @param order - Requested order, or null to keep the order given.
+ * @param layout - Layout of the existing list, for preserving its order.
+ * @returns Ordered copy of the entries.
  */
-function renderTemplate(name: string, params: TemplateParam[]): string {
-	const parts = params.map((p) => {
-		if (p.name) return `${p.name}=${p.value}`;
-		return p.value;
+function orderLdrEntries(entries: LdrEntry[], order: LdrOrder | null, layout?: ListLayout): LdrEntry[] {
+	const byName = (a: LdrEntry, b: LdrEntry): number => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+	switch (order) {
+		case 'name':
+			return entries.slice().sort(byName);
+		case 'first-use':
+			return entries.slice().sort((a, b) => a.firstUse - b.firstUse);
+		case 'author-year': {
+			const keys = new Map(entries.map((e) => {
+				const identity = citationIdentity(e.content);
+				return [e, { author: identity.author, year: identity.year }] as const;
+			}));
+			return entries.slice().sort((a, b) => {
+				const ka = keys.get(a)!;
+				const kb = keys.get(b)!;
+				// Entries without an author go last, by name
+				if (!ka.author || !kb.author) return ka.author ? -1 : kb.author ? 1 : byName(a, b);
+				return ka.author.localeCompare(kb.author) || (ka.year ?? '').localeCompare(kb.year ?? '') || byName(a, b);
+			});
+		}
+		case 'preserve': {
+			const written = layout ? layout.names : [];
+			const rank = (e: LdrEntry): number => {
+				const i = written.indexOf(e.name);
+				return i === -1 ? Infinity : i;
+			};
+			return entries.slice().sort((a, b) => (rank(a) === rank(b) ? 0 : rank(a) - rank(b)));
+		}
+		default:
+			return entries;
+	}
+}
+
+/**
+ * Record the comments written around the entries of a reference list: the lines above
+ * each entry since the previous one, the text before it and the rest of its line, and the
+ * lines after the last.
+ * @param tpl - Reflist template or <references> tag; its `tail` is set.
+ * @param refs - Map of reference records; the list-defined definitions in it get their `trivia`.
+ */
+function readListTrivia(tpl: TemplateMatch, refs: Map<RefKey, RefRecord>): void {
+	const refsParam = tpl.params.find((p) => p.name && p.name.trim().toLowerCase() === 'refs');
+	const body = tpl.form === 'tag'
+		? tpl.content.slice(tpl.content.indexOf('>') + 1).replace(/<\/references\s*>$/i, '')
+		: refsParam?.value ?? '';
+	const defs = listDefinitions(refs, tpl).map((entry) => entry.def);
+
+	let cursor = 0;
+	let previous: RefTrivia | null = null;
+	// Lines of the text between entries; the first is the rest of the line of the previous entry
+	const readGap = (gap: string): string[] => {
+		const lines = gap.split('\n').map((line) => line.trim());
+		const sameLine = lines.shift()!;
+		if (previous) previous.trailing = [previous.trailing, sameLine].filter(Boolean).join(' ');
+		else if (sameLine) lines.unshift(sameLine);
+		return lines;
+	};
+	defs.forEach((def) => {
+		const raw = tpl.content.slice(def.start - tpl.start, def.end - tpl.start);
+		const at = body.indexOf(raw, cursor);
+		if (at === -1) return;
+		const lines = readGap(body.slice(cursor, at));
+		def.trivia = { leading: lines.slice(0, -1), before: lines[lines.length - 1] ?? '', trailing: '' };
+		previous = def.trivia;
+		cursor = at + raw.length;
 	});
-	return `{{${name}${parts.length ? '|' + parts.join('|') : ''}}}`;
+	tpl.tail = readGap(body.slice(cursor));
+}
+
+/**
+ * Hand the lines above entries that leave a reference list, such as headings of a group of
+ * entries, to the next entry that stays, or to the end of the list.
+ * @param refs - Map of reference records, with their target locations set.
+ * @param tpl - Reflist template or <references> tag; its `tail` may grow.
+ */
+function leaveListComments(refs: Map<RefKey, RefRecord>, tpl: TemplateMatch): void {
+	let pending: string[] = [];
+	listDefinitions(refs, tpl).forEach(({ def, ref }) => {
+		if (!def.trivia) return;
+		if ((ref.canonical ?? ref).targetLocation !== 'ldr') {
+			pending.push(...def.trivia.leading);
+			def.trivia.leading = [];
+		} else if (pending.length) {
+			def.trivia.leading = [...pending, ...def.trivia.leading];
+			pending = [];
+		}
+	});
+	if (pending.some(Boolean)) tpl.tail = [...pending, ...(tpl.tail ?? [])];
+}
+
+/**
+ * Get the top-level list-defined definitions of a reference list, in written order.
+ * @param refs - Map of reference records.
+ * @param tpl - Reflist template or <references> tag.
+ * @returns Definitions with the record holding each.
+ */
+function listDefinitions(refs: Map<RefKey, RefRecord>, tpl: TemplateMatch): Array<{ def: RefUseInternal; ref: RefRecord }> {
+	const defs: Array<{ def: RefUseInternal; ref: RefRecord }> = [];
+	refIterator(refs).forEach((ref) => {
+		ref.ldrDefinitions.forEach((def) => {
+			if (!def.parent && def.start >= tpl.start && def.end <= tpl.end) defs.push({ def, ref });
+		});
+	});
+	return defs.sort((a, b) => a.def.start - b.def.start);
+}
+
+/**
+ * Read the order of the entries already in a reference list, under their current names.
+ * @param refs - Map of reference records.
+ * @param tpl - Reflist template or <references> tag.
+ * @returns Layout of the list, empty when it holds no entries.
+ */
+function readListLayout(refs: Map<RefKey, RefRecord>, tpl: TemplateMatch): ListLayout {
+	const names: string[] = [];
+	listDefinitions(refs, tpl).forEach(({ ref }) => {
+		const name = (ref.canonical ?? ref).name;
+		if (name && names.indexOf(name) === -1) names.push(name);
+	});
+	return { names, tail: tpl.tail ?? [] };
 }
 
 /**
@@ -1484,24 +2919,85 @@ function buildRTemplateString(
 /**
  * Build a standalone reflist template with given entries.
  * @param entries - List-defined reference entries.
- * @param sort - Whether to sort entries by name.
+ * @param order - Order to write entries in, or null for the order given.
+ * @param group - Group the reflist should render, or null for the default group.
  * @returns Rendered standalone reflist template string.
  */
-function buildStandaloneReflist(entries: Array<{
-	name: string; group: string | null; content: string
-}>, sort: boolean): string {
-	const refsValue = renderRefsValue(entries, sort);
-	return `\n{{reflist|refs=${refsValue}}}`;
+function buildStandaloneReflist(entries: LdrEntry[], order: LdrOrder | null, group: string | null = null): string {
+	const refsValue = renderRefsValue(entries, order, group);
+	// Footnote groups get the notelist variant that renders them by default
+	const notelist = Object.keys(NOTE_GROUPS).find((name) => name.startsWith('notelist') && NOTE_GROUPS[name] === group);
+	if (notelist) return `\n{{${notelist}|refs=${refsValue}}}`;
+	return `\n{{reflist${group ? `|group=${group}` : ''}|refs=${refsValue}}}`;
 }
 
 interface Replacement {
 	start: number;
 	end: number;
 	text: string;
+	/** What the edit does, for the change log. */
+	change?: ChangeInfo;
+}
+
+/** A rewrite of the whole text, run on the page and on the edited section after the replacement plan. */
+interface TextPass {
+	op: ChangeOperation;
+	/**
+	 * Plan the rewrite of a text.
+	 * @param text - Text the previous passes produced.
+	 * @param keep - Check whether the operation at an offset of `text` may be applied.
+	 * @param report - Whether warnings and rewrites are reported; the section's copy of a pass leaves that to the page's.
+	 * @returns Replacements with offsets into `text`.
+	 */
+	plan: (text: string, keep: (offset: number) => boolean, report: boolean) => Replacement[];
+}
+
+/**
+ * Run text passes in order, each over the text the one before produced.
+ * @param text - Text to rewrite.
+ * @param passes - Passes to run.
+ * @param keep - Check whether an operation at an offset of the current text may be applied.
+ * @param run - Apply the replacements of a pass, tracking them; returns the new text.
+ * @param report - Whether the passes report warnings and rewrites.
+ * @returns Rewritten text.
+ */
+function runTextPasses(
+	text: string,
+	passes: TextPass[],
+	keep: (op: ChangeOperation, offset: number) => boolean,
+	run: (text: string, replacements: Replacement[]) => string,
+	report: boolean
+): string {
+	return passes.reduce((current, pass) => run(current, pass.plan(current, (offset) => keep(pass.op, offset), report)), text);
+}
+
+/** Replacements made in one pass over a text, for {@link buildChangeLog}. */
+interface ChangeStage {
+	/** Text the replacements apply to. */
+	text: string;
+	replacements: Replacement[];
+}
+
+/** Change log entry fields known when an edit is planned. */
+interface ChangeInfo {
+	op: ChangeOperation;
+	refKey: string | null;
+	reason: string;
+	/** Set for edits that follow from other operations and cannot be toggled on their own. */
+	derived?: boolean;
+}
+
+/** A replacement located in the text before and after it is applied. */
+interface TrackedEdit {
+	from: SourceSpan;
+	to: SourceSpan;
+	change?: ChangeInfo;
 }
 
 /**
  * Collapse overlapping replacements by keeping the last one for each range.
+ * Replacements nested inside another one (a ref inside a re-rendered footnote template)
+ * are dropped, since the enclosing text is rewritten as a whole.
  * @param repls - Array of replacements to collapse.
  * @returns Collapsed array of replacements.
  */
@@ -1516,7 +3012,118 @@ function collapseReplacements(repls: Replacement[]): Replacement[] {
 		seen.add(key);
 		result.push(r);
 	}
-	return result;
+	return result.filter((r) => !result.some((o) => o !== r && o.start <= r.start && r.end <= o.end && o.end - o.start > r.end - r.start));
+}
+
+/**
+ * Locate replacements in the text they produce, without applying them.
+ * Appended replacements are placed at the end of the source; no-op replacements are skipped.
+ * @param source - Original source string.
+ * @param replacements - Array of replacements.
+ * @returns Edits ordered by source offset.
+ */
+function trackReplacements(source: string, replacements: Replacement[]): TrackedEdit[] {
+	let offset = 0;
+	const edits: TrackedEdit[] = [];
+	replacements.slice().sort((a, b) => a.start - b.start).forEach((r) => {
+		const start = Math.min(r.start, source.length);
+		const end = Math.min(r.end, source.length);
+		if (source.slice(start, end) === r.text) return;
+		edits.push({ from: { start, end }, to: { start: start + offset, end: start + offset + r.text.length }, change: r.change });
+		offset += r.text.length - (end - start);
+	});
+	return edits;
+}
+
+/**
+ * Track the replacements of a pass the other way round, to map offsets in its output back
+ * to its input.
+ * @param source - Text the replacements apply to.
+ * @param replacements - Replacements of the pass.
+ * @returns Edits from the output to the input, ordered by `from.start`.
+ */
+function undoReplacements(source: string, replacements: Replacement[]): TrackedEdit[] {
+	return trackReplacements(source, replacements).map((edit) => ({ from: edit.to, to: edit.from }));
+}
+
+/**
+ * Map an offset in the output of a series of passes back to their input.
+ * @param undone - Reversed edits of each pass, in the order the passes ran.
+ * @param offset - Offset in the output of the last pass.
+ * @returns Offset in the input of the first pass.
+ */
+function undoOffset(undone: TrackedEdit[][], offset: number): number {
+	return undone.reduceRight((at, edits) => mapOffset(edits, at, 'start'), offset);
+}
+
+/**
+ * Map an offset across a set of edits. Offsets inside an edit snap to its edges.
+ * @param edits - Edits ordered by `from.start`.
+ * @param offset - Offset in the `from` text.
+ * @param edge - Which edge of an enclosing edit to snap to.
+ * @returns Offset in the `to` text.
+ */
+function mapOffset(edits: TrackedEdit[], offset: number, edge: 'start' | 'end'): number {
+	let delta = 0;
+	for (const edit of edits) {
+		if (offset <= edit.from.start) break;
+		if (offset < edit.from.end) return edge === 'start' ? edit.to.start : edit.to.end;
+		delta = edit.to.end - edit.from.end;
+	}
+	return offset + delta;
+}
+
+/**
+ * Build the operation ID of an edit: the operation and ref key, or the operation and
+ * source offset for edits not tied to one ref.
+ * @param change - Change log fields of the edit.
+ * @param start - Offset of the edit in the input wikitext.
+ * @returns Operation ID, or null for derived edits.
+ */
+function operationId(change: ChangeInfo, start: number): string | null {
+	if (change.derived) return null;
+	return change.refKey ? `${change.op}:${change.refKey}` : `${change.op}@${start}`;
+}
+
+/**
+ * Build a predicate telling whether an operation may be applied.
+ * @param accept - Operation IDs to apply, or undefined for all.
+ * @param reject - Operation IDs to leave out.
+ * @returns Predicate over operation IDs; derived edits (null) are always applied.
+ */
+function operationFilter(accept?: string[], reject?: string[]): (id: string | null) => boolean {
+	const allowed = accept ? new Set(accept) : null;
+	const denied = new Set(reject ?? []);
+	return (id) => id === null || ((!allowed || allowed.has(id)) && !denied.has(id));
+}
+
+/**
+ * Build the change log from edits applied in stages: the planned replacements, then
+ * each pass over the text the previous stage produced (page pins, {{r}} collapses).
+ * @param stages - Each stage's input text and its replacements, with offsets into that text.
+ * @returns Change log ordered by input offset.
+ */
+function buildChangeLog(stages: ChangeStage[]): TransformChange[] {
+	const tracked = stages.map((stage) => trackReplacements(stage.text, stage.replacements));
+	const reversed = tracked.map((edits) => edits.map((edit) => ({ from: edit.to, to: edit.from })));
+	const mapSpan = (span: SourceSpan, edits: TrackedEdit[]): SourceSpan => ({
+		start: mapOffset(edits, span.start, 'start'),
+		end: mapOffset(edits, span.end, 'end')
+	});
+	const log: TransformChange[] = [];
+	tracked.forEach((edits, stage) => edits.forEach((edit) => {
+		const originalSpan = reversed.slice(0, stage).reduceRight((span, earlier) => mapSpan(span, earlier), edit.from);
+		const newSpan = tracked.slice(stage + 1).reduce((span, later) => mapSpan(span, later), edit.to);
+		log.push({
+			id: edit.change ? operationId(edit.change, originalSpan.start) : null,
+			op: edit.change?.op ?? 'normalize',
+			refKey: edit.change?.refKey ?? null,
+			originalSpan,
+			newSpan,
+			reason: edit.change?.reason ?? 'Normalized markup'
+		});
+	}));
+	return log.sort((a, b) => a.originalSpan.start - b.originalSpan.start || a.newSpan.start - b.newSpan.start);
 }
 
 /**
@@ -1538,60 +3145,6 @@ function applyReplacements(source: string, replacements: Replacement[]): string
 	return output;
 }
 
-/**
- * Find template instances with simple brace depth parsing.
- * @param source - Source wikitext to search.
- * @param names - Template names to look for (case-insensitive).
- * @returns Array of found template matches.
- */
-function findTemplates(source: string, names: string[]): TemplateMatch[] {
-	const matches: TemplateMatch[] = [];
-	const lowerNames = names.map((n) => n.toLowerCase());
-	let i = 0;
-	while (i < source.length) {
-		const idx = source.indexOf('{{', i);
-		if (idx === -1) break;
-
-		let j = idx + 2;
-		while (j < source.length && /\s/.test(source[j])) j++;
-		let nameEnd = j;
-		while (nameEnd < source.length && /[A-Za-z0-9_:-]/.test(source[nameEnd])) nameEnd++;
-		const name = source.slice(j, nameEnd);
-		if (!lowerNames.includes(name.toLowerCase())) {
-			i = idx + 2;
-			continue;
-		}
-
-		let depth = 1;
-		let k = nameEnd;
-		while (k < source.length && depth > 0) {
-			if (source[k] === '{' && source[k + 1] === '{') {
-				depth++;
-				k += 2;
-				continue;
-			}
-			if (source[k] === '}' && source[k + 1] === '}') {
-				depth--;
-				k += 2;
-				continue;
-			}
-			k++;
-		}
-		if (depth !== 0) {
-			i = nameEnd;
-			continue;
-		}
-
-		const end = k;
-		const content = source.slice(idx, end);
-		const paramText = source.slice(nameEnd, end - 2); // strip closing braces
-		const params = parseTemplateParams(paramText);
-		matches.push({ start: idx, end, name, content, params });
-		i = end;
-	}
-	return matches;
-}
-
 /**
  * Parse template parameters from a parameter string.
  * @param paramText - Raw parameter string (including leading '|').
@@ -1624,6 +3177,25 @@ export function parseTemplateParams(paramText: string): TemplateParam[] {
 	});
 }
 
+/**
+ * Find the first cite template ({{cite web}}, {{citation}}, or a local alias) in a ref body.
+ * @param content - Ref body wikitext.
+ * @param from - Offset to start looking at.
+ * @returns Span of the template in `content`, or null when the body has none.
+ */
+export function findCiteTemplate(content: string, from = 0): SourceSpan | null {
+	const re = /\{\{\s*([^{|}]+?)\s*(?=[|}])/g;
+	re.lastIndex = from;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(content))) {
+		const name = m[1];
+		if (!isTemplateInFamily(name, 'cite') && name.toLowerCase() !== 'citation') continue;
+		const end = findTemplateEnd(content, m.index);
+		return end === -1 ? null : { start: m.index, end };
+	}
+	return null;
+}
+
 /**
  * Pick the first matching parameter value from a template param list or a record.
  * @param params - Template parameters.
@@ -1649,8 +3221,18 @@ export function pickTemplateParams(params: TemplateParam[], ...keys: string[]):
  * @returns Array of individual parameter strings.
  */
 function splitParams(text: string): string[] {
-	const parts: string[] = [];
+	return splitParamSpans(text).map((p) => p.text.trim());
+}
+
+/**
+ * Split template parameter string into raw (untrimmed) parameters with their offsets.
+ * @param text - Raw parameter string.
+ * @returns Parameters with their start offset in `text`.
+ */
+function splitParamSpans(text: string): Array<{ text: string; start: number }> {
+	const parts: Array<{ text: string; start: number }> = [];
 	let current = '';
+	let currentStart = 0;
 	let depth = 0;
 	let linkDepth = 0;
 	for (let i = 0; i < text.length; i++) {
@@ -1677,12 +3259,13 @@ function splitParams(text: string): string[] {
 			continue;
 		}
 		if (ch === '|' && depth === 0 && linkDepth === 0) {
-			parts.push(current);
+			parts.push({ text: current, start: currentStart });
 			current = '';
+			currentStart = i + 1;
 			continue;
 		}
 		current += ch;
 	}
-	if (current) parts.push(current);
-	return parts.map((p) => p.trim());
+	if (current) parts.push({ text: current, start: currentStart });
+	return parts;
 }
@@ -0,0 +1,92 @@
+import { SourceSpan } from '../types';
+import { tokenizeWikitext } from './wikitext_tokenizer';
+
+/** A section of a page as MediaWiki numbers it for `action=edit&section=N`. */
+export interface WikitextSection extends SourceSpan {
+	/** Section number; 0 is the lead before the first heading. */
+	index: number;
+	/** Heading level (2 for `== x ==`), or 0 for the lead. */
+	level: number;
+	/** Heading text, or null for the lead. */
+	title: string | null;
+}
+
+const HEADING_RE = /^(={1,6})(.+?)(={1,6})[ \t]*$/gm;
+
+/**
+ * Split wikitext into editable sections. Like MediaWiki, a section runs from its heading
+ * to the next heading of the same or a higher level, so it includes its subsections.
+ * Headings inside comments, nowiki, and pre blocks are ignored.
+ * @param wikitext - Full page wikitext.
+ * @returns Sections ordered by number, starting with the lead.
+ */
+export function findSections(wikitext: string): WikitextSection[] {
+	const inert = tokenizeWikitext(wikitext).filter((token) => token.type === 'comment' || token.type === 'nowiki');
+	const headings: Array<{ start: number; level: number; title: string }> = [];
+	HEADING_RE.lastIndex = 0;
+	let m: RegExpExecArray | null;
+	while ((m = HEADING_RE.exec(wikitext))) {
+		const start = m.index;
+		if (inert.some((token) => start >= token.start && start < token.end)) continue;
+		const level = Math.min(m[1].length, m[3].length);
+		// Unbalanced `=` runs belong to the title, as MediaWiki renders them
+		const title = `${m[1].slice(level)}${m[2]}${m[3].slice(level)}`.trim();
+		if (title) headings.push({ start, level, title });
+	}
+
+	const sections: WikitextSection[] = [{
+		index: 0,
+		level: 0,
+		title: null,
+		start: 0,
+		end: headings.length ? headings[0].start : wikitext.length
+	}];
+	headings.forEach((heading, i) => {
+		const next = headings.slice(i + 1).find((other) => other.level <= heading.level);
+		sections.push({
+			index: i + 1,
+			level: heading.level,
+			title: heading.title,
+			start: heading.start,
+			end: next ? next.start : wikitext.length
+		});
+	});
+	return sections;
+}
+
+/**
+ * Find the innermost section holding an offset.
+ * @param sections - Sections from {@link findSections}.
+ * @param offset - Source offset.
+ * @returns The section whose heading most closely precedes the offset.
+ */
+export function sectionAt(sections: WikitextSection[], offset: number): WikitextSection {
+	let found = sections[0];
+	sections.forEach((section) => {
+		if (section.start <= offset) found = section;
+	});
+	return found;
+}
+
+/**
+ * Splice the text of one edited section into the full page.
+ * MediaWiki trims trailing whitespace from section text, so the separator that
+ * followed the section in the page is kept.
+ * @param pageText - Full page wikitext.
+ * @param index - Section number being edited.
+ * @param sectionText - Current text of that section.
+ * @returns Page text with the section replaced and the section's span in it,
+ *   or null when the page has no such section.
+ */
+export function spliceSection(pageText: string, index: number, sectionText: string): { wikitext: string; span: SourceSpan } | null {
+	const section = findSections(pageText)[index];
+	if (!section) return null;
+	const original = pageText.slice(section.start, section.end);
+	const trailing = /\s*$/.exec(original)?.[0] ?? '';
+	const body = sectionText.replace(/\s+$/, '');
+	const start = section.start;
+	return {
+		wikitext: pageText.slice(0, start) + body + trailing + pageText.slice(section.end),
+		span: { start, end: start + body.length }
+	};
+}
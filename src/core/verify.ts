@@ -0,0 +1,218 @@
+import { Reference } from '../types';
+import { TransformResult, parseReferences, parseTemplateParams } from './references';
+import { templateNamePattern } from '../data/template_aliases';
+
+/** Kind of damage a transform did to the page's citations. */
+export type VerificationIssueKind = 'lost-content' | 'unresolved-use' | 'undefined-ref' | 'self-reference';
+
+/** One citation a transform damaged. */
+export interface VerificationIssue {
+	kind: VerificationIssueKind;
+	/** Ref name (group-qualified when grouped) or, for unnamed refs, a snippet of its content. */
+	ref: string;
+	message: string;
+}
+
+/** Outcome of {@link verifyTransform}. */
+export interface VerificationReport {
+	ok: boolean;
+	issues: VerificationIssue[];
+}
+
+/** Changes of a transform that move uses between names or rewrite bodies; all but `renamed` and `deduped` may be left out. */
+type VerifiedChanges = Pick<TransformResult['changes'], 'renamed' | 'deduped'>
+	& Partial<Pick<TransformResult['changes'], 'split' | 'edited' | 'migratedRefs' | 'redatedRefs' | 'droppedUnused'>>;
+
+/**
+ * Reparse the output of a transform and check that no citation was lost or broken:
+ * every original definition body is still present (except those of merged near-duplicates,
+ * of refs edited or with cite params or dates rewritten, of unused list-defined refs dropped,
+ * and of sub-references, which may become page pins), every original use still resolves to a defined ref, and no ref became
+ * undefined or nested inside its own definition.
+ * Problems the input already had are not reported.
+ * @param before - Wikitext given to the transform.
+ * @param after - Wikitext the transform produced.
+ * @param changes - Renames, dedupes and body rewrites the transform reported, used to follow names.
+ * @returns Report listing the offending refs.
+ */
+export function verifyTransform(
+	before: string,
+	after: string,
+	changes: VerifiedChanges = { renamed: [], deduped: [] }
+): VerificationReport {
+	const issues: VerificationIssue[] = [];
+	const original = parseReferences(before).filter(isRefTag);
+	const output = parseReferences(after).filter(isRefTag);
+	const outputByKey = new Map(output.filter((ref) => ref.name).map((ref) => [keyOf(ref.name!, ref.group), ref]));
+	const originalById = new Map(original.map((ref) => [ref.id, ref]));
+	const outputById = new Map(output.map((ref) => [ref.id, ref]));
+
+	const bodies = new Set(output.map((ref) => fingerprint(ref.contentWikitext)).filter(Boolean));
+	original.forEach((ref) => {
+		if (!ref.contentWikitext || bodies.has(fingerprint(ref.contentWikitext))) return;
+		// An edited, migrated or redated body is meant to change
+		const id = ref.name ?? ref.id;
+		if ([changes.edited, changes.migratedRefs, changes.redatedRefs].some((list) => (list ?? []).includes(id))) return;
+		// An unused list-defined ref has no use left to hold its body
+		if ((changes.droppedUnused ?? []).includes(id)) return;
+		// A sub-reference may become a page pin on the ref it extends; its uses are counted on that ref below
+		const parent = ref.parent ? originalById.get(ref.parent) : undefined;
+		if (parent?.name && parent.contentWikitext) return;
+		// A near-duplicate merged into another copy gives up its body by design
+		if (ref.name && resolveName(ref.name, changes) !== resolveName(ref.name, { ...changes, deduped: [] })) return;
+		issues.push({ kind: 'lost-content', ref: label(ref), message: `The definition of ${label(ref)} is missing from the result.` });
+	});
+
+	// Uses each output ref must hold: its own, plus those of the refs renamed or merged into it,
+	// less those split off onto new refs. Uses of a ref's sub-references count as its own, since
+	// page pins and sub-references are converted into one another.
+	const expectedUses = new Map<string, number>();
+	(changes.split ?? []).forEach((split) => {
+		const ref = original.find((candidate) => candidate.name === split.from);
+		if (!ref) return;
+		const key = keyOf(split.to, ref.group);
+		expectedUses.set(key, (expectedUses.get(key) ?? 0) + split.uses);
+		if (!outputByKey.get(key)?.contentWikitext) {
+			issues.push({ kind: 'unresolved-use', ref: `"${split.to}"`, message: `The ref "${split.to}" split off ${label(ref)} is not defined.` });
+		}
+	});
+	original.forEach((ref) => {
+		if (!ref.name || !ref.contentWikitext || (changes.droppedUnused ?? []).includes(ref.name)) return;
+		const target = resolveName(ref.name, changes);
+		if (target === null) return;
+		const key = keyOf(target, ref.group);
+		const splitOff = (changes.split ?? []).filter((split) => split.from === ref.name).reduce((sum, split) => sum + split.uses, 0);
+		const found = outputByKey.get(key);
+		if (!found || !found.contentWikitext) {
+			issues.push({
+				kind: 'unresolved-use',
+				ref: label(ref),
+				message: `Uses of ${label(ref)} no longer resolve${target !== ref.name ? ` (expected "${target}")` : ''}.`
+			});
+			return;
+		}
+		expectedUses.set(key, (expectedUses.get(key) ?? 0) + countUses(ref, originalById) - splitOff);
+	});
+	expectedUses.forEach((count, key) => {
+		const found = outputByKey.get(key);
+		const uses = found ? countUses(found, outputById) : 0;
+		if (!found || uses >= count) return;
+		issues.push({
+			kind: 'unresolved-use',
+			ref: label(found),
+			message: `${label(found)} has ${uses} use${uses === 1 ? '' : 's'} but should have ${count}.`
+		});
+	});
+
+	const brokenBefore = new Set(original.filter((ref) => isUndefined(ref) || isSelfReferential(ref)).map((ref) => label(ref)));
+	output.forEach((ref) => {
+		if (brokenBefore.has(label(ref))) return;
+		if (isUndefined(ref)) {
+			issues.push({ kind: 'undefined-ref', ref: label(ref), message: `${label(ref)} is used but never defined.` });
+		} else if (isSelfReferential(ref)) {
+			issues.push({ kind: 'self-reference', ref: label(ref), message: `${label(ref)} is used inside its own definition.` });
+		}
+	});
+
+	return { ok: issues.length === 0, issues };
+}
+
+/**
+ * Check whether a reference is written as a <ref> tag or footnote template,
+ * rather than a shortened-footnote anchor.
+ * @param ref - Reference.
+ * @returns True for refs the transform can move or rename.
+ */
+function isRefTag(ref: Reference): boolean {
+	return ref.kind !== 'sfn' && ref.kind !== 'harvnb';
+}
+
+/**
+ * Follow a ref name through the renames and dedupes of a transform.
+ * @param name - Original name.
+ * @param changes - Reported renames and dedupes.
+ * @returns Name the ref carries in the output, or null when it was made nameless.
+ */
+function resolveName(name: string, changes: VerifiedChanges): string | null {
+	const renamed = changes.renamed.find((entry) => entry.from === name);
+	const current = renamed ? renamed.to : name;
+	if (current === null) return null;
+	return changes.deduped.find((entry) => entry.from === current)?.to ?? current;
+}
+
+/**
+ * Count the uses of a ref together with those of its sub-references.
+ * @param ref - Reference.
+ * @param byId - References of the same text, by ID.
+ * @returns Number of citations of the ref.
+ */
+function countUses(ref: Reference, byId: Map<string, Reference>): number {
+	return (ref.children ?? []).reduce((sum, id) => sum + (byId.get(id)?.uses.length ?? 0), ref.uses.length);
+}
+
+/**
+ * Check whether a named ref has uses but no definition.
+ * @param ref - Reference.
+ * @returns True when the ref is undefined.
+ */
+function isUndefined(ref: Reference): boolean {
+	return Boolean(ref.name) && ref.uses.length > 0 && !ref.contentWikitext;
+}
+
+/**
+ * Check whether a use of a ref sits inside the ref's own definition.
+ * @param ref - Reference.
+ * @returns True when the definition cites itself.
+ */
+function isSelfReferential(ref: Reference): boolean {
+	const def = ref.definition;
+	if (!def) return false;
+	return ref.uses.some((use) => use.span !== null && use.span.start >= def.start && use.span.end <= def.end
+		&& (use.span.start > def.start || use.span.end < def.end));
+}
+
+/**
+ * Build the lookup key of a ref name within its group.
+ * @param name - Ref name.
+ * @param group - Ref group.
+ * @returns Group-qualified key.
+ */
+function keyOf(name: string, group: string | null): string {
+	return `${group ?? ''}::${name}`;
+}
+
+/**
+ * Describe a ref for issue lists.
+ * @param ref - Reference.
+ * @returns Quoted name, group-qualified when grouped, or a content snippet for unnamed refs.
+ */
+function label(ref: Reference): string {
+	if (!ref.name) {
+		const snippet = ref.contentWikitext.replace(/\s+/g, ' ').trim();
+		return `unnamed ref "${snippet.length > 40 ? `${snippet.slice(0, 40)}…` : snippet}"`;
+	}
+	return ref.group ? `"${ref.name}" (group ${ref.group})` : `"${ref.name}"`;
+}
+
+/**
+ * Reduce a definition body to what a transform must preserve. Whitespace, the order of
+ * template parameters, and the refs nested in the body are allowed to change.
+ * @param content - Definition body.
+ * @returns Comparable fingerprint.
+ */
+function fingerprint(content: string): string {
+	const rCall = new RegExp(`\\{\\{\\s*(?:${templateNamePattern('r')})\\s*\\|[^{}]*\\}\\}`, 'gi');
+	return content
+		// Nested refs are checked on their own, and may move out of the body
+		.replace(/<ref\b(?:[^>]*[^/>])?>[\s\S]*?<\/ref\s*>/gi, ' ')
+		.replace(/<ref\b[^>]*\/>/gi, ' ')
+		.replace(rCall, ' ')
+		.replace(/\{\{([^{}|]+)\|([^{}]*)\}\}/g, (_match, name: string, params: string) => {
+			const sorted = parseTemplateParams(`|${params}`)
+				.map((param) => `${(param.name ?? '').trim()}=${param.value.replace(/\s+/g, ' ').trim()}`)
+				.sort();
+			return `{{${name.trim().toLowerCase()}|${sorted.join('|')}}}`;
+		})
+		.replace(/\s+/g, ' ')
+		.trim();
+}
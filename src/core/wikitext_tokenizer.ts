@@ -0,0 +1,430 @@
+/**
+ * Position-aware tokenizer for the wikitext constructs Cite Forge cares about.
+ * Every token carries offsets into the original source so that the inspector
+ * and the transformer can refer to the exact same occurrences.
+ */
+
+/** Start/end offsets (end exclusive) of a token in the source wikitext. */
+export interface TokenSpan {
+	start: number;
+	end: number;
+}
+
+/** Inert region skipped by the parser (comments, nowiki, pre, syntaxhighlight). */
+export interface InertToken extends TokenSpan {
+	type: 'comment' | 'nowiki';
+}
+
+/** A <ref> tag, either self-closing or with a body. */
+export interface RefTagToken extends TokenSpan {
+	type: 'ref';
+	/** Raw attribute text of the opening tag (without the trailing slash). */
+	attrs: string;
+	selfClosing: boolean;
+	/** Raw body between the opening and closing tags, or null when self-closing. */
+	content: string | null;
+	/** Offsets of the body; equal to `end` for self-closing tags. */
+	contentStart: number;
+	contentEnd: number;
+	/** Refs and recognized templates nested in the body (e.g. {{r}} citing another ref). */
+	children: NestedToken[];
+}
+
+/**
+ * Role of a template the tokenizer was asked to recognize: a reflist-style container,
+ * {{r}}, a footnote template that defines or reuses a ref ({{efn}}, {{refn}}),
+ * a shortened footnote ({{sfn}}), or an in-text Harvard link ({{harvnb}}).
+ */
+export type TemplateRole = 'reflist' | 'r' | 'note' | 'sfn' | 'harv';
+
+/** A recognized template invocation. */
+export interface TemplateToken extends TokenSpan {
+	type: 'template';
+	role: TemplateRole;
+	/** Template name as written (trimmed). */
+	name: string;
+	/** Offset right after the template name. */
+	nameEnd: number;
+	/** Raw parameter text between the name and the closing braces. */
+	paramText: string;
+	/** Tokens found inside the template body (list-defined refs, or refs nested in a note). */
+	children: NestedToken[];
+}
+
+/** A <references> tag, either self-closing or holding list-defined refs in its body. */
+export interface ReferencesTagToken extends TokenSpan {
+	type: 'references';
+	/** Raw attribute text exactly as written between `<references` and `>` or `/>`. */
+	attrs: string;
+	selfClosing: boolean;
+	/** Offsets of the body; equal to `end` for self-closing tags. */
+	contentStart: number;
+	contentEnd: number;
+	/** Tokens found inside the body. */
+	children: NestedToken[];
+}
+
+export type WikitextToken = InertToken | RefTagToken | TemplateToken | ReferencesTagToken;
+
+/** Token that can appear nested inside a ref body, a note template, or a reflist container. */
+export type NestedToken = RefTagToken | TemplateToken;
+
+export interface TokenizeOptions {
+	/** Lowercase names of reflist templates whose bodies hold list-defined refs. */
+	reflistNames?: string[];
+	/** Lowercase names of {{r}}-style templates. */
+	rNames?: string[];
+	/** Lowercase names of footnote templates that define or reuse a ref ({{efn}}, {{refn}}). */
+	noteNames?: string[];
+	/** Lowercase names of shortened-footnote templates ({{sfn}}). */
+	sfnNames?: string[];
+	/** Lowercase names of in-text Harvard link templates ({{harvnb}}). */
+	harvNames?: string[];
+}
+
+const INERT_TAGS = ['nowiki', 'pre', 'syntaxhighlight', 'source'];
+const nestedRoleCache = new WeakMap<Map<string, TemplateRole>, Map<string, TemplateRole>>();
+
+/**
+ * Normalize a template name for lookups: trim, collapse underscores/spaces, lowercase.
+ * @param name - Raw template name.
+ * @returns Normalized lookup key.
+ */
+export function normalizeTemplateKey(name: string): string {
+	return name.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Tokenize wikitext into refs, recognized templates, and inert regions, in document order.
+ * @param source - Wikitext to scan.
+ * @param options - Template names to recognize.
+ * @returns Flat list of top-level tokens ordered by start offset.
+ */
+export function tokenizeWikitext(source: string, options: TokenizeOptions = {}): WikitextToken[] {
+	const roles = new Map<string, TemplateRole>();
+	const assign = (names: string[] | undefined, role: TemplateRole): void => {
+		(names ?? []).forEach((name) => {
+			const key = normalizeTemplateKey(name);
+			if (key && !roles.has(key)) roles.set(key, role);
+		});
+	};
+	assign(options.reflistNames, 'reflist');
+	assign(options.rNames ?? ['r'], 'r');
+	assign(options.noteNames, 'note');
+	assign(options.sfnNames, 'sfn');
+	assign(options.harvNames, 'harv');
+	return scan(String(source || ''), 0, source.length, roles);
+}
+
+/**
+ * Scan a range of the source, emitting tokens with absolute offsets.
+ * @param source - Full source text.
+ * @param from - Range start.
+ * @param to - Range end (exclusive).
+ * @param roles - Roles of recognized templates, keyed by normalized name.
+ * @returns Tokens found in the range.
+ */
+function scan(source: string, from: number, to: number, roles: Map<string, TemplateRole>): WikitextToken[] {
+	const tokens: WikitextToken[] = [];
+	let i = from;
+	while (i < to) {
+		const ch = source[i];
+		if (ch === '<') {
+			const inert = matchInert(source, i, to);
+			if (inert) {
+				tokens.push(inert);
+				i = inert.end;
+				continue;
+			}
+			const ref = matchRefTag(source, i, to, roles);
+			if (ref) {
+				tokens.push(ref);
+				i = ref.end;
+				continue;
+			}
+			const list = matchReferencesTag(source, i, to, roles);
+			if (list) {
+				tokens.push(list);
+				i = list.end;
+				continue;
+			}
+		} else if (ch === '{' && source[i + 1] === '{') {
+			const tpl = matchTemplate(source, i, to, roles);
+			if (tpl) {
+				tokens.push(tpl);
+				i = tpl.end;
+				continue;
+			}
+			i += 2;
+			continue;
+		}
+		i++;
+	}
+	return tokens;
+}
+
+/**
+ * Get the roles recognized inside bodies: everything except reflist containers,
+ * which cannot nest.
+ * @param roles - Roles recognized at the top level.
+ * @returns Roles for nested scans.
+ */
+function nestedRoles(roles: Map<string, TemplateRole>): Map<string, TemplateRole> {
+	let nested = nestedRoleCache.get(roles);
+	if (!nested) {
+		nested = new Map(Array.from(roles).filter(([, role]) => role !== 'reflist'));
+		nestedRoleCache.set(roles, nested);
+	}
+	return nested;
+}
+
+/**
+ * Scan a body range for nested refs and recognized templates.
+ * @param source - Full source text.
+ * @param from - Body start.
+ * @param to - Body end (exclusive).
+ * @param roles - Roles recognized at the top level.
+ * @returns Nested tokens in document order.
+ */
+function scanNested(source: string, from: number, to: number, roles: Map<string, TemplateRole>): NestedToken[] {
+	return scan(source, from, to, nestedRoles(roles))
+		.filter((t): t is NestedToken => t.type === 'ref' || t.type === 'template');
+}
+
+/**
+ * Match a comment or an inert tag block at the given position.
+ * @param source - Full source text.
+ * @param pos - Position of a '<' character.
+ * @param limit - Scan limit.
+ * @returns Inert token or null.
+ */
+function matchInert(source: string, pos: number, limit: number): InertToken | null {
+	if (source.startsWith('<!--', pos)) {
+		const close = source.indexOf('-->', pos + 4);
+		const end = close === -1 || close + 3 > limit ? limit : close + 3;
+		return { type: 'comment', start: pos, end };
+	}
+	const head = source.slice(pos, pos + 20).toLowerCase();
+	for (const tag of INERT_TAGS) {
+		if (!head.startsWith(`<${tag}`)) continue;
+		const after = source[pos + tag.length + 1];
+		if (after !== undefined && !/[\s/>]/.test(after)) continue;
+		const openEnd = source.indexOf('>', pos);
+		if (openEnd === -1 || openEnd >= limit) return null;
+		if (source[openEnd - 1] === '/') {
+			return { type: 'nowiki', start: pos, end: openEnd + 1 };
+		}
+		const closeRe = new RegExp(`</${tag}\\s*>`, 'ig');
+		closeRe.lastIndex = openEnd + 1;
+		const close = closeRe.exec(source);
+		const end = close && close.index + close[0].length <= limit ? close.index + close[0].length : limit;
+		return { type: 'nowiki', start: pos, end };
+	}
+	return null;
+}
+
+/**
+ * Read the attributes of an opening tag, honoring quoted values.
+ * @param source - Full source text.
+ * @param pos - Position right after the tag name.
+ * @param limit - Scan limit.
+ * @returns Index of the closing '>' or -1 when the tag is unterminated.
+ */
+function findTagEnd(source: string, pos: number, limit: number): number {
+	let quote: string | null = null;
+	for (let i = pos; i < limit; i++) {
+		const ch = source[i];
+		if (quote) {
+			if (ch === quote) quote = null;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			// Only treat as a quote when it opens an attribute value.
+			const prev = source.slice(pos, i).replace(/\s+$/, '');
+			if (prev.endsWith('=')) quote = ch;
+			continue;
+		}
+		if (ch === '>') return i;
+		if (ch === '<' || (ch === '\n' && source[i + 1] === '\n')) return -1;
+	}
+	return -1;
+}
+
+/**
+ * Match a <ref> tag (self-closing or with body) at the given position.
+ * @param source - Full source text.
+ * @param pos - Position of a '<' character.
+ * @param limit - Scan limit.
+ * @param roles - Roles of recognized templates, for nested tokens in the body.
+ * @returns Ref token or null.
+ */
+function matchRefTag(source: string, pos: number, limit: number, roles: Map<string, TemplateRole>): RefTagToken | null {
+	if (source.slice(pos, pos + 4).toLowerCase() !== '<ref') return null;
+	const after = source[pos + 4];
+	if (after === undefined || !/[\s/>]/.test(after)) return null;
+	const tagEnd = findTagEnd(source, pos + 4, limit);
+	if (tagEnd === -1) return null;
+	let attrs = source.slice(pos + 4, tagEnd);
+	const selfClosing = /\/\s*$/.test(attrs);
+	if (selfClosing) {
+		attrs = attrs.replace(/\/\s*$/, '');
+		return {
+			type: 'ref', start: pos, end: tagEnd + 1, attrs: attrs.trim(), selfClosing: true, content: null,
+			contentStart: tagEnd + 1, contentEnd: tagEnd + 1, children: []
+		};
+	}
+	const contentStart = tagEnd + 1;
+	const close = findRefClose(source, contentStart, limit);
+	if (!close) return null;
+	return {
+		type: 'ref',
+		start: pos,
+		end: close.end,
+		attrs: attrs.trim(),
+		selfClosing: false,
+		content: source.slice(contentStart, close.start),
+		contentStart,
+		contentEnd: close.start,
+		children: scanNested(source, contentStart, close.start, roles)
+	};
+}
+
+/**
+ * Match a <references> tag at the given position and collect the refs in its body.
+ * @param source - Full source text.
+ * @param pos - Position of a '<' character.
+ * @param limit - Scan limit.
+ * @param roles - Roles of recognized templates, for nested tokens in the body.
+ * @returns References tag token or null.
+ */
+function matchReferencesTag(source: string, pos: number, limit: number, roles: Map<string, TemplateRole>): ReferencesTagToken | null {
+	if (source.slice(pos, pos + 11).toLowerCase() !== '<references') return null;
+	const after = source[pos + 11];
+	if (after === undefined || !/[\s/>]/.test(after)) return null;
+	const tagEnd = findTagEnd(source, pos + 11, limit);
+	if (tagEnd === -1) return null;
+	const rawAttrs = source.slice(pos + 11, tagEnd);
+	if (/\/\s*$/.test(rawAttrs)) {
+		return {
+			type: 'references', start: pos, end: tagEnd + 1, attrs: rawAttrs.replace(/\/\s*$/, ''), selfClosing: true,
+			contentStart: tagEnd + 1, contentEnd: tagEnd + 1, children: []
+		};
+	}
+	const contentStart = tagEnd + 1;
+	const close = findClosingTag(source, 'references', contentStart, limit);
+	if (!close) return null;
+	const children = scanNested(source, contentStart, close.start, roles);
+	return {
+		type: 'references',
+		start: pos,
+		end: close.end,
+		attrs: rawAttrs,
+		selfClosing: false,
+		contentStart,
+		contentEnd: close.start,
+		children
+	};
+}
+
+/**
+ * Find the closing </ref> for a ref body, skipping comments and inert blocks.
+ * @param source - Full source text.
+ * @param from - Start of the ref body.
+ * @param limit - Scan limit.
+ * @returns Span of the closing tag or null.
+ */
+function findRefClose(source: string, from: number, limit: number): TokenSpan | null {
+	return findClosingTag(source, 'ref', from, limit);
+}
+
+/**
+ * Find the closing tag for a tag body, skipping comments and inert blocks.
+ * @param source - Full source text.
+ * @param tag - Lowercase tag name.
+ * @param from - Start of the body.
+ * @param limit - Scan limit.
+ * @returns Span of the closing tag or null.
+ */
+function findClosingTag(source: string, tag: string, from: number, limit: number): TokenSpan | null {
+	const closeRe = new RegExp(`^</${tag}\\s*>`, 'i');
+	let i = from;
+	while (i < limit) {
+		const lt = source.indexOf('<', i);
+		if (lt === -1 || lt >= limit) return null;
+		const inert = matchInert(source, lt, limit);
+		if (inert) {
+			i = inert.end;
+			continue;
+		}
+		const m = closeRe.exec(source.slice(lt, lt + tag.length + 12));
+		if (m) return { start: lt, end: lt + m[0].length };
+		i = lt + 1;
+	}
+	return null;
+}
+
+/**
+ * Find the end of a template starting at pos, honoring nested braces and inert regions.
+ * @param source - Full source text.
+ * @param pos - Position of the opening braces.
+ * @param limit - Scan limit.
+ * @returns Offset right after the closing braces, or -1 when unbalanced.
+ */
+export function findTemplateEnd(source: string, pos: number, limit = source.length): number {
+	let depth = 0;
+	let i = pos;
+	while (i < limit) {
+		if (source[i] === '<') {
+			const inert = matchInert(source, i, limit);
+			if (inert) {
+				i = inert.end;
+				continue;
+			}
+		}
+		if (source[i] === '{' && source[i + 1] === '{') {
+			depth++;
+			i += 2;
+			continue;
+		}
+		if (source[i] === '}' && source[i + 1] === '}') {
+			depth--;
+			i += 2;
+			if (depth === 0) return i;
+			continue;
+		}
+		i++;
+	}
+	return -1;
+}
+
+/**
+ * Match a recognized template at the given position.
+ * @param source - Full source text.
+ * @param pos - Position of the opening braces.
+ * @param limit - Scan limit.
+ * @param roles - Roles of recognized templates, keyed by normalized name.
+ * @returns Template token or null when the template is not recognized.
+ */
+function matchTemplate(source: string, pos: number, limit: number, roles: Map<string, TemplateRole>): TemplateToken | null {
+	let nameEnd = pos + 2;
+	while (nameEnd < limit && !/[|{}<]/.test(source[nameEnd])) nameEnd++;
+	const rawName = source.slice(pos + 2, nameEnd);
+	const key = normalizeTemplateKey(rawName);
+	if (!key) return null;
+	const role = roles.get(key);
+	if (!role) return null;
+	const end = findTemplateEnd(source, pos, limit);
+	if (end === -1) return null;
+	const trimmedNameEnd = pos + 2 + rawName.replace(/\s+$/, '').length;
+	const children = role === 'reflist' || role === 'note' ? scanNested(source, trimmedNameEnd, end - 2, roles) : [];
+	return {
+		type: 'template',
+		role,
+		start: pos,
+		end,
+		name: rawName.trim(),
+		nameEnd: trimmedNameEnd,
+		paramText: source.slice(trimmedNameEnd, end - 2),
+		children
+	};
+}
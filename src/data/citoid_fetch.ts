@@ -0,0 +1,65 @@
+import { UrlMetadata } from '../core/bare_urls';
+
+/** One item of a Citoid `mediawiki` format response. */
+interface CitoidItem {
+	title?: string;
+	websiteTitle?: string;
+	publicationTitle?: string;
+	publisher?: string;
+	date?: string;
+	language?: string;
+	/** Authors as [first, last] pairs. */
+	author?: Array<[string, string]>;
+}
+
+const citoidCache = new Map<string, UrlMetadata | null>();
+
+/**
+ * Look up a URL with the wiki's Citoid service, the one behind the VisualEditor citation
+ * tool. Results are cached for the session; failed lookups resolve to null.
+ * @param url - URL to look up.
+ * @returns Metadata of the page, or null when Citoid knows nothing about it.
+ */
+export async function citoidResolver(url: string): Promise<UrlMetadata | null> {
+	const cached = citoidCache.get(url);
+	if (cached !== undefined) return cached;
+	let metadata: UrlMetadata | null = null;
+	try {
+		const resp = await fetch(`${citoidEndpoint()}${encodeURIComponent(url)}`, {
+			headers: { Accept: 'application/json' }
+		});
+		if (resp.ok) metadata = toMetadata(((await resp.json()) as CitoidItem[])[0]);
+	} catch (e) {
+		console.warn('[Cite Forge][Citoid] Lookup failed', { url, error: e });
+	}
+	citoidCache.set(url, metadata);
+	return metadata;
+}
+
+/**
+ * Get the Citoid URL of the wiki, from the REST base the Citoid extension is configured
+ * with (`wgCitoidConfig.fullRestbaseUrl`), or else the server's `/api/rest_` path.
+ * @returns URL the encoded page URL is appended to.
+ */
+function citoidEndpoint(): string {
+	const config = mw.config.get('wgCitoidConfig') as { fullRestbaseUrl?: string } | null;
+	const base = config?.fullRestbaseUrl || `${mw.config.get('wgServer')}/api/rest_`;
+	return `${base}v1/data/citation/mediawiki/`;
+}
+
+/**
+ * Read the fields of a Citoid item that a {{cite web}} uses.
+ * @param item - Citoid item.
+ * @returns Metadata, or null when the item has no title.
+ */
+function toMetadata(item: CitoidItem | undefined): UrlMetadata | null {
+	if (!item?.title) return null;
+	return {
+		title: item.title,
+		website: item.websiteTitle ?? item.publicationTitle,
+		publisher: item.publisher,
+		date: item.date,
+		language: item.language,
+		authors: item.author?.filter((pair) => pair[1]).map(([first, last]) => ({ last, first: first || undefined }))
+	};
+}
@@ -3,8 +3,13 @@
  * Submits a hidden form to action=submit with wpDiff, letting the user review and save.
  * @param newText - New wikitext to compare.
  * @param summary - Edit summary for the diff preview.
+ * @param section - Number of the section `newText` replaces, or null for the whole page.
  */
-export function openDiffPreview(newText: string, summary = '[[meta:Cite Forge|Cite Forge]]: reference adjustments'): void {
+export function openDiffPreview(
+	newText: string,
+	summary = '[[meta:Cite Forge|Cite Forge]]: reference adjustments',
+	section: number | null = null
+): void {
 	const title = mw.config.get('wgPageName');
 	const action = mw.util.getUrl(title, { action: 'submit' });
 	const token = mw.user.tokens.get('csrfToken') || '+\\';
@@ -25,6 +30,9 @@ export function openDiffPreview(newText: string, summary = '[[meta:Cite Forge|Ci
 	appendHidden(form, 'wpEditToken', token);
 	appendHidden(form, 'model', model);
 	appendHidden(form, 'format', 'text/x-wiki');
+	if (section !== null) {
+		appendHidden(form, 'wpSection', String(section));
+	}
 	appendHidden(form, 'wpUltimateParam', '1');
 
 	const startTs = mw.config.get('wgPageContentTimestamp') as string | undefined;
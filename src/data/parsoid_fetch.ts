@@ -0,0 +1,273 @@
+import { Reference, ReferenceKind } from '../types';
+import { resolveTemplateAlias } from './template_aliases';
+import { decodeCiteNoteId } from '../core/dom_anchors';
+import { extractAttr } from '../core/references';
+
+let parsoidCache: Reference[] | null = null;
+
+/** Template families that only wrap refs written in their own parameters. */
+const WRAPPER_FAMILIES = new Set(['reflist', 'r', 'rp', 'efn', 'refn', 'sfn', 'harv', 'notelist']);
+
+/** The `data-mw` of a `typeof="mw:Extension/ref"` node. */
+interface ParsoidRefData {
+	attrs?: { name?: unknown; group?: unknown };
+	body?: { id?: string; html?: string; extsrc?: string };
+}
+
+/** The `data-mw` of a `typeof="mw:Transclusion"` node. */
+interface ParsoidTransclusionData {
+	parts?: Array<string | { template?: { target?: { wt?: string }; params?: Record<string, { wt?: string }> } }>;
+}
+
+/** What a transclusion's own wikitext says about the refs it emits. */
+interface TransclusionOrigin {
+	/** First template of the transclusion, as written. */
+	template: string | null;
+	/** True for wrappers like {{efn}}, whose refs are always written in their parameters. */
+	wrapper: boolean;
+	/** Names of the <ref> tags passed in as parameters. */
+	paramNames: Set<string>;
+	/** Whether an unnamed <ref> tag is passed in as a parameter. */
+	paramUnnamed: boolean;
+}
+
+/** Parsed ref plus what is needed to decide whether it is editable in source. */
+interface ParsoidRecord {
+	ref: Reference;
+	definitionOrigin?: TransclusionOrigin | null;
+	useOrigins: Array<TransclusionOrigin | null>;
+}
+
+/**
+ * Check whether the page source holds a ref found inside a transclusion.
+ * @param origin - Transclusion around the ref, or null for page content.
+ * @param name - Ref name, or null when unnamed.
+ * @returns True when the ref markup is written on the page.
+ */
+function fromPage(origin: TransclusionOrigin | null, name: string | null): boolean {
+	if (!origin || origin.wrapper) return true;
+	return name ? origin.paramNames.has(name) : origin.paramUnnamed;
+}
+
+/**
+ * Check whether a document holds Parsoid output (a Parsoid read view or a fetched page).
+ * @param root - Element or document to inspect.
+ * @returns True when ref nodes carry Parsoid `typeof` markup.
+ */
+export function isParsoidView(root: ParentNode = document): boolean {
+	return Boolean(root.querySelector('[typeof~="mw:Extension/ref"]'));
+}
+
+/**
+ * Build references from Parsoid HTML, including refs emitted by transcluded templates.
+ * Parsoid keeps no wikitext for ref bodies, so `contentWikitext` holds the `extsrc`
+ * source when present and the rendered text of the body otherwise.
+ * Uses carry their marker links as anchors and no source spans.
+ * @param root - Parsoid document or content element.
+ * @returns References in first-use order, flagged with whether the page source holds them.
+ */
+export function parseParsoidReferences(root: ParentNode): Reference[] {
+	const transclusions = new Map<string, TransclusionOrigin>();
+	root.querySelectorAll('[typeof~="mw:Transclusion"]').forEach((el) => {
+		const about = el.getAttribute('about');
+		if (about) transclusions.set(about, describeTransclusion(el.getAttribute('data-mw')));
+	});
+
+	const originOf = (node: Element): TransclusionOrigin | null => {
+		for (let el: Element | null = node; el; el = el.parentElement) {
+			const about = el.getAttribute('about');
+			const origin = about ? transclusions.get(about) : undefined;
+			if (origin) return origin;
+		}
+		return null;
+	};
+
+	const records = new Map<string, ParsoidRecord>();
+	let namelessCounter = 0;
+	root.querySelectorAll('[typeof~="mw:Extension/ref"]').forEach((node) => {
+		const data = parseDataMw<ParsoidRefData & ParsoidTransclusionData>(node.getAttribute('data-mw'));
+		if (!data) return;
+		const link = node.querySelector('a');
+		// A template whose whole output is one ref (e.g. {{efn}}) fuses with it: the node's
+		// data-mw then describes the transclusion, and the ref is read from its link instead
+		const fused = data.parts ? readFusedRef(node, link) : null;
+		if (data.parts && !fused) return;
+		const name = fused ? fused.name : attrValue(data.attrs?.name);
+		const group = fused ? fused.group : attrValue(data.attrs?.group);
+		const body = fused ? fused.body : data.body;
+		const key = name ? `${group ?? ''}::${name}` : `__nameless_${namelessCounter++}`;
+		const origin = originOf(node);
+		let record = records.get(key);
+		if (!record) {
+			record = {
+				ref: {
+					id: name && !group ? name : key,
+					name,
+					group,
+					kind: kindFromOrigin(origin),
+					contentWikitext: '',
+					uses: [],
+					definition: null
+				},
+				useOrigins: []
+			};
+			records.set(key, record);
+		}
+		record.ref.uses.push({ index: record.ref.uses.length, anchor: link ?? node, span: null });
+		record.useOrigins.push(origin);
+		if (body && record.definitionOrigin === undefined) {
+			record.definitionOrigin = origin;
+			record.ref.contentWikitext = bodyText(root, body);
+		}
+	});
+
+	return Array.from(records.values()).map(({ ref, definitionOrigin, useOrigins }) => {
+		// Without a definition node (list-defined refs) any use written on the page will do
+		const origins = definitionOrigin !== undefined ? [definitionOrigin] : useOrigins;
+		const blocking = origins.find((origin) => !fromPage(origin, ref.name));
+		ref.editable = origins.some((origin) => fromPage(origin, ref.name));
+		ref.sourceTemplate = ref.editable ? null : blocking?.template ?? null;
+		return ref;
+	});
+}
+
+/**
+ * Get references from the Parsoid HTML of the current page.
+ * A Parsoid read view is read in place, so uses keep their live anchors; otherwise the
+ * revision HTML is fetched from the REST API and uses carry no anchors.
+ * Caches the result for future calls.
+ * @returns Promise resolving to the references.
+ */
+export async function getParsoidReferences(): Promise<Reference[]> {
+	if (parsoidCache !== null) {
+		return parsoidCache;
+	}
+
+	const content = document.querySelector('.mw-parser-output');
+	if (content && isParsoidView(content)) {
+		parsoidCache = parseParsoidReferences(content);
+		return parsoidCache;
+	}
+
+	try {
+		const revision = mw.config.get('wgRevisionId');
+		const path = revision
+			? `/v1/revision/${revision}/html`
+			: `/v1/page/${encodeURIComponent(mw.config.get('wgPageName'))}/html`;
+		const resp = await fetch(`${mw.util.wikiScript('rest')}${path}`);
+		if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+		const doc = new DOMParser().parseFromString(await resp.text(), 'text/html');
+		parsoidCache = parseParsoidReferences(doc);
+		parsoidCache.forEach((ref) => ref.uses.forEach((use) => {
+			use.anchor = null;
+		}));
+		return parsoidCache;
+	} catch (e) {
+		console.error('[Cite Forge] Failed to fetch Parsoid HTML', e);
+		parsoidCache = [];
+		return parsoidCache;
+	}
+}
+
+/**
+ * Reset cached Parsoid references (e.g., when page changes or after edit).
+ */
+export function clearParsoidCache(): void {
+	parsoidCache = null;
+}
+
+/**
+ * Describe the template a transclusion node stands for.
+ * @param dataMw - Raw `data-mw` of the transclusion.
+ * @returns Template name and the refs its wikitext passes in.
+ */
+function describeTransclusion(dataMw: string | null): TransclusionOrigin {
+	const parts = parseDataMw<ParsoidTransclusionData>(dataMw)?.parts ?? [];
+	const origin: TransclusionOrigin = { template: null, wrapper: false, paramNames: new Set(), paramUnnamed: false };
+	const scan = (wikitext: string): void => {
+		const tagRe = /<ref\b([^>]*?)\/?>/gi;
+		let m: RegExpExecArray | null;
+		while ((m = tagRe.exec(wikitext))) {
+			const name = extractAttr(m[1], 'name')?.trim();
+			if (name) origin.paramNames.add(name);
+			else origin.paramUnnamed = true;
+		}
+	};
+	parts.forEach((part) => {
+		if (typeof part === 'string') {
+			scan(part);
+			return;
+		}
+		const name = part.template?.target?.wt?.trim() ?? '';
+		if (!name) return;
+		origin.template = origin.template ?? name;
+		const family = resolveTemplateAlias(name)?.family;
+		if (family && WRAPPER_FAMILIES.has(family)) origin.wrapper = true;
+		Object.values(part.template?.params ?? {}).forEach((param) => scan(param.wt ?? ''));
+	});
+	return origin;
+}
+
+/**
+ * Read a ref fused with its transclusion from the footnote link.
+ * @param node - Ref node whose data-mw describes a transclusion.
+ * @param link - Footnote link inside the node.
+ * @returns Name, group, and body of the ref, or null when the link is not a Cite footnote.
+ */
+function readFusedRef(node: Element, link: Element | null): { name: string | null; group: string | null; body: { id: string } } | null {
+	const href = link?.getAttribute('href') ?? '';
+	const noteId = href.slice(href.lastIndexOf('#') + 1);
+	const marker = decodeCiteNoteId(noteId);
+	if (!marker) return null;
+	const group = link?.getAttribute('data-mw-group') ?? node.getAttribute('data-mw-group');
+	return { name: marker.name, group: attrValue(group), body: { id: `mw-reference-text-${noteId}` } };
+}
+
+/**
+ * Map the template wrapping a ref to the reference kind it produces.
+ * @param origin - Transclusion the ref sits in, or null.
+ * @returns Reference kind.
+ */
+function kindFromOrigin(origin: TransclusionOrigin | null): ReferenceKind {
+	const family = origin?.template ? resolveTemplateAlias(origin.template)?.family : null;
+	if (family === 'efn' || family === 'refn' || family === 'sfn') return family;
+	if (family === 'harv') return 'harvnb';
+	return 'ref';
+}
+
+/**
+ * Get the text of a ref body.
+ * @param root - Document or element holding the reference list.
+ * @param body - `body` of the ref's `data-mw`.
+ * @returns Source text when Parsoid kept it, else the rendered text.
+ */
+function bodyText(root: ParentNode, body: NonNullable<ParsoidRefData['body']>): string {
+	if (body.extsrc !== undefined) return body.extsrc.trim();
+	if (body.html !== undefined) return body.html.replace(/<[^>]+>/g, '').trim();
+	if (!body.id) return '';
+	const el = root.querySelector(`[id="${body.id.replace(/["\\]/g, '\\$&')}"]`);
+	return (el?.textContent ?? '').trim();
+}
+
+/**
+ * Read a ref attribute value from `data-mw`.
+ * @param value - Attribute value.
+ * @returns Trimmed string, or null when absent or empty.
+ */
+function attrValue(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Parse a `data-mw` attribute.
+ * @param raw - Attribute value.
+ * @returns Parsed object, or null when missing or malformed.
+ */
+function parseDataMw<T>(raw: string | null): T | null {
+	if (!raw) return null;
+	try {
+		return JSON.parse(raw) as T;
+	} catch {
+		return null;
+	}
+}
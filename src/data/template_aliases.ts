@@ -0,0 +1,311 @@
+/** Template families Cite Forge needs to recognize under local names. */
+export type TemplateFamily = 'reflist' | 'r' | 'rp' | 'efn' | 'refn' | 'sfn' | 'harv' | 'notelist' | 'cite';
+
+/** Registry entry for a local template name or redirect. */
+export interface TemplateAlias {
+	family: TemplateFamily;
+	/** Lowercase canonical template name the alias stands for (e.g. "cite web"). */
+	canonical: string;
+}
+
+const STORAGE_KEY = 'citeforge-template-aliases';
+const DEFAULT_WIKI = 'default';
+const FAMILIES: TemplateFamily[] = ['reflist', 'r', 'rp', 'efn', 'refn', 'sfn', 'harv', 'notelist', 'cite'];
+
+/** Built-in names valid on every wiki. The cite family is also matched by the "cite " prefix. */
+const BUILTIN_ALIASES: Record<TemplateFamily, string[]> = {
+	reflist: ['reflist', 'references'],
+	r: ['r'],
+	rp: ['rp'],
+	efn: ['efn', 'efn-ua', 'efn-lr', 'efn-ur', 'efn-lg'],
+	refn: ['refn'],
+	sfn: ['sfn', 'sfnp'],
+	harv: ['harvnb', 'harv', 'harvp', 'harvtxt'],
+	notelist: ['notelist', 'notelist-ua', 'notelist-lr', 'notelist-ur', 'notelist-lg'],
+	cite: []
+};
+
+/** Known local names and redirects per wiki, seeded before any API lookup. */
+const WIKI_SEEDS: Record<string, Array<{ name: string } & TemplateAlias>> = {
+	zhwiki: [
+		{ name: 'refs', family: 'reflist', canonical: 'reflist' },
+		{ name: '參考資料', family: 'reflist', canonical: 'reflist' },
+		{ name: '参考资料', family: 'reflist', canonical: 'reflist' },
+		{ name: 'cite web/auto', family: 'cite', canonical: 'cite web' }
+	],
+	jawiki: [
+		{ name: 'refnest', family: 'refn', canonical: 'refn' }
+	]
+};
+
+const registry = new Map<string, Map<string, TemplateAlias>>();
+const resolvedFamilies = new Set<string>();
+const pendingResolves = new Map<string, Promise<void>>();
+let cacheLoaded = false;
+
+/**
+ * Normalize a template name for registry lookups.
+ * @param name - Raw template name (may include a "Template:" prefix).
+ * @returns Lowercase name with underscores and runs of whitespace collapsed.
+ */
+export function normalizeAliasName(name: string): string {
+	return name.replace(/^\s*template\s*:/i, '').replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Get the registry key for the current wiki.
+ * @returns The wiki database name, or a default key outside MediaWiki.
+ */
+export function getWikiId(): string {
+	const mwObj = (globalThis as unknown as { mw?: typeof mw }).mw;
+	const dbName = mwObj?.config?.get('wgDBname');
+	return dbName || DEFAULT_WIKI;
+}
+
+/**
+ * Get (and lazily seed) the alias table for a wiki.
+ * @param wiki - Wiki database name.
+ * @returns Mutable alias table.
+ */
+function tableFor(wiki: string): Map<string, TemplateAlias> {
+	loadCache();
+	let table = registry.get(wiki);
+	if (table) return table;
+	table = new Map<string, TemplateAlias>();
+	FAMILIES.forEach((family) => {
+		BUILTIN_ALIASES[family].forEach((name) => table.set(name, { family, canonical: name }));
+	});
+	(WIKI_SEEDS[wiki] ?? []).forEach(({ name, family, canonical }) => {
+		table.set(normalizeAliasName(name), { family, canonical });
+	});
+	registry.set(wiki, table);
+	return table;
+}
+
+/**
+ * Register local names (or redirects) for a template family.
+ * @param family - Template family.
+ * @param canonical - Canonical template name the names stand for.
+ * @param names - Local names or redirect titles.
+ * @param wiki - Wiki database name; defaults to the current wiki.
+ */
+export function registerTemplateAliases(family: TemplateFamily, canonical: string, names: string[], wiki = getWikiId()): void {
+	const table = tableFor(wiki);
+	const target = normalizeAliasName(canonical);
+	names.forEach((name) => {
+		const key = normalizeAliasName(name);
+		if (!key || table.has(key)) return;
+		table.set(key, { family, canonical: target });
+	});
+	saveCache();
+}
+
+/**
+ * Get every registered local name for a template family.
+ * @param family - Template family.
+ * @param wiki - Wiki database name; defaults to the current wiki.
+ * @returns Lowercase template names.
+ */
+export function getTemplateNames(family: TemplateFamily, wiki = getWikiId()): string[] {
+	const names: string[] = [];
+	tableFor(wiki).forEach((alias, name) => {
+		if (alias.family === family) names.push(name);
+	});
+	return names;
+}
+
+/**
+ * Resolve a template name to its family and canonical name.
+ * Cite templates are also recognized by the "cite " prefix.
+ * @param name - Template name as written.
+ * @param wiki - Wiki database name; defaults to the current wiki.
+ * @returns Alias entry, or null for unrelated templates.
+ */
+export function resolveTemplateAlias(name: string, wiki = getWikiId()): TemplateAlias | null {
+	const key = normalizeAliasName(name);
+	if (!key) return null;
+	const hit = tableFor(wiki).get(key);
+	if (hit) return hit;
+	if (/^cite\s/.test(key)) return { family: 'cite', canonical: key };
+	return null;
+}
+
+/**
+ * Check whether a template name belongs to a family.
+ * @param name - Template name as written.
+ * @param family - Template family.
+ * @param wiki - Wiki database name; defaults to the current wiki.
+ * @returns True when the name is a registered member of the family.
+ */
+export function isTemplateInFamily(name: string, family: TemplateFamily, wiki = getWikiId()): boolean {
+	return resolveTemplateAlias(name, wiki)?.family === family;
+}
+
+/**
+ * Build a regex source that matches any local name of a family, tolerant of case,
+ * underscores, and repeated spaces.
+ * @param family - Template family.
+ * @param wiki - Wiki database name; defaults to the current wiki.
+ * @returns Alternation pattern (without anchors or flags).
+ */
+export function templateNamePattern(family: TemplateFamily, wiki = getWikiId()): string {
+	const names = getTemplateNames(family, wiki).sort((a, b) => b.length - a.length);
+	if (!names.length) return '(?!)';
+	return names
+		.map((n) => n.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&').replace(/ /g, '[ _]+'))
+		.join('|');
+}
+
+/**
+ * Resolve redirects to the canonical templates of each family through the API
+ * and register them for the current wiki. Runs once per family per session.
+ * @param families - Families to resolve; defaults to all but the cite family.
+ */
+export async function resolveTemplateAliases(families: TemplateFamily[] = FAMILIES.filter((f) => f !== 'cite')): Promise<void> {
+	const wiki = getWikiId();
+	await Promise.all(families.map((family) => {
+		const key = `${wiki}:${family}`;
+		if (resolvedFamilies.has(key)) return Promise.resolve();
+		const pending = pendingResolves.get(key);
+		if (pending) return pending;
+		const promise = fetchFamilyRedirects(family, wiki)
+			.then(() => {
+				resolvedFamilies.add(key);
+			})
+			.finally(() => pendingResolves.delete(key));
+		pendingResolves.set(key, promise);
+		return promise;
+	}));
+}
+
+/**
+ * Resolve the redirect targets of template names used on a page and register
+ * those that point into a known family (e.g. a local cite template redirect).
+ * @param names - Template names as written on the page.
+ */
+export async function resolveTemplateAliasesFor(names: string[]): Promise<void> {
+	const wiki = getWikiId();
+	const unknown = Array.from(new Set(names.map(normalizeAliasName))).filter((n) => n && !resolveTemplateAlias(n, wiki));
+	if (!unknown.length) return;
+	const api = getApi();
+	if (!api) return;
+	try {
+		for (let i = 0; i < unknown.length; i += 50) {
+			const batch = unknown.slice(i, i + 50);
+			const data = (await api.get({
+				action: 'query',
+				titles: batch.map((n) => `Template:${n}`).join('|'),
+				redirects: true,
+				formatversion: 2
+			})) as { query?: { redirects?: Array<{ from: string; to: string }> } };
+			(data.query?.redirects ?? []).forEach(({ from, to }) => {
+				const target = resolveTemplateAlias(stripNamespace(to), wiki);
+				if (!target) return;
+				registerTemplateAliases(target.family, target.canonical, [stripNamespace(from)], wiki);
+			});
+		}
+	} catch (err) {
+		console.warn('[Cite Forge][Aliases] Failed to resolve template redirects', err);
+	}
+}
+
+/**
+ * Fetch redirects pointing at the canonical templates of a family.
+ * @param family - Template family.
+ * @param wiki - Wiki database name.
+ */
+async function fetchFamilyRedirects(family: TemplateFamily, wiki: string): Promise<void> {
+	const api = getApi();
+	if (!api) {
+		console.info('[Cite Forge][Aliases] No mw.Api available; skipping redirect lookup', { family });
+		return;
+	}
+	const canonicals = Array.from(new Set(getTemplateNames(family, wiki).map((n) => tableFor(wiki).get(n)?.canonical ?? n)));
+	if (!canonicals.length) return;
+	try {
+		const data = (await api.get({
+			action: 'query',
+			titles: canonicals.map((n) => `Template:${n}`).join('|'),
+			prop: 'redirects',
+			rdnamespace: 10,
+			rdlimit: 'max',
+			redirects: true,
+			formatversion: 2
+		})) as {
+			query?: {
+				redirects?: Array<{ from: string; to: string }>;
+				pages?: Array<{ title: string; redirects?: Array<{ title: string }> }>;
+			};
+		};
+		// A canonical name that is itself a redirect resolves to the real template.
+		const targetOf = new Map<string, string>();
+		(data.query?.redirects ?? []).forEach(({ from, to }) => {
+			targetOf.set(normalizeAliasName(stripNamespace(to)), normalizeAliasName(stripNamespace(from)));
+		});
+		(data.query?.pages ?? []).forEach((page) => {
+			const title = normalizeAliasName(stripNamespace(page.title));
+			const canonical = targetOf.get(title) ?? title;
+			const names = [title, ...(page.redirects ?? []).map((r) => stripNamespace(r.title))];
+			registerTemplateAliases(family, canonical, names, wiki);
+		});
+	} catch (err) {
+		console.warn('[Cite Forge][Aliases] Failed to fetch template redirects', { family, err });
+	}
+}
+
+/**
+ * Get an mw.Api instance when running inside MediaWiki.
+ * @returns API instance or null.
+ */
+function getApi(): mw.Api | null {
+	const mwApiCtor = (globalThis as unknown as { mw?: typeof mw }).mw?.Api;
+	return mwApiCtor ? new mwApiCtor() : null;
+}
+
+/**
+ * Strip the namespace prefix from a page title.
+ * @param title - Full page title.
+ * @returns Title without its namespace.
+ */
+function stripNamespace(title: string): string {
+	const idx = title.indexOf(':');
+	return idx >= 0 ? title.slice(idx + 1) : title;
+}
+
+/**
+ * Load registered aliases from localStorage.
+ */
+function loadCache(): void {
+	if (cacheLoaded) return;
+	cacheLoaded = true;
+	try {
+		if (typeof localStorage === 'undefined') return;
+		const raw = localStorage.getItem(STORAGE_KEY);
+		if (!raw) return;
+		const parsed = JSON.parse(raw) as Record<string, Record<string, TemplateAlias>>;
+		Object.entries(parsed).forEach(([wiki, entries]) => {
+			const table = tableFor(wiki);
+			Object.entries(entries).forEach(([name, alias]) => {
+				if (alias && FAMILIES.includes(alias.family) && !table.has(name)) table.set(name, alias);
+			});
+		});
+	} catch (err) {
+		console.warn('[Cite Forge][Aliases] Failed to load cache', err);
+	}
+}
+
+/**
+ * Save registered aliases to localStorage.
+ */
+function saveCache(): void {
+	try {
+		if (typeof localStorage === 'undefined') return;
+		const obj: Record<string, Record<string, TemplateAlias>> = {};
+		registry.forEach((table, wiki) => {
+			obj[wiki] = Object.fromEntries(table);
+		});
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
+	} catch (err) {
+		console.warn('[Cite Forge][Aliases] Failed to save cache', err);
+	}
+}
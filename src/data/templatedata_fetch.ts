@@ -1,10 +1,46 @@
+import { isTemplateInFamily, resolveTemplateAliasesFor } from './template_aliases';
+
 const templateDataOrderCache = new Map<string, string[]>();
 const templateDataAliasCache = new Map<string, Record<string, string>>();
+const templateDataParamCache = new Map<string, Record<string, TemplateParamSpec>>();
 const pendingFetches = new Map<string, Promise<void>>();
 const STORAGE_KEY = 'citeforge-template-param-order';
 let cacheLoaded = false;
 const API_ENDPOINT = 'https://zh.wikipedia.org/w/api.php';  // Only used if mw.Api is not available or in tests
 
+/** Value types TemplateData declares for parameters; anything else is read as 'string'. */
+export type TemplateParamType = 'string' | 'number' | 'date' | 'url' | 'wiki-page-name';
+
+/** What TemplateData says about one parameter of a template. */
+export interface TemplateParamSpec {
+	/** Canonical parameter name, lowercased. */
+	name: string;
+	type: TemplateParamType;
+	required: boolean;
+	suggested: boolean;
+	deprecated: boolean;
+	/** Other names the parameter is accepted under, lowercased. */
+	aliases: string[];
+}
+
+/** A `params` entry of a TemplateData API response. */
+interface RawParamInfo {
+	aliases?: string[];
+	type?: string;
+	required?: boolean;
+	suggested?: boolean;
+	deprecated?: boolean | string;
+}
+
+/** Cached data of one template as kept in localStorage; older caches lack `params`. */
+interface StoredTemplateData {
+	order: string[];
+	aliases?: Record<string, string>;
+	params?: Record<string, TemplateParamSpec>;
+}
+
+const PARAM_TYPES: TemplateParamType[] = ['number', 'date', 'url', 'wiki-page-name'];
+
 /**
  * Normalize a template name for consistent caching.
  * @param name - Template name.
@@ -48,15 +84,41 @@ function normalizeOrder(template: string, order: string[]): string[] {
  * @param name - Template name.
  * @param order - Parameter order array.
  * @param aliases - Parameter alias map.
+ * @param params - Parameter specs keyed by canonical name.
  */
-function setTemplateData(name: string, order: string[], aliases: Record<string, string>): void {
+function setTemplateData(
+	name: string,
+	order: string[],
+	aliases: Record<string, string>,
+	params: Record<string, TemplateParamSpec>
+): void {
 	const norm = normalizeTemplateName(name);
 	const normalized = normalizeOrder(norm, order);
 	templateDataOrderCache.set(norm, normalized);
 	templateDataAliasCache.set(norm, aliases);
+	templateDataParamCache.set(norm, params);
 	saveCache();
 }
 
+/**
+ * Read the spec of one parameter from a TemplateData `params` entry.
+ * @param name - Parameter name as declared.
+ * @param info - Raw TemplateData entry.
+ * @returns Parameter spec.
+ */
+function readParamSpec(name: string, info: RawParamInfo | undefined): TemplateParamSpec {
+	const type = PARAM_TYPES.find((candidate) => candidate === info?.type) ?? 'string';
+	return {
+		name: name.trim().toLowerCase(),
+		type,
+		required: info?.required === true,
+		suggested: info?.suggested === true,
+		// TemplateData gives either true or a note on what to use instead
+		deprecated: Boolean(info?.deprecated),
+		aliases: Array.isArray(info?.aliases) ? info.aliases.map((alias) => alias.trim().toLowerCase()).filter(Boolean) : []
+	};
+}
+
 /**
  * Get the parameter order for a template from cache.
  * @param name - Template name.
@@ -85,6 +147,17 @@ export function getTemplateAliasMap(name: string): Record<string, string> {
 	return templateDataAliasCache.get(key) ?? {};
 }
 
+/**
+ * Get the parameter specs for a template from cache.
+ * @param name - Template name.
+ * @returns Specs keyed by canonical parameter name; empty when no TemplateData is cached.
+ */
+export function getTemplateParamSpecs(name: string): Record<string, TemplateParamSpec> {
+	loadCache();
+	const key = normalizeTemplateName(name);
+	return templateDataParamCache.get(key) ?? {};
+}
+
 /**
  * Fetch and return the parameter order for a template, caching the result.
  * @param templateName - Template name.
@@ -110,15 +183,19 @@ export async function ensureTemplateOrders(names: string[]): Promise<void> {
  * wikitext so that downstream synchronous normalization can use cached data.
  */
 export async function prefetchTemplateDataForWikitext(wikitext: string): Promise<void> {
-	const citeRegex = /\{\{\s*([Cc]ite\s+[^\|\}\n\r]+)\s*\|/g;
-	const names = new Set<string>();
+	const templateRegex = /\{\{\s*([^\|\{\}\n\r]+?)\s*\|/g;
+	const used = new Set<string>();
 	let m: RegExpExecArray | null;
-	while ((m = citeRegex.exec(wikitext)) !== null) {
+	while ((m = templateRegex.exec(wikitext)) !== null) {
 		const name = m[1].trim().toLowerCase();
-		if (name) names.add(name);
+		if (name) used.add(name);
 	}
-	if (names.size === 0) return;
-	await ensureTemplateOrders([...names]);
+	if (used.size === 0) return;
+	// Local redirects (e.g. {{Cite web/auto}}) only count as cite templates once resolved.
+	await resolveTemplateAliasesFor([...used]);
+	const names = [...used].filter((n) => isTemplateInFamily(n, 'cite'));
+	if (names.length === 0) return;
+	await ensureTemplateOrders(names);
 }
 
 /**
@@ -147,9 +224,9 @@ async function fetchAndStoreTemplateData(templateName: string): Promise<void> {
 	}
 	const promise = (async () => {
 		try {
-			// Skip if already cached
+			// Skip if already cached; entries stored before param specs were kept are fetched again
 			const existing = templateDataOrderCache.get(templateName);
-			if (existing) {
+			if (existing && templateDataParamCache.has(templateName)) {
 				console.info('[Cite Forge][TemplateData] Using cached param order', { templateName, size: existing.length });
 				return;
 			}
@@ -182,7 +259,7 @@ async function fetchAndStoreTemplateData(templateName: string): Promise<void> {
 					{
 						paramorder?: string[];
 						paramOrder?: string[];
-						params?: Record<string, { aliases?: string[] }>;
+						params?: Record<string, RawParamInfo>;
 					}
 				>;
 			}).pages;
@@ -196,8 +273,11 @@ async function fetchAndStoreTemplateData(templateName: string): Promise<void> {
 				(p) => typeof p === 'string' && p.trim().length > 0
 			);
 			const aliasMap: Record<string, string> = {};
+			const specs: Record<string, TemplateParamSpec> = {};
 			if (paramsPage?.params) {
 				Object.entries(paramsPage.params).forEach(([paramName, info]) => {
+					const spec = readParamSpec(paramName, info);
+					if (spec.name) specs[spec.name] = spec;
 					const aliases = info?.aliases;
 					if (Array.isArray(aliases)) {
 						aliases.forEach((alias) => {
@@ -209,7 +289,7 @@ async function fetchAndStoreTemplateData(templateName: string): Promise<void> {
 				});
 			}
 			if (order.length) {
-				setTemplateData(templateName, order, aliasMap);
+				setTemplateData(templateName, order, aliasMap, specs);
 				console.info('[Cite Forge][TemplateData] Stored fetched order', {
 					templateName,
 					size: templateDataOrderCache.get(templateName)?.length ?? order.length,
@@ -236,7 +316,7 @@ function loadCache(): void {
 		if (typeof localStorage === 'undefined') return;
 		const raw = localStorage.getItem(STORAGE_KEY);
 		if (!raw) return;
-		const parsed = JSON.parse(raw) as Record<string, string[] | { order: string[]; aliases?: Record<string, string> }>;
+		const parsed = JSON.parse(raw) as Record<string, string[] | StoredTemplateData>;
 		Object.entries(parsed).forEach(([name, order]) => {
 			if (Array.isArray(order)) {
 				templateDataOrderCache.set(name, order);
@@ -245,6 +325,7 @@ function loadCache(): void {
 				const norm = normalizeTemplateName(name);
 				templateDataOrderCache.set(norm, order.order);
 				templateDataAliasCache.set(norm, order.aliases ?? {});
+				if (order.params) templateDataParamCache.set(norm, order.params);
 			}
 		});
 		console.info('[Cite Forge][TemplateData] Loaded cache from storage', { size: templateDataOrderCache.size });
@@ -259,9 +340,9 @@ function loadCache(): void {
 function saveCache(): void {
 	try {
 		if (typeof localStorage === 'undefined') return;
-		const obj: Record<string, { order: string[]; aliases: Record<string, string> }> = {};
+		const obj: Record<string, StoredTemplateData> = {};
 		templateDataOrderCache.forEach((order, name) => {
-			obj[name] = { order, aliases: templateDataAliasCache.get(name) ?? {} };
+			obj[name] = { order, aliases: templateDataAliasCache.get(name) ?? {}, params: templateDataParamCache.get(name) };
 		});
 		localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
 	} catch (err) {
@@ -1,7 +1,20 @@
+import { SourceSpan } from '../types';
+import { spliceSection } from '../core/sections';
+
+/** The section open in the edit form, located in the full page text. */
+export interface EditSection extends SourceSpan {
+	/** Section number, as passed in `section=`. */
+	index: number;
+}
+
 let wikitextCache: string | null = null;
+let sectionCache: EditSection | null = null;
+let timestampCache: Date | null = null;
 
 /**
  * Get current page wikitext from the edit textbox or API.
+ * When a single section is being edited, the revision the edit form was opened on is
+ * fetched and the textbox content is spliced into it, so refs are always seen page-wide.
  * Caches the result for future calls.
  * @returns Promise resolving to the wikitext string.
  */
@@ -12,17 +25,90 @@ export async function getWikitext(): Promise<string> {
 
 	const textarea = document.getElementById('wpTextbox1') as HTMLTextAreaElement | null;
 	if (textarea && textarea.value) {
-		wikitextCache = textarea.value;
+		const index = getEditSectionIndex();
+		const spliced = index === null ? null : spliceSection(await fetchPageWikitext(getBaseRevisionId()), index, textarea.value);
+		if (index !== null && spliced) {
+			sectionCache = { index, ...spliced.span };
+			wikitextCache = spliced.wikitext;
+		} else {
+			wikitextCache = textarea.value;
+		}
 		return wikitextCache;
 	}
 
+	wikitextCache = await fetchPageWikitext();
+	return wikitextCache;
+}
+
+/**
+ * Get the section open in the edit form.
+ * @returns Promise resolving to the section and its span in the text from
+ *   {@link getWikitext}, or null when the whole page is being edited.
+ */
+export async function getEditSection(): Promise<EditSection | null> {
+	await getWikitext();
+	return sectionCache;
+}
+
+/**
+ * Get the timestamp of the revision being edited: the one the edit form was opened on,
+ * or the current revision when no edit form is open.
+ * @returns Promise resolving to the timestamp, or null when it cannot be found.
+ */
+export async function getRevisionTimestamp(): Promise<Date | null> {
+	const input = document.querySelector<HTMLInputElement>('input[name="wpEdittime"]');
+	const m = input ? /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(input.value) : null;
+	if (m) return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]));
+	if (timestampCache === null) await fetchPageWikitext();
+	return timestampCache;
+}
+
+/**
+ * Reset cached wikitext (e.g., when page changes or after edit).
+ */
+export function clearWikitextCache(): void {
+	wikitextCache = null;
+	sectionCache = null;
+	timestampCache = null;
+}
+
+/**
+ * Read the number of the section open in the edit form.
+ * New-section forms (`section=new`) and transcluded sections (`section=T-1`) count as
+ * whole-page edits, since their text has no place in this page's source.
+ * @returns Section number, or null.
+ */
+function getEditSectionIndex(): number | null {
+	const input = document.querySelector<HTMLInputElement>('input[name="wpSection"]');
+	const value = input ? input.value : mw.util.getParamValue('section');
+	return value && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Read the ID of the revision the edit form was opened on, which later edits to the page
+ * have not touched.
+ * @returns Revision ID, or null when it is not known.
+ */
+function getBaseRevisionId(): number | null {
+	const input = document.querySelector<HTMLInputElement>('input[name="baseRevId"]');
+	const id = Number(input?.value || mw.config.get('wgRevisionId'));
+	return id > 0 ? id : null;
+}
+
+/**
+ * Fetch the wikitext of a page revision from the API, keeping its timestamp.
+ * @param revisionId - Revision to fetch, or null for the current one.
+ * @returns Promise resolving to the wikitext, or an empty string on failure.
+ */
+async function fetchPageWikitext(revisionId: number | null = null): Promise<string> {
 	try {
 		const api = new mw.Api();
-		const title = mw.config.get('wgPageName');
+		const target = revisionId === null ? { titles: mw.config.get('wgPageName') } : { revids: revisionId };
 		type QueryResponse = {
 			query?: {
 				pages?: Array<{
 					revisions?: Array<{
+						timestamp?: string;
 						slots?: {
 							main?: {
 								content?: string | null;
@@ -36,27 +122,18 @@ export async function getWikitext(): Promise<string> {
 		const resp = (await api.get({
 			action: 'query',
 			prop: 'revisions',
-			titles: title,
+			...target,
 			rvslots: 'main',
-			rvprop: 'content',
+			rvprop: 'content|timestamp',
 			formatversion: 2
 		})) as QueryResponse;
 
 		const page = resp.query?.pages?.[0];
 		const revision = page?.revisions?.[0];
-		const content = revision?.slots?.main?.content ?? '';
-		wikitextCache = content || '';
-		return wikitextCache;
+		if (revision?.timestamp) timestampCache = new Date(revision.timestamp);
+		return revision?.slots?.main?.content ?? '';
 	} catch (e) {
 		console.error('[Cite Forge] Failed to fetch wikitext', e);
-		wikitextCache = '';
-		return wikitextCache;
+		return '';
 	}
 }
-
-/**
- * Reset cached wikitext (e.g., when page changes or after edit).
- */
-export function clearWikitextCache(): void {
-	wikitextCache = null;
-}
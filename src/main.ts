@@ -1,19 +1,25 @@
-import { parseReferences, attachDomUses } from './core/references';
+import { parseReferences } from './core/references';
+import { assignMarkers, collectMarkers, markersMatchSource } from './core/dom_anchors';
 import { getWikitext } from './data/wikitext_fetch';
+import { getParsoidReferences } from './data/parsoid_fetch';
+import { resolveTemplateAliases } from './data/template_aliases';
 import { openInspectorDialog, getPortletLinkId, isHubVisible, setHubVisible } from './ui/panel';
 import { addPortletTrigger } from './ui/portlet';
 import { namespaceAllowed } from './ui/settings';
 
 /**
  * Fetch and parse references from the current page's wikitext.
- * Also attaches DOM anchor elements to each reference use.
+ * Resolves local template redirects first and attaches DOM anchor elements to each reference use.
+ * Footnotes the source cannot account for come from transclusions; the page's Parsoid HTML
+ * is then consulted to name their templates, and they are listed as not editable.
  * @returns Array of parsed references with DOM anchors attached.
  */
 async function fetchRefs(): Promise<import('./types').Reference[]> {
-	const wikitext = await getWikitext();
+	const [wikitext] = await Promise.all([getWikitext(), resolveTemplateAliases()]);
 	const refs = parseReferences(wikitext);
-	attachDomUses(refs);
-	return refs;
+	const markers = collectMarkers();
+	const transcluded = markersMatchSource(refs, markers) ? [] : await getParsoidReferences();
+	return [...refs, ...assignMarkers(refs, markers, transcluded)];
 }
 
 /**
@@ -1,3 +1,15 @@
+import type { LdrOrder, RefSplit, TransformOperation } from './core/references';
+import type { LocatorStyle } from './core/locators';
+import type { CitationField } from './core/citation_model';
+
+/**
+ * Start/end offsets (end exclusive) of a markup occurrence in the page wikitext.
+ */
+export interface SourceSpan {
+	start: number;
+	end: number;
+}
+
 /**
  * Represents a single usage of a reference in the document.
  */
@@ -6,8 +18,18 @@ export interface ReferenceUse {
 	index: number;
 	/** DOM element (typically an anchor) corresponding to this use, if found. */
 	anchor: Element | null;
+	/** Location of the use in the wikitext, or null if it was only found in the DOM. */
+	span: SourceSpan | null;
+	/** Set on uses that render no footnote marker of their own: {{harvnb}} links to a shortened-footnote anchor. */
+	noMarker?: boolean;
 }
 
+/**
+ * Syntax family a reference was written in: a plain `<ref>`, a footnote template
+ * ({{efn}}, {{refn}}), or a shortened-footnote anchor cited by {{sfn}}/{{harvnb}}.
+ */
+export type ReferenceKind = 'ref' | 'efn' | 'refn' | 'sfn' | 'harvnb';
+
 /**
  * Represents a citation reference extracted from wikitext.
  */
@@ -18,10 +40,22 @@ export interface Reference {
 	name: string | null;
 	/** The `group` attribute of the ref tag, or null if not grouped. */
 	group: string | null;
+	/** Syntax family of the reference; sfn/harvnb entries are keyed by their CITEREF anchor. */
+	kind: ReferenceKind;
 	/** The wikitext content inside the ref tag. */
 	contentWikitext: string;
 	/** All uses (invocations) of this reference in the document. */
 	uses: ReferenceUse[];
+	/** Location of the definition that supplied `contentWikitext`, or null if none was found. */
+	definition: SourceSpan | null;
+	/** Whether the content can be edited in the page source; absent means it can. */
+	editable?: boolean;
+	/** Template whose transclusion emitted a reference that is not editable in the page source. */
+	sourceTemplate?: string | null;
+	/** For sub-references (`<ref extends="book">` or `<ref name="book" details="…" />`), the ID of the reference extended. */
+	parent?: string;
+	/** IDs of the sub-references extending this reference. */
+	children?: string[];
 }
 
 /**
@@ -34,6 +68,38 @@ export interface PendingChange {
 	oldName: string;
 	/** New name after the change. */
 	newName: string;
+	/** Definition body before the change, when the body was edited. */
+	oldContent?: string;
+	/** Definition body after the change, when the body was edited. */
+	newContent?: string;
+}
+
+/**
+ * A split of a reference being set up in the panel.
+ */
+export interface SplitDraft {
+	/** ID of the reference being split. */
+	refId: string;
+	/** Indexes of the uses to move to the new reference. */
+	uses: number[];
+	/** Name of the new reference. */
+	newName: string;
+	/** Page for the new copy; left unchanged when empty. */
+	page: string;
+}
+
+/**
+ * An edit of a reference's citation being made in the panel.
+ */
+export interface CitationDraft {
+	/** ID of the reference being edited. */
+	refId: string;
+	/** Cite template name as written, or null when the body has none and is edited as text. */
+	template: string | null;
+	/** Fields of the cite template, empty when there is none. */
+	fields: CitationField[];
+	/** Body text, edited directly when it has no cite template. */
+	body: string;
 }
 
 /**
@@ -51,9 +117,14 @@ export interface InspectorState {
 		showInUserNs: boolean;
 		placementMode: 'keep' | 'all_inline' | 'all_ldr' | 'threshold';
 		minUsesForLdr: number;
+		ldrOrder: LdrOrder;
 		useTemplateR: boolean;
+		locatorStyle: 'keep' | LocatorStyle;
 		makeCopies: boolean;
+		fuzzyDedupe: boolean;
 		normalizeAll: boolean;
+		migrateParams: boolean;
+		normalizeDates: boolean;
 	};
 	showSettings: boolean;
 	minHeight: number;
@@ -62,6 +133,20 @@ export interface InspectorState {
 	editingRefId: string | null;
 	/** Whether the on-page checks overlay is active. */
 	checksOn: boolean;
+	/** Group shown in the list: a group name, or a sentinel for all groups or the default group. */
+	groupFilter: string;
+	/** Operations of the last dry run, listed for review before the diff opens; empty when not reviewing. */
+	reviewOperations: TransformOperation[];
+	/** IDs of the reviewed operations to apply. */
+	acceptedOperations: string[];
+	/** Splits queued for the next save. */
+	pendingSplits: RefSplit[];
+	/** Split being set up, or null when the split form is closed. */
+	splitDraft: SplitDraft | null;
+	/** Citation edit being made, or null when the edit form is closed. */
+	citationDraft: CitationDraft | null;
+	/** Whether bare-URL refs are being looked up and turned into citations. */
+	citingBareUrls: boolean;
 }
 
 /**
@@ -71,8 +156,12 @@ export type InspectorCtx = InspectorState & {
 	sortedRefs: Reference[];
 	filteredRefs: Reference[];
 	firstByBucket: Record<string, string>;
+	anchorIds: Record<string, string>;
+	groupNames: Array<string | null>;
+	showGroupSections: boolean;
 	hasPendingChanges: boolean;
 	hasRefs: boolean;
 	nameConflicts: Set<string>;
 	hasConflicts: boolean;
+	bareUrlRefs: Reference[];
 };
@@ -1,4 +1,4 @@
-import { Reference, InspectorState, InspectorCtx } from '../types';
+import { Reference, ReferenceUse, InspectorState, InspectorCtx, PendingChange } from '../types';
 import {
 	createDialogMountIfNeeded,
 	getMountedApp,
@@ -9,11 +9,28 @@ import {
 	ensureStyleElement
 } from './codex';
 import { getSettings, namespaceAllowed, saveSettings, settingsToTransformOptions } from './settings';
-import { getWikitext } from '../data/wikitext_fetch';
+import { EditSection, getEditSection, getRevisionTimestamp, getWikitext } from '../data/wikitext_fetch';
 import { openDiffPreview } from '../data/diff_preview';
 import { initCitationPopup } from './citations';
-import { formatCopy, groupKey, transformWikitext } from '../core/references';
-import { prefetchTemplateDataForWikitext } from '../data/templatedata_fetch';
+import {
+	LdrOrder,
+	RefEdit,
+	TransformOptions,
+	canRename,
+	findCiteTemplate,
+	formatCopy,
+	groupKey,
+	renameBlockReason,
+	summarizeOperations,
+	transformWikitext
+} from '../core/references';
+import { verifyTransform } from '../core/verify';
+import { CitationField, applyCitationFields, citationFieldError, citationFields, readCitation } from '../core/citation_model';
+import { LocatorStyle } from '../core/locators';
+import { citeBareUrl, findBareUrl } from '../core/bare_urls';
+import { detectDateStyle } from '../core/citation_dates';
+import { citoidResolver } from '../data/citoid_fetch';
+import { fetchTemplateDataOrder, prefetchTemplateDataForWikitext } from '../data/templatedata_fetch';
 import { openMassRenameDialog } from './mass_rename';
 import { disableChecks, enableChecks, isChecksActive } from './checks';
 import panelStyles from './panel.css';
@@ -28,10 +45,144 @@ const PANEL_SIZE_KEY = 'citeforge-panel-size';
 
 const safeGroupKey = (name: string | null | undefined): string => groupKey(name);
 const safeAlphaIndex = (char: string): number => alphaIndex(char);
-const safeFormatCopy = (name: string, fmt: 'raw' | 'r' | 'ref'): string => formatCopy(name, fmt);
+const safeFormatCopy = (name: string, fmt: 'raw' | 'r' | 'ref', group: string | null): string => formatCopy(name, fmt, group);
+
+/** Labels of change log operation kinds in the review list. */
+const OPERATION_LABELS: Record<string, string> = {
+	'rename': 'Rename',
+	'dedupe': 'Merge duplicate',
+	'split': 'Split',
+	'edit': 'Edit citation',
+	'move-inline': 'Move inline',
+	'move-ldr': 'Move to list',
+	'normalize': 'Normalize',
+	'collapse-r': 'Collapse into {{r}}',
+	'locator': 'Convert page pin',
+	'migrate': 'Update parameters',
+	'date': 'Format dates',
+	'reorder': 'Sort list'
+};
+
+/** Group filter values for "every group" and for refs without a group attribute. */
+const ALL_GROUPS = '__all__';
+const DEFAULT_GROUP = '__default__';
+
+/**
+ * Build the key under which a reference name must be unique. Names are scoped to their group.
+ * @param ref - Reference object.
+ * @returns Group-qualified name, or null for nameless refs.
+ */
+function conflictKey(ref: Reference): string | null {
+	const name = ref.name?.trim();
+	if (!name) return null;
+	return `${ref.group ?? ''}\u0000${name}`;
+}
+
+/**
+ * Order reference groups: the default group first, then named groups alphabetically.
+ * @param a - First group, or null for the default group.
+ * @param b - Second group, or null for the default group.
+ * @returns Sort comparison result.
+ */
+function compareGroups(a: string | null, b: string | null): number {
+	if (a === b) return 0;
+	if (a === null) return -1;
+	if (b === null) return 1;
+	return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+}
 
 let panelStylesInjected = false;
 
+/**
+ * Collect the page text and transform options for the pending changes.
+ * @param state - Inspector state holding settings and pending renames and edits.
+ * @returns Page wikitext, the edited section if any, and transform options scoped to it.
+ */
+async function prepareTransform(state: InspectorState): Promise<{ base: string; section: EditSection | null; options: TransformOptions }> {
+	const base = await getWikitext();
+	const section = await getEditSection();
+	const renameMap: Record<string, string | null> = {};
+	const renameNameless: Record<string, string | null> = {};
+	const edit: RefEdit[] = [];
+	state.pendingChanges.forEach((c) => {
+		if (c.newContent !== undefined) {
+			// Edits apply before renames, so they address the name as it is on the page
+			const group = state.refs.find((ref) => ref.id === c.refId)?.group ?? null;
+			edit.push({ name: c.oldName || c.refId, group, content: c.newContent });
+		}
+		if (c.newName && c.oldName !== c.newName) {
+			if (c.oldName) {
+				renameMap[c.oldName] = c.newName;
+			} else {
+				renameNameless[c.refId] = c.newName;
+			}
+		}
+	});
+
+	const options = settingsToTransformOptions(state.settings, renameMap, renameNameless);
+	if (options.normalizeAll || options.migrateParams) {
+		await prefetchTemplateDataForWikitext(base);
+	}
+	return { base, section, options: { ...options, split: state.pendingSplits, edit, section: section ?? undefined } };
+}
+
+/**
+ * Queue a new definition body for a reference, or take the queued one back when the body
+ * is the one on the page again. The reference shows the new body right away.
+ * @param state - Inspector state holding the queue.
+ * @param ref - Reference whose body changes.
+ * @param body - New body.
+ * @returns True when a body edit is queued.
+ */
+function queueBodyEdit(state: InspectorState, ref: Reference, body: string): boolean {
+	const current = ref.contentWikitext ?? '';
+	if (body === current) return false;
+	const pending = state.pendingChanges.find((c) => c.refId === ref.id);
+	const oldContent = pending?.oldContent ?? current;
+	ref.contentWikitext = body;
+	if (!pending) {
+		state.pendingChanges.push({ refId: ref.id, oldName: ref.name ?? '', newName: ref.name ?? '', oldContent, newContent: body });
+	} else if (body !== oldContent) {
+		pending.oldContent = oldContent;
+		pending.newContent = body;
+	} else {
+		// Edited back to the body on the page
+		delete pending.oldContent;
+		delete pending.newContent;
+		if (pending.newName === pending.oldName) state.pendingChanges.splice(state.pendingChanges.indexOf(pending), 1);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Take the rename out of a queued change, dropping the change unless it also edits the body.
+ * @param state - Inspector state holding the queue.
+ * @param pending - Queued change.
+ */
+function dropPendingRename(state: InspectorState, pending: PendingChange): void {
+	pending.newName = pending.oldName;
+	if (pending.newContent !== undefined) return;
+	const idx = state.pendingChanges.indexOf(pending);
+	if (idx >= 0) state.pendingChanges.splice(idx, 1);
+}
+
+/**
+ * Get the article text leading up to a use of a reference, to tell its uses apart.
+ * @param use - Reference use with its DOM anchor.
+ * @returns The last words before the footnote marker, or an empty string when it is not on the page.
+ */
+function useSnippet(use: ReferenceUse): string {
+	const marker = use.anchor?.closest('sup') ?? use.anchor;
+	const block = marker?.closest('p, li, dd, td, th, figcaption');
+	if (!marker || !block) return '';
+	const range = document.createRange();
+	range.setStart(block, 0);
+	range.setEndBefore(marker);
+	const text = range.toString().replace(/\[[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+	return text.length > 60 ? `…${text.slice(-60)}` : text;
+}
+
 /**
  * Inject panel styles into the document once.
  */
@@ -190,7 +341,14 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 				minHeight: 300,
 				pendingChanges: [],
 				editingRefId: null,
-				checksOn: false
+				checksOn: false,
+				groupFilter: ALL_GROUPS,
+				reviewOperations: [],
+				acceptedOperations: [],
+				pendingSplits: [],
+				splitDraft: null,
+				citationDraft: null,
+				citingBareUrls: false
 			};
 		},
 		computed: {
@@ -207,18 +365,25 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			 * @returns True if there are pending changes, false otherwise.
 			 */
 			hasPendingChanges(this: InspectorCtx): boolean {
-				return this.pendingChanges.length > 0;
+				return this.pendingChanges.length > 0 || this.pendingSplits.length > 0;
+			},
+
+			/**
+			 * Get the references whose body is only a URL.
+			 * @returns Editable references that can be turned into citations.
+			 */
+			bareUrlRefs(this: InspectorCtx): Reference[] {
+				return this.refs.filter((ref) => ref.kind === 'ref' && canRename(ref) && !ref.parent && findBareUrl(ref.contentWikitext ?? ''));
 			},
 
 			/**
-			 * Get a set of reference names that have conflicts (duplicates).
-			 * @returns Set of conflicting reference names.
+			 * Get a set of reference names that have conflicts (duplicates within one group).
+			 * @returns Set of conflicting group-qualified names.
 			 */
 			nameConflicts(this: InspectorCtx): Set<string> {
 				const counts = new Map<string, number>();
 				this.refs.forEach((ref) => {
-					if (!ref.name) return;
-					const key = ref.name.trim();
+					const key = conflictKey(ref);
 					if (!key) return;
 					counts.set(key, (counts.get(key) || 0) + 1);
 				});
@@ -263,28 +428,95 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			},
 
 			/**
-			 * Get the filtered and sorted list of references based on the search query.
-			 * @returns Array of filtered and sorted Reference objects.
+			 * Get options for the order of rebuilt reference lists.
+			 * @returns Array of label/value pairs for reflist order selection.
+			 */
+			ldrOrderOptions(): Array<{ label: string; value: LdrOrder }> {
+				return [
+					{ label: 'Alphabetical by name', value: 'name' },
+					{ label: 'Order of first use', value: 'first-use' },
+					{ label: 'Author and year', value: 'author-year' },
+					{ label: 'Keep existing, append new', value: 'preserve' }
+				];
+			},
+
+			/**
+			 * Get options for the form page pins are rewritten in.
+			 * @returns Array of label/value pairs for page pin style selection.
+			 */
+			locatorStyleOptions(): Array<{ label: string; value: 'keep' | LocatorStyle }> {
+				return [
+					{ label: 'Keep as is', value: 'keep' },
+					{ label: '<ref name="name" />{{rp|p=1}}', value: 'rp' },
+					{ label: '{{r|name|p=1}}', value: 'r' },
+					{ label: '<ref extends="name">p. 1</ref>', value: 'extends' }
+				];
+			},
+
+			/**
+			 * Get the reference groups present on the page.
+			 * @returns Groups in display order, with null for the default group.
+			 */
+			groupNames(this: InspectorCtx): Array<string | null> {
+				const groups = new Set<string | null>();
+				this.refs.forEach((ref) => groups.add(ref.group));
+				return Array.from(groups).sort(compareGroups);
+			},
+
+			/**
+			 * Get options for the group filter.
+			 * @returns Array of label/value pairs, starting with "All groups".
+			 */
+			groupOptions(this: InspectorCtx): Array<{ label: string; value: string }> {
+				return [
+					{ label: 'All groups', value: ALL_GROUPS },
+					...this.groupNames.map((group) => ({ label: group ?? 'Default group', value: group ?? DEFAULT_GROUP }))
+				];
+			},
+
+			/**
+			 * Check whether the list should be split into per-group sections.
+			 * @returns True when every group is shown and the page uses more than one.
+			 */
+			showGroupSections(this: InspectorCtx): boolean {
+				return this.groupFilter === ALL_GROUPS && this.groupNames.length > 1;
+			},
+
+			/**
+			 * Get the list of references sorted by group, then alphabetically by name.
+			 * Sub-references follow their parent, in page order.
+			 * @returns Array of sorted Reference objects.
 			 */
 			sortedRefs(this: InspectorCtx): Reference[] {
-				const arr = Array.isArray(this.refs) ? this.refs.slice() : [];
+				const all = Array.isArray(this.refs) ? this.refs : [];
+				const ids = new Set(all.map((ref) => ref.id));
+				const arr = all.filter((ref) => !ref.parent || !ids.has(ref.parent));
 				arr.sort((a, b) => {
+					const byGroup = compareGroups(a.group, b.group);
+					if (byGroup !== 0) return byGroup;
 					const ga = safeGroupKey(a.name);
 					const gb = safeGroupKey(b.name);
 					if (ga !== gb) return safeAlphaIndex(ga) - safeAlphaIndex(gb);
 					return (a.name || '').localeCompare(b.name || '', undefined, { sensitivity: 'base', numeric: true });
 				});
-				return arr;
+				return arr.reduce<Reference[]>((list, ref) => {
+					list.push(ref, ...all.filter((child) => child.parent === ref.id));
+					return list;
+				}, []);
 			},
 
 			/**
-			 * Get the list of references filtered by the current search query.
-			 * @returns Array of Reference objects matching the query.
+			 * Get the list of references filtered by the selected group and the search query.
+			 * @returns Array of Reference objects matching the filters.
 			 */
 			filteredRefs(this: InspectorCtx): Reference[] {
 				const q = (this.query || '').toLowerCase();
-				if (!q) return this.sortedRefs;
-				return this.sortedRefs.filter((ref) => {
+				const groupFilter = this.groupFilter;
+				const inGroup = groupFilter === ALL_GROUPS
+					? this.sortedRefs
+					: this.sortedRefs.filter((ref) => (ref.group ?? DEFAULT_GROUP) === groupFilter);
+				if (!q) return inGroup;
+				return inGroup.filter((ref) => {
 					const name = ref.name?.toLowerCase() || '';
 					const content = ref.contentWikitext?.toLowerCase() || '';
 					return name.includes(q) || content.includes(q);
@@ -304,18 +536,63 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 					}
 				});
 				return map;
+			},
+
+			/**
+			 * Get the index anchor element ID for the first reference of each bucket.
+			 * With group sections a letter recurs in every group; only its first row is anchored.
+			 * @returns Record mapping reference IDs to anchor element IDs.
+			 */
+			anchorIds(this: InspectorCtx): Record<string, string> {
+				const map: Record<string, string> = {};
+				const seen = new Set<string>();
+				this.filteredRefs.forEach((ref) => {
+					const bucket = safeGroupKey(ref.name);
+					if (seen.has(bucket)) return;
+					seen.add(bucket);
+					map[ref.id] = `citeforge-anchor-${bucket}`;
+				});
+				return map;
 			}
 		},
 		methods: {
 			/**
 			 * Get the display name of a reference.
 			 * @param ref - Reference object.
-			 * @returns The name of the reference or '(nameless)' if not named.
+			 * @returns The name of the reference, its CITEREF anchor for sfn/harvnb, or '(nameless)'.
 			 */
 			refName(this: InspectorCtx, ref: Reference): string {
+				if (ref.kind === 'sfn' || ref.kind === 'harvnb') return ref.id;
 				return ref?.name ?? '(nameless)';
 			},
 
+			/**
+			 * Check whether a reference can be renamed from the inspector.
+			 * @param ref - Reference object.
+			 * @returns False for sfn/harvnb anchors and refs defined by transcluded templates.
+			 */
+			canRename(this: InspectorCtx, ref: Reference): boolean {
+				return canRename(ref);
+			},
+
+			/**
+			 * Get the reason a reference cannot be renamed, for tooltips.
+			 * @param ref - Reference object.
+			 * @returns Reason text, or an empty string when renaming is allowed.
+			 */
+			renameBlockReason(this: InspectorCtx, ref: Reference): string {
+				return renameBlockReason(ref) ?? '';
+			},
+
+			/**
+			 * Describe where a transcluded reference comes from.
+			 * @param ref - Reference object.
+			 * @returns "from {{Template}}" when the template is known, otherwise "transcluded".
+			 */
+			sourceLabel(this: InspectorCtx, ref: Reference): string {
+				return ref.sourceTemplate ? `from {{${ref.sourceTemplate}}}` : 'transcluded';
+			},
+
 			/**
 			 * Get the number of uses for a reference.
 			 * @param ref - Reference object.
@@ -326,12 +603,22 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			},
 
 			/**
-			 * Get the grouping bucket for a reference based on its name.
-			 * @param ref - Reference object.
-			 * @returns The group key for the reference.
+			 * Check whether a group section heading goes before a row of the list.
+			 * @param idx - Row index in the filtered list.
+			 * @returns True for the first row of each group when sections are shown.
+			 */
+			startsGroupSection(this: InspectorCtx, idx: number): boolean {
+				if (!this.showGroupSections) return false;
+				return idx === 0 || this.filteredRefs[idx - 1].group !== this.filteredRefs[idx].group;
+			},
+
+			/**
+			 * Get the heading label for a reference group.
+			 * @param group - Group name, or null for the default group.
+			 * @returns Display label.
 			 */
-			bucketFor(this: InspectorCtx, ref: Reference): string {
-				return safeGroupKey(ref?.name);
+			groupLabel(this: InspectorCtx, group: string | null): string {
+				return group === null ? 'Default group' : `Group: ${group}`;
 			},
 
 			/**
@@ -426,7 +713,7 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			 * Open the mass rename dialog for bulk renaming references.
 			 */
 			openMassRename(this: InspectorCtx & { applyMassRename: (renameMap: Record<string, string | null>, renameNameless: Record<string, string | null>) => void }): void {
-				void openMassRenameDialog(this.refs, {
+				void openMassRenameDialog(this.refs.filter(canRename), {
 					onApply: (renameMap, renameNameless) => {
 						this.applyMassRename(renameMap, renameNameless);
 					}
@@ -464,9 +751,10 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			 * @returns True if there is a conflict, false otherwise.
 			 */
 			refHasConflict(this: InspectorCtx, ref: Reference): boolean {
-				if (!ref.name) return false;
+				const key = conflictKey(ref);
+				if (!key) return false;
 				const conflicts = this.nameConflicts;
-				return conflicts instanceof Set ? conflicts.has(ref.name.trim()) : false;
+				return conflicts instanceof Set ? conflicts.has(key) : false;
 			},
 
 			/**
@@ -477,7 +765,7 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 				if (!targetRef) return;
 				const name = targetRef.name || '';
 				if (!name) return;
-				const formatted = safeFormatCopy(name, this.settings.copyFormat);
+				const formatted = safeFormatCopy(name, this.settings.copyFormat, targetRef.group);
 				void navigator.clipboard?.writeText(formatted).catch(() => {
 					/* ignore */
 				});
@@ -505,6 +793,184 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 				showCopiedBadge(targetRef);
 			},
 
+			/**
+			 * Check whether some uses of a reference can be split off onto a copy.
+			 * @param ref - Reference object.
+			 * @returns True for editable named refs with more than one use.
+			 */
+			canSplit(this: InspectorCtx, ref: Reference): boolean {
+				return canRename(ref) && Boolean(ref.name) && !ref.parent && ref.uses.length > 1;
+			},
+
+			/**
+			 * Open the split form for a reference.
+			 * @param ref - Reference to split.
+			 */
+			startSplit(this: InspectorCtx, ref: Reference): void {
+				this.splitDraft = { refId: ref.id, uses: [], newName: '', page: '' };
+			},
+
+			/**
+			 * Get the reference the split form is open for.
+			 * @returns The reference, or null when the form is closed.
+			 */
+			splitTarget(this: InspectorCtx): Reference | null {
+				const draft = this.splitDraft;
+				return draft ? this.refs.find((ref) => ref.id === draft.refId) ?? null : null;
+			},
+
+			/**
+			 * Describe a use of a reference in the split form.
+			 * @param use - Reference use.
+			 * @returns Use number followed by the text leading up to it.
+			 */
+			useLabel(use: ReferenceUse): string {
+				const snippet = useSnippet(use);
+				return snippet ? `${use.index + 1}. ${snippet}` : `Use ${use.index + 1}`;
+			},
+
+			/**
+			 * Queue the split set up in the form for the next save.
+			 */
+			queueSplit(this: InspectorCtx & { splitTarget: () => Reference | null }): void {
+				const draft = this.splitDraft;
+				const ref = this.splitTarget();
+				if (!draft || !ref) return;
+				const newName = draft.newName.trim();
+				const group = ref.group ?? null;
+				const taken = this.refs.some((other) => (other.group ?? null) === group && other.name === newName)
+					|| this.pendingSplits.some((split) => (split.group ?? null) === group && split.newName === newName);
+				if (!newName || taken) {
+					mw.notify?.(newName ? `The name "${newName}" is already used.` : 'Enter a name for the new reference.', { type: 'error', title: 'Cite Forge' });
+					return;
+				}
+				if (!draft.uses.length || draft.uses.length === ref.uses.length) {
+					mw.notify?.('Choose some, but not all, of the uses to split off.', { type: 'error', title: 'Cite Forge' });
+					return;
+				}
+				// Splits apply before renames, so they address the name as it is on the page
+				const name = this.pendingChanges.find((c) => c.refId === ref.id)?.oldName || ref.name || '';
+				const page = draft.page.trim();
+				this.pendingSplits.push({ name, group, uses: draft.uses.slice().sort((a, b) => a - b), newName, ...(page ? { page } : {}) });
+				this.splitDraft = null;
+			},
+
+			/**
+			 * Close the split form without queueing a split.
+			 */
+			cancelSplit(this: InspectorCtx): void {
+				this.splitDraft = null;
+			},
+
+			/**
+			 * Check whether the citation of a reference can be edited from the inspector.
+			 * @param ref - Reference object.
+			 * @returns True for editable refs with a body, other than sub-references.
+			 */
+			canEditCitation(this: InspectorCtx, ref: Reference): boolean {
+				return canRename(ref) && !ref.parent && Boolean(ref.contentWikitext?.trim());
+			},
+
+			/**
+			 * Open the edit form for the citation of a reference. The fields of its cite template
+			 * are listed from TemplateData; a body without one is edited as text.
+			 * @param ref - Reference to edit.
+			 */
+			async startCitationEdit(this: InspectorCtx, ref: Reference): Promise<void> {
+				const body = ref.contentWikitext ?? '';
+				const span = findCiteTemplate(body);
+				const template = span ? readCitation(body.slice(span.start, span.end))?.template ?? null : null;
+				if (template) await fetchTemplateDataOrder(template);
+				// Read again now that the template's params are known
+				const citation = span ? readCitation(body.slice(span.start, span.end)) : null;
+				this.citationDraft = { refId: ref.id, template, fields: citation ? citationFields(citation) : [], body };
+			},
+
+			/**
+			 * Get the reference the citation form is open for.
+			 * @returns The reference, or null when the form is closed.
+			 */
+			citationTarget(this: InspectorCtx): Reference | null {
+				const draft = this.citationDraft;
+				return draft ? this.refs.find((ref) => ref.id === draft.refId) ?? null : null;
+			},
+
+			/**
+			 * Get the label of a citation form field.
+			 * @param field - Field.
+			 * @returns Param name, marked when required or deprecated.
+			 */
+			fieldLabel(field: CitationField): string {
+				if (field.deprecated) return `${field.key} (deprecated)`;
+				return field.required ? `${field.key} *` : field.key;
+			},
+
+			/**
+			 * Get the problem with the value of a citation form field.
+			 * @param field - Field.
+			 * @returns Message, or an empty string when the value is fine.
+			 */
+			fieldError(field: CitationField): string {
+				return citationFieldError(field) ?? '';
+			},
+
+			/**
+			 * Queue the body written in the citation form for the next save.
+			 */
+			queueCitationEdit(this: InspectorCtx & { citationTarget: () => Reference | null }): void {
+				const draft = this.citationDraft;
+				const ref = this.citationTarget();
+				if (!draft || !ref) return;
+				if (draft.fields.some((field) => citationFieldError(field))) {
+					mw.notify?.('Fix the highlighted fields first.', { type: 'error', title: 'Cite Forge' });
+					return;
+				}
+				const current = ref.contentWikitext ?? '';
+				const span = findCiteTemplate(current);
+				const citation = draft.template && span ? readCitation(current.slice(span.start, span.end)) : null;
+				const body = citation && span
+					? `${current.slice(0, span.start)}${applyCitationFields(citation, draft.fields).raw}${current.slice(span.end)}`
+					: draft.body;
+				this.citationDraft = null;
+				if (body.trim()) queueBodyEdit(this, ref, body);
+			},
+
+			/**
+			 * Turn every reference whose body is only a URL into a {{cite web}}, looking the
+			 * URLs up with Citoid. The new bodies are queued like citation edits, dated with the
+			 * timestamp of the revision being edited.
+			 */
+			async citeBareUrls(this: InspectorCtx): Promise<void> {
+				const refs = this.bareUrlRefs;
+				if (!refs.length || this.citingBareUrls) return;
+				this.citingBareUrls = true;
+				try {
+					const [wikitext, timestamp] = await Promise.all([getWikitext(), getRevisionTimestamp()]);
+					const options = { accessDate: timestamp ?? new Date(), dateStyle: detectDateStyle(wikitext), resolve: citoidResolver };
+					let queued = 0;
+					let untitled = 0;
+					for (const ref of refs) {
+						const body = await citeBareUrl(ref.contentWikitext ?? '', options);
+						if (!body) untitled++;
+						else if (queueBodyEdit(this, ref, body)) queued++;
+					}
+					const left = untitled ? ` ${untitled} left bare: no title was found.` : '';
+					mw.notify?.(`Queued ${queued} bare URL${queued === 1 ? '' : 's'} as citations.${left} Review them before saving.`, { title: 'Cite Forge' });
+				} catch (err: unknown) {
+					console.error('[Cite Forge] Failed to cite bare URLs', err);
+					mw.notify?.('Cite Forge could not cite the bare URLs. Please try again.', { type: 'error' });
+				} finally {
+					this.citingBareUrls = false;
+				}
+			},
+
+			/**
+			 * Close the citation form without queueing an edit.
+			 */
+			cancelCitationEdit(this: InspectorCtx): void {
+				this.citationDraft = null;
+			},
+
 			/**
 			 * Begin editing the name of a reference.
 			 * Focuses the input field for immediate typing.
@@ -540,14 +1006,20 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			 * @param newName - The new name to set.
 			 */
 			commitRefName(this: InspectorCtx, ref: Reference, newName: string): void {
+				const blocked = renameBlockReason(ref);
+				if (blocked) {
+					this.editingRefId = null;
+					mw.notify?.(blocked, { type: 'warn', title: 'Cite Forge' });
+					return;
+				}
 				const nextName = newName.trim();
 				const oldName = this.pendingChanges.find((c) => c.refId === ref.id)?.oldName ?? ref.name ?? '';
 				this.editingRefId = null;
 				if (nextName === oldName) {
 					// Reverted to original - remove from queue if exists
-					const idx = this.pendingChanges.findIndex((c) => c.refId === ref.id);
-					if (idx >= 0) {
-						this.pendingChanges.splice(idx, 1);
+					const pending = this.pendingChanges.find((c) => c.refId === ref.id);
+					if (pending) {
+						dropPendingRename(this, pending);
 						ref.name = oldName;
 					}
 					return;
@@ -572,8 +1044,7 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 				const pending = this.pendingChanges.find((c) => c.refId === ref.id);
 				if (pending) {
 					ref.name = pending.oldName;
-					const idx = this.pendingChanges.indexOf(pending);
-					this.pendingChanges.splice(idx, 1);
+					dropPendingRename(this, pending);
 				}
 				this.editingRefId = null;
 			},
@@ -593,10 +1064,7 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 					const existing = this.pendingChanges.find((c) => c.refId === ref.id);
 					const originalName = existing ? existing.oldName : currentName;
 					if (proposed === originalName) {
-						if (existing) {
-							const idx = this.pendingChanges.indexOf(existing);
-							if (idx >= 0) this.pendingChanges.splice(idx, 1);
-						}
+						if (existing) dropPendingRename(this, existing);
 						ref.name = originalName;
 						return;
 					}
@@ -607,7 +1075,7 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 						this.pendingChanges.push({ refId: ref.id, oldName: originalName, newName: proposed });
 					}
 				});
-				if (!this.pendingChanges.length) {
+				if (!this.pendingChanges.some((c) => c.newName !== c.oldName)) {
 					mw.notify?.('No rename changes were added from mass rename.', { type: 'info', title: 'Cite Forge' });
 				} else {
 					mw.notify?.('Mass rename populated pending changes. Review and save to preview diffs.', {
@@ -625,46 +1093,68 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 			},
 
 			/**
-			 * Save all pending changes and open a diff preview.
+			 * Dry-run all pending changes and list the resulting operations for review.
 			 * Validates for conflicts before proceeding.
 			 */
-			async saveChanges(this: InspectorCtx): Promise<void> {
+			async saveChanges(this: InspectorCtx & { applyReviewedChanges: () => Promise<void> }): Promise<void> {
 				if (this.hasConflicts) {
 					mw.notify?.('Resolve duplicate reference names before saving.', { type: 'error', title: 'Cite Forge' });
 					return;
 				}
-				if (!this.pendingChanges.length) {
+				if (!this.hasPendingChanges) {
 					mw.notify?.('No pending Cite Forge changes to apply.', { type: 'info' });
 					return;
 				}
 				try {
-					const base = await getWikitext();
-					const renameMap: Record<string, string | null> = {};
-					const renameNameless: Record<string, string | null> = {};
-					this.pendingChanges.forEach((c) => {
-						if (c.newName && c.oldName !== c.newName) {
-							if (c.oldName) {
-								renameMap[c.oldName] = c.newName;
-							} else {
-								renameNameless[c.refId] = c.newName;
-							}
-						}
-					});
-
-					const transformOpts = settingsToTransformOptions(this.settings, renameMap, renameNameless);
-
-					if (transformOpts.normalizeAll) {
-						await prefetchTemplateDataForWikitext(base);
+					const { base, options } = await prepareTransform(this);
+					const operations = summarizeOperations(transformWikitext(base, options).changeLog);
+					this.acceptedOperations = operations.map((operation) => operation.id);
+					if (!operations.length) {
+						await this.applyReviewedChanges();
+						return;
 					}
+					this.reviewOperations = operations;
+				} catch (err: unknown) {
+					console.error('[Cite Forge] Failed to apply changes', err);
+					mw.notify?.('Cite Forge could not prepare the diff. Please try again.', { type: 'error' });
+				}
+			},
 
-					const result = transformWikitext(base, transformOpts);
+			/**
+			 * Recompute the changes with only the accepted operations and open a diff preview.
+			 */
+			async applyReviewedChanges(this: InspectorCtx): Promise<void> {
+				const reject = this.reviewOperations
+					.filter((operation) => !this.acceptedOperations.includes(operation.id))
+					.map((operation) => operation.id);
+				this.reviewOperations = [];
+				try {
+					const { base, section, options } = await prepareTransform(this);
+					const result = transformWikitext(base, { ...options, reject });
+					// A section edit can only submit its own text; changes elsewhere come back as warnings
+					const output = section ? result.sectionText ?? '' : result.wikitext;
+					const original = section ? base.slice(section.start, section.end) : base;
+					result.warnings.forEach((warning) => {
+						mw.notify?.(warning, { type: 'warn', title: 'Cite Forge' });
+					});
 
-					if (result.wikitext === base) {
+					if (output === original) {
 						mw.notify?.('No changes were generated.', { type: 'info' });
 						return;
 					}
 
-					openDiffPreview(result.wikitext, 'Cite Forge: reference adjustments');
+					const page = section ? base.slice(0, section.start) + output + base.slice(section.end) : output;
+					const report = verifyTransform(base, page, result.changes);
+					if (!report.ok) {
+						console.warn('[Cite Forge] Transform failed verification', report.issues);
+						mw.notify?.(`The changes would break citations, so no diff was opened. ${report.issues.map((issue) => issue.message).join(' ')}`, {
+							type: 'error',
+							title: 'Cite Forge'
+						});
+						return;
+					}
+
+					openDiffPreview(output, 'Cite Forge: reference adjustments', section ? section.index : null);
 					mw.notify?.('Opening diff view in a new tab...', { type: 'info' });
 				} catch (err: unknown) {
 					console.error('[Cite Forge] Failed to apply changes', err);
@@ -672,6 +1162,22 @@ export async function openInspectorDialog(refs: Reference[], refreshFn?: () => P
 				}
 			},
 
+			/**
+			 * Close the operation review without opening a diff.
+			 */
+			cancelReview(this: InspectorCtx): void {
+				this.reviewOperations = [];
+			},
+
+			/**
+			 * Get the label of a change log operation kind.
+			 * @param op - Operation kind.
+			 * @returns Short label.
+			 */
+			operationLabel(op: string): string {
+				return OPERATION_LABELS[op] ?? op;
+			},
+
 			/**
 			 * Save the current settings and close the settings panel.
 			 */
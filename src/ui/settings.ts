@@ -1,4 +1,5 @@
-import { TransformOptions } from "../core/references";
+import { LdrOrder, TransformOptions } from "../core/references";
+import { LocatorStyle } from "../core/locators";
 
 /** User-configurable settings for Cite Forge. */
 export type Settings = {
@@ -12,12 +13,22 @@ export type Settings = {
 	placementMode: 'keep' | 'all_inline' | 'all_ldr' | 'threshold';
 	/** Threshold for LDR placement when placementMode is threshold. */
 	minUsesForLdr: number;
+	/** Order of the entries of rebuilt reference lists. */
+	ldrOrder: LdrOrder;
 	/** Prefer {{r}} for uses when possible. */
 	useTemplateR: boolean;
+	/** Form to rewrite page pins in, or keep them as written. */
+	locatorStyle: 'keep' | LocatorStyle;
 	/** Do not dedupe identical refs; keep separate copies. */
 	makeCopies: boolean;
+	/** Also merge near-identical refs that cite the same source. */
+	fuzzyDedupe: boolean;
 	/** Normalize generated ref markup (trim/compact whitespace). */
 	normalizeAll: boolean;
+	/** Rewrite retired and aliased cite template params under their canonical names. */
+	migrateParams: boolean;
+	/** Rewrite citation dates in the format the page's {{Use dmy dates}} or {{Use mdy dates}} asks for. */
+	normalizeDates: boolean;
 };
 
 const SETTINGS_KEY = 'citeforge-settings';
@@ -30,9 +41,14 @@ const DEFAULT_SETTINGS: Settings = {
 	showInUserNs: true,
 	placementMode: 'keep',
 	minUsesForLdr: 2,
+	ldrOrder: 'name',
 	useTemplateR: false,
+	locatorStyle: 'keep',
 	makeCopies: false,
-	normalizeAll: false
+	fuzzyDedupe: false,
+	normalizeAll: false,
+	migrateParams: false,
+	normalizeDates: false
 };
 
 /**
@@ -100,16 +116,19 @@ export function settingsToTransformOptions(
 		const minUses = Math.max(1, Number(settings.minUsesForLdr) || 1);
 		return { minUsesForLdr: minUses };
 	})();
-	const sortRefs = placementMode === 'all_ldr' || typeof placementMode === 'object';
 
 	return {
 		renameMap,
 		renameNameless,
-		sortRefs,
+		ldrOrder: settings.ldrOrder,
 		useTemplateR: Boolean(settings.useTemplateR),
+		locatorStyle: settings.locatorStyle === 'keep' ? undefined : settings.locatorStyle,
 		locationMode: placementMode,
 		dedupe: !settings.makeCopies,
-		normalizeAll: Boolean(settings.normalizeAll)
+		fuzzyDedupe: settings.fuzzyDedupe ? {} : undefined,
+		normalizeAll: Boolean(settings.normalizeAll),
+		migrateParams: Boolean(settings.migrateParams),
+		normalizeDates: Boolean(settings.normalizeDates)
 	};
 }
 
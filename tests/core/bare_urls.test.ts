@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { UrlMetadata, citeBareUrl, findBareUrl } from '../../src/core/bare_urls';
+import { RefEdit, parseReferences, transformWikitext } from '../../src/core/references';
+import { verifyTransform } from '../../src/core/verify';
+
+const accessDate = new Date(Date.UTC(2024, 4, 6, 12));
+
+const stub = (known: Record<string, UrlMetadata>) => (url: string): Promise<UrlMetadata | null> => Promise.resolve(known[url] ?? null);
+
+describe('findBareUrl', () => {
+	it('reads bodies that are only a URL or a bracketed link', () => {
+		expect(findBareUrl(' https://www.example.org/a?b=1 ')).toEqual({ url: 'https://www.example.org/a?b=1', label: null });
+		expect(findBareUrl('[https://example.org/a A page]')).toEqual({ url: 'https://example.org/a', label: 'A page' });
+		expect(findBareUrl('[//example.org/a]')).toEqual({ url: '//example.org/a', label: null });
+		expect(findBareUrl('See https://example.org/a')).toBeNull();
+		expect(findBareUrl('{{cite web|url=https://example.org}}')).toBeNull();
+	});
+});
+
+describe('citeBareUrl', () => {
+	it('writes a link label as the title, and leaves untitled URLs bare', async () => {
+		expect(await citeBareUrl('https://www.example.org/a', { accessDate })).toBeNull();
+		expect(await citeBareUrl('[https://news.example.com/x Some | story]', { accessDate, dateStyle: { order: 'mdy', publication: 'long', access: 'long' } }))
+			.toBe('{{cite web |url=https://news.example.com/x |title=Some {{!}} story |website=example.com |access-date=May 6, 2024}}');
+		expect(await citeBareUrl('[//example.org/a A page]', { accessDate }))
+			.toBe('{{cite web |url=https://example.org/a |title=A page |website=example.org |access-date=2024-05-06}}');
+	});
+
+	it('fills what the resolver knows and survives a failed lookup', async () => {
+		const resolve = stub({
+			'https://example.org/a': { title: 'A [draft]', authors: [{ last: 'Doe', first: 'Jane' }], date: '2020-02-03', website: 'Example' }
+		});
+		expect(await citeBareUrl('https://example.org/a', { accessDate, resolve, dateStyle: { order: 'dmy', publication: 'long', access: 'iso' } }))
+			.toBe('{{cite web |url=https://example.org/a |title=A &#91;draft&#93; |last=Doe |first=Jane |date=3 February 2020 |website=Example |access-date=2024-05-06}}');
+		const failing = (): Promise<UrlMetadata | null> => Promise.reject(new Error('offline'));
+		expect(await citeBareUrl('[https://example.org/b B]', { accessDate, resolve: failing }))
+			.toBe('{{cite web |url=https://example.org/b |title=B |website=example.org |access-date=2024-05-06}}');
+		expect(await citeBareUrl('https://example.org/b', { accessDate, resolve: failing })).toBeNull();
+	});
+});
+
+describe('citing bare URLs through the transform', () => {
+	it('applies a body edit for every bare-URL ref with a title', async () => {
+		const text = 'A<ref name="a">https://example.org/a</ref> B<ref>[https://example.net/b B]</ref> C<ref name="c">Book.</ref> D<ref>https://example.com/d</ref>';
+		const resolve = stub({ 'https://example.org/a': { title: 'A' } });
+		// As the panel does: one queued body edit per ref, addressed by name or, when nameless, by ID
+		const edits: RefEdit[] = [];
+		for (const ref of parseReferences(text).filter((candidate) => findBareUrl(candidate.contentWikitext ?? ''))) {
+			const body = await citeBareUrl(ref.contentWikitext, { accessDate, resolve });
+			if (body) edits.push({ name: ref.name || ref.id, group: ref.group, content: body });
+		}
+		expect(edits.map((edit) => edit.name)).toEqual(['a', '__nameless_0']);
+
+		const result = transformWikitext(text, { edit: edits });
+		expect(result.wikitext).toBe('A<ref name="a">{{cite web |url=https://example.org/a |title=A |website=example.org |access-date=2024-05-06}}</ref>'
+			+ ' B<ref>{{cite web |url=https://example.net/b |title=B |website=example.net |access-date=2024-05-06}}</ref> C<ref name="c">Book.</ref>'
+			+ ' D<ref>https://example.com/d</ref>');
+		expect(result.changes.edited).toEqual(['a', '__nameless_0']);
+		expect(verifyTransform(text, result.wikitext, result.changes).ok).toBe(true);
+	});
+});
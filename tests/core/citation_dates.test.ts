@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { detectDateStyle, formatCitationDate, normalizeCitationDates, parseCitationDate } from '../../src/core/citation_dates';
+import { readCitation } from '../../src/core/citation_model';
+
+describe('detectDateStyle', () => {
+	it('reads the order and the cs1-dates forms', () => {
+		expect(detectDateStyle('{{Use dmy dates|date=May 2020}}\nText')).toEqual({ order: 'dmy', publication: 'long', access: 'long' });
+		expect(detectDateStyle('{{use mdy dates|cs1-dates=ly}}')).toEqual({ order: 'mdy', publication: 'long', access: 'iso' });
+		expect(detectDateStyle('{{Use DMY dates|cs1-dates=s}}')).toEqual({ order: 'dmy', publication: 'short', access: 'short' });
+		expect(detectDateStyle('<!-- {{Use mdy dates}} -->{{dmy}}')?.order).toBe('dmy');
+		expect(detectDateStyle('{{Use British English}}')).toBeNull();
+	});
+});
+
+describe('parseCitationDate', () => {
+	it('reads full dates and month-years in the usual forms', () => {
+		['2020-05-06', '6 May 2020', 'May 6, 2020', 'May 6 2020', '06 May, 2020', '2020年5月6日', '２０２０年５月６日', '13/5/2020', '5/13/2020']
+			.forEach((value) => expect(parseCitationDate(value), value).toMatchObject({ year: 2020, month: 5 }));
+		expect(parseCitationDate('Sept. 2019')).toEqual({ year: 2019, month: 9, day: null });
+	});
+
+	it('tells ambiguous dates from ones that are not dates', () => {
+		expect(parseCitationDate('6/5/2020')).toBe('ambiguous');
+		expect(parseCitationDate('5.5.2020')).toEqual({ year: 2020, month: 5, day: 5 });
+		['2020', '6–8 May 2020', 'Spring 2010', '31 February 2020', '6 Mai 2020', '{{date|x}}']
+			.forEach((value) => expect(parseCitationDate(value), value).toBeNull());
+	});
+
+	it('writes dates in each form', () => {
+		const date = { year: 2020, month: 9, day: 6 };
+		expect(formatCitationDate(date, 'dmy', 'long')).toBe('6 September 2020');
+		expect(formatCitationDate(date, 'mdy', 'short')).toBe('Sep 6, 2020');
+		expect(formatCitationDate(date, 'mdy', 'iso')).toBe('2020-09-06');
+		expect(formatCitationDate({ ...date, day: null }, 'dmy', 'iso')).toBe('September 2020');
+	});
+});
+
+describe('normalizeCitationDates', () => {
+	it('rewrites the date params in place and lists the ambiguous ones', () => {
+		const citation = readCitation('{{cite web\n| date = 2020-05-06 <!-- print -->\n| accessdate = 6/5/2021\n| archive-date = 3 July 2022\n| title = 2020-05-06\n}}')!;
+		const result = normalizeCitationDates(citation, { order: 'mdy', publication: 'long', access: 'iso' });
+		expect(result.citation.raw).toBe('{{cite web\n| date = May 6, 2020 <!-- print -->\n| accessdate = 6/5/2021\n| archive-date = 2022-07-03\n| title = 2020-05-06\n}}');
+		expect(result.rewrites).toEqual([
+			{ param: 'date', from: '2020-05-06', to: 'May 6, 2020' },
+			{ param: 'archive-date', from: '3 July 2022', to: '2022-07-03' }
+		]);
+		expect(result.ambiguous).toEqual([{ param: 'accessdate', value: '6/5/2021' }]);
+	});
+});
@@ -0,0 +1,167 @@
+import { beforeAll, afterAll, describe, it, expect, vi } from 'vitest';
+import {
+	applyCitationFields,
+	checkCitation,
+	citationFieldError,
+	citationFields,
+	getCitationParam,
+	isValidCitationValue,
+	migrateCitation,
+	readCitation,
+	removeCitationParam,
+	setCitationParam
+} from '../../src/core/citation_model';
+import { fetchTemplateDataOrder, getTemplateParamSpecs } from '../../src/data/templatedata_fetch';
+
+const templateData = {
+	pages: {
+		1: {
+			paramOrder: ['title', 'url', 'date', 'access-date', 'author-link', 'volume', 'deadurl'],
+			params: {
+				'title': { type: 'string', required: true },
+				'url': { type: 'url', required: true },
+				'date': { type: 'date', suggested: true },
+				'access-date': { type: 'date', aliases: ['accessdate'] },
+				'author-link': { type: 'wiki-page-name', aliases: ['authorlink'] },
+				'volume': { type: 'number' },
+				'deadurl': { type: 'string', deprecated: 'Use url-status' }
+			}
+		}
+	}
+};
+
+const read = (raw: string) => readCitation(raw)!;
+
+beforeAll(async () => {
+	vi.stubGlobal('mw', {
+		Api: class {
+			get(): Promise<unknown> {
+				return Promise.resolve(templateData);
+			}
+		}
+	});
+	await fetchTemplateDataOrder('Cite web');
+});
+
+afterAll(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('readCitation', () => {
+	it('keeps the param types, flags and aliases from TemplateData', () => {
+		expect(getTemplateParamSpecs('cite web')['access-date']).toEqual({
+			name: 'access-date', type: 'date', required: false, suggested: false, deprecated: false, aliases: ['accessdate']
+		});
+		expect(getTemplateParamSpecs('cite web').deadurl.deprecated).toBe(true);
+	});
+
+	it('resolves aliases to their canonical names', () => {
+		const citation = read('{{cite web |title=T |AccessDate=2020-01-02 |foo=x}}');
+		expect(citation.params.map((param) => [param.key, param.name, param.spec?.type ?? null])).toEqual([
+			['title', 'title', 'string'],
+			['AccessDate', 'access-date', 'date'],
+			['foo', 'foo', null]
+		]);
+		expect(getCitationParam(citation, 'access-date')).toBe('2020-01-02');
+		expect(getCitationParam(citation, 'url')).toBeUndefined();
+		expect(readCitation('plain text')).toBeNull();
+	});
+});
+
+describe('editing citations', () => {
+	it('edits a value in place under the name it is written as', () => {
+		const raw = '{{cite web\n| title = T\n| accessdate = 2020-01-02 <!-- checked -->\n}}';
+		const citation = setCitationParam(read(raw), 'access-date', new Date(Date.UTC(2024, 4, 6)));
+		expect(citation.raw).toBe('{{cite web\n| title = T\n| accessdate = 2024-05-06 <!-- checked -->\n}}');
+		expect(setCitationParam(citation, 'title', 'T')).toBe(citation);
+	});
+
+	it('adds missing params laid out like the last one', () => {
+		expect(setCitationParam(read('{{cite web |title=T}}'), 'volume', 3).raw).toBe('{{cite web |title=T |volume=3}}');
+		expect(setCitationParam(read('{{cite web\n| title = T\n}}'), 'url', 'https://a.org').raw)
+			.toBe('{{cite web\n| title = T\n| url = https://a.org\n}}');
+	});
+
+	it('collapses and removes every copy of a param', () => {
+		const raw = '{{cite web|accessdate=|title=T|access-date=2020-01-02}}';
+		expect(setCitationParam(read(raw), 'accessdate', '2021-03-04').raw).toBe('{{cite web|title=T|access-date=2021-03-04}}');
+		expect(removeCitationParam(read(raw), 'access-date').raw).toBe('{{cite web|title=T}}');
+	});
+});
+
+describe('checkCitation', () => {
+	it('reports missing, deprecated, unknown, repeated and mistyped params', () => {
+		const citation = read('{{cite web|title=T|deadurl=no|date=Chapter 3|accessdate=x|access-date=2020-01-02|volume=IV|junk=1}}');
+		expect(checkCitation(citation).map((issue) => [issue.kind, issue.param])).toEqual([
+			['deprecated', 'deadurl'],
+			['invalid-value', 'date'],
+			['invalid-value', 'accessdate'],
+			['duplicate', 'access-date'],
+			['invalid-value', 'volume'],
+			['unknown', 'junk'],
+			['missing-required', 'url']
+		]);
+		expect(checkCitation(read('{{cite book|zzz=1}}'))).toEqual([]);
+	});
+
+	it('accepts the date forms the cite templates do', () => {
+		['2020-05-06', '6 May 2020', 'May 6, 2020', 'Spring 2010', 'c. 1900', '2020年5月6日', '２０２０年５月', 'n.d.', '{{date|x}}']
+			.forEach((value) => expect(isValidCitationValue('date', value)).toBe(true));
+		['2020-13-01', 'Chapter 3', '6/5/2020'].forEach((value) => expect(isValidCitationValue('date', value)).toBe(false));
+		expect(isValidCitationValue('url', '//example.org/a')).toBe(true);
+		expect(isValidCitationValue('url', 'example')).toBe(false);
+		expect(isValidCitationValue('wiki-page-name', '[[Foo]]')).toBe(false);
+	});
+});
+
+describe('citation edit form', () => {
+	it('lists written params in TemplateData order, then required and suggested ones', () => {
+		const fields = citationFields(read('{{cite web |foo=x |accessdate=2020-01-02 |title=T}}'));
+		expect(fields.map((field) => [field.key, field.value, field.type])).toEqual([
+			['title', 'T', 'string'],
+			['url', '', 'url'],
+			['date', '', 'date'],
+			['accessdate', '2020-01-02', 'date'],
+			['foo', 'x', 'string']
+		]);
+		expect(citationFieldError(fields[1])).toBe('Required.');
+		expect(citationFieldError({ ...fields[2], value: 'soon' })).toBe('Not a date the citation templates accept.');
+		expect(citationFieldError({ ...fields[1], value: 'example.org' })).toBe('Not a full URL.');
+	});
+
+	it('writes back only the fields that changed', () => {
+		const citation = read('{{cite web |foo=x |accessdate=2020-01-02 |title=T}}');
+		const fields = citationFields(citation).map((field) => {
+			if (field.name === 'url') return { ...field, value: 'https://a.org' };
+			if (field.name === 'foo') return { ...field, value: '' };
+			return field;
+		});
+		expect(applyCitationFields(citation, fields).raw).toBe('{{cite web |accessdate=2020-01-02 |title=T |url=https://a.org}}');
+	});
+});
+
+describe('migrateCitation', () => {
+	it('renames retired and aliased params, converting values where needed', () => {
+		const result = migrateCitation(read('{{cite web\n| title = T\n| accessdate = 2020-01-02\n| AuthorLink = A\n| deadurl = No <!-- checked -->\n| subscription = maybe\n| junk = 1\n}}'));
+		expect(result.citation.raw).toBe('{{cite web\n| title = T\n| access-date = 2020-01-02\n| author-link = A\n| url-status = live <!-- checked -->\n| subscription = maybe\n| junk = 1\n}}');
+		expect(result.migrations).toEqual([
+			{ from: 'accessdate', to: 'access-date' },
+			{ from: 'AuthorLink', to: 'author-link' },
+			{ from: 'deadurl', to: 'url-status', value: { from: 'No', to: 'live' } }
+		]);
+		expect(result.issues.map((issue) => [issue.kind, issue.param])).toEqual([['deprecated', 'subscription'], ['unknown', 'junk']]);
+	});
+
+	it('leaves a param alone when its new name is already given', () => {
+		const result = migrateCitation(read('{{cite web|title=T|accessdate=2020-01-02|access-date=2021-03-04}}'));
+		expect(result.citation.raw).toBe('{{cite web|title=T|accessdate=2020-01-02|access-date=2021-03-04}}');
+		expect(result.issues[0].message).toBe('"accessdate" in {{cite web}} was left as written: access-date is already given.');
+	});
+
+	it('removes an empty copy of the new name', () => {
+		const result = migrateCitation(read('{{cite web |title=T |access-date= |accessdate=2020-01-02}}'));
+		expect(result.citation.raw).toBe('{{cite web |title=T |access-date=2020-01-02}}');
+		expect(result.citation.params.filter((param) => param.name === 'access-date')).toHaveLength(1);
+		expect(result.issues).toEqual([]);
+	});
+});
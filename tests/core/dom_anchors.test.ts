@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { Reference } from '../../src/types';
+import { canRename, parseReferences, renameBlockReason } from '../../src/core/references';
+import {
+	assignMarkers,
+	markersMatchSource,
+	decodeCiteNoteId,
+	decodeCiteRefId,
+	decodeParsoidDataMw,
+	groupFromLabel
+} from '../../src/core/dom_anchors';
+
+const fakeAnchor = (label: string): Element => ({ label } as unknown as Element);
+
+describe('Cite id decoding', () => {
+	it('decodes named and unnamed note ids exactly', () => {
+		expect(decodeCiteNoteId('#cite_note-ab-3')).toEqual({ name: 'ab' });
+		expect(decodeCiteNoteId('cite_note-Smith_2020-12')).toEqual({ name: 'Smith_2020' });
+		expect(decodeCiteNoteId('#cite_note-%22quoted%22-1')).toEqual({ name: '"quoted"' });
+		expect(decodeCiteNoteId('#cite_note-:0-4')).toEqual({ name: ':0' });
+		expect(decodeCiteNoteId('#cite_note-7')).toEqual({ name: null });
+		expect(decodeCiteNoteId('#CITEREFSmith2001')).toBeNull();
+	});
+
+	it('decodes marker ids', () => {
+		expect(decodeCiteRefId('cite_ref-ab_3-1')).toEqual({ name: 'ab' });
+		expect(decodeCiteRefId('cite_ref-7')).toEqual({ name: null });
+		expect(decodeCiteRefId('bodyContent')).toBeNull();
+	});
+
+	it('decodes Parsoid data-mw and legacy group labels', () => {
+		expect(decodeParsoidDataMw('{"name":"ref","attrs":{"name":"a","group":"notes"}}')).toEqual({ name: 'a', group: 'notes' });
+		expect(decodeParsoidDataMw('{"name":"ref","attrs":{},"body":{"id":"mw-reference-text-cite_note-1"}}')).toEqual({ name: null, group: null });
+		expect(decodeParsoidDataMw('{"name":"references"}')).toBeNull();
+		expect(decodeParsoidDataMw('not json')).toBeNull();
+		expect(groupFromLabel('[12]')).toBeNull();
+		expect(groupFromLabel('[notes 2]')).toBe('notes');
+		expect(groupFromLabel('[a]')).toBeUndefined();
+	});
+});
+
+describe('assignMarkers', () => {
+	it('does not attach a marker to a ref whose name is only a prefix', () => {
+		const refs = parseReferences('X<ref name="a">A</ref> Y<ref name="ab">AB</ref>');
+		const ab = fakeAnchor('ab');
+		assignMarkers(refs, [{ anchor: ab, marker: { name: 'ab' } }]);
+
+		expect(refs.find((r) => r.name === 'a')?.uses[0].anchor).toBeNull();
+		expect(refs.find((r) => r.name === 'ab')?.uses[0].anchor).toBe(ab);
+	});
+
+	it('matches underscored ids to names with spaces and uses the group to split shared names', () => {
+		const refs = parseReferences('X<ref name="Smith 2020">S</ref> Y<ref name="Smith 2020" group="notes">N</ref>');
+		const plain = fakeAnchor('1');
+		const note = fakeAnchor('notes 1');
+		assignMarkers(refs, [
+			{ anchor: note, marker: { name: 'Smith_2020', group: 'notes' } },
+			{ anchor: plain, marker: { name: 'Smith_2020', group: null } }
+		]);
+
+		expect(refs.find((r) => r.group === null)?.uses[0].anchor).toBe(plain);
+		expect(refs.find((r) => r.group === 'notes')?.uses[0].anchor).toBe(note);
+	});
+
+	it('attaches nameless refs by document order', () => {
+		const refs = parseReferences('A<ref>One</ref> B<ref name="n">N</ref> C<ref group="g">Two</ref>');
+		const first = fakeAnchor('1');
+		const second = fakeAnchor('g 1');
+		assignMarkers(refs, [
+			{ anchor: first, marker: { name: null } },
+			{ anchor: fakeAnchor('2'), marker: { name: 'n' } },
+			{ anchor: second, marker: { name: null, group: 'g' } }
+		]);
+
+		expect(refs.find((r) => r.contentWikitext === 'One')?.uses[0].anchor).toBe(first);
+		expect(refs.find((r) => r.contentWikitext === 'Two')?.uses[0].anchor).toBe(second);
+	});
+
+	it('attaches {{sfn}} markers to the anchor their FOOTNOTE name cites', () => {
+		const refs = parseReferences('A{{sfn|Smith|2020|p=5}} B{{harvnb|Smith|2020}} C{{sfn|Smith|2020|p=6}} D{{sfn|Smith|2020a|p=1}}');
+		const markers = ['FOOTNOTESmith20205', 'FOOTNOTESmith20206', 'FOOTNOTESmith2020a1'].map((name) => ({ anchor: fakeAnchor(name), marker: { name } }));
+
+		expect(markersMatchSource(refs, markers)).toBe(true);
+		expect(assignMarkers(refs, markers)).toEqual([]);
+		expect(refs.find((r) => r.id === 'CITEREFSmith2020')?.uses.map((use) => use.anchor)).toEqual([markers[0].anchor, null, markers[1].anchor]);
+		expect(refs.find((r) => r.id === 'CITEREFSmith2020a')?.uses[0].anchor).toBe(markers[2].anchor);
+		expect(markersMatchSource(refs, [{ anchor: fakeAnchor('x'), marker: { name: 'FOOTNOTEJones19991' } }])).toBe(false);
+	});
+
+	it('leaves nameless refs unattached when the marker count does not match the source', () => {
+		const refs = parseReferences('A<ref>One</ref>');
+		assignMarkers(refs, [
+			{ anchor: fakeAnchor('1'), marker: { name: null } },
+			{ anchor: fakeAnchor('2'), marker: { name: null } }
+		]);
+
+		expect(refs[0].uses[0].anchor).toBeNull();
+		expect(refs[0].uses).toHaveLength(1);
+	});
+});
+
+describe('transcluded refs', () => {
+	const parsoidRef = (name: string | null, editable: boolean, sourceTemplate: string | null = null): Reference => ({
+		id: name ?? 'x', name, group: null, kind: 'ref', contentWikitext: `${name ?? 'unnamed'} body`,
+		uses: [], definition: null, editable, sourceTemplate
+	});
+
+	it('lists markers the source does not hold as non-editable refs named after their template', () => {
+		const refs = parseReferences('X<ref name="a">A</ref>');
+		const markers = [
+			{ anchor: fakeAnchor('1'), marker: { name: 'wd_pop' } },
+			{ anchor: fakeAnchor('2'), marker: { name: 'a' } }
+		];
+		expect(markersMatchSource(refs, markers)).toBe(false);
+
+		const generated = assignMarkers(refs, markers, [parsoidRef('wd pop', false, 'Infobox settlement')]);
+		expect(refs[0].uses[0].anchor).toBe(markers[1].anchor);
+		expect(refs[0].uses).toHaveLength(1);
+		expect(generated).toHaveLength(1);
+		expect(generated[0]).toMatchObject({
+			name: 'wd pop', editable: false, sourceTemplate: 'Infobox settlement', contentWikitext: 'wd pop body'
+		});
+		expect(canRename(generated[0])).toBe(false);
+		expect(renameBlockReason(generated[0])).toContain('{{Infobox settlement}}');
+	});
+
+	it('uses Parsoid to skip transcluded unnamed markers when matching by order', () => {
+		const refs = parseReferences('A<ref>One</ref>');
+		const infobox = fakeAnchor('1');
+		const body = fakeAnchor('2');
+		const markers = [
+			{ anchor: infobox, marker: { name: null } },
+			{ anchor: body, marker: { name: null } }
+		];
+		const generated = assignMarkers(refs, markers, [parsoidRef(null, false, 'Infobox'), parsoidRef(null, true)]);
+
+		expect(refs[0].uses[0].anchor).toBe(body);
+		expect(generated).toHaveLength(1);
+		expect(generated[0].uses[0].anchor).toBe(infobox);
+		expect(generated[0].sourceTemplate).toBe('Infobox');
+	});
+
+	it('blocks renaming a page reuse of a ref that a template defines', () => {
+		const refs = parseReferences('X<ref name="census" />');
+		assignMarkers(refs, [{ anchor: fakeAnchor('1'), marker: { name: 'census' } }], [parsoidRef('census', false, 'Infobox')]);
+
+		expect(refs[0].editable).toBe(false);
+		expect(canRename(refs[0])).toBe(false);
+	});
+});
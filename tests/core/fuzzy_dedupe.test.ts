@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { citationIdentity, citationSimilarity, findDuplicateClusters } from '../../src/core/fuzzy_dedupe';
+import { transformWikitext } from '../../src/core/references';
+import { verifyTransform } from '../../src/core/verify';
+
+const score = (a: string, b: string): number => citationSimilarity(citationIdentity(a), citationIdentity(b));
+
+describe('citationSimilarity', () => {
+	it('matches copies that differ in access-date, param order, ref=harv, and trailing punctuation', () => {
+		const a = '{{cite web |url=https://example.org/report |title=Annual Report |access-date=1 May 2020}}';
+		const b = '{{cite web|title=Annual report.|ref=harv|url=http://www.example.org/report/|access-date=3 June 2021}}';
+		expect(score(a, b)).toBeGreaterThanOrEqual(0.9);
+	});
+
+	it('unwraps archive URLs and normalizes DOIs and ISBNs', () => {
+		expect(score(
+			'{{cite web |url=https://example.org/a |title=A}}',
+			'{{cite web |archive-url=https://web.archive.org/web/20200101000000/https://example.org/a |title=A}}'
+		)).toBeGreaterThanOrEqual(0.9);
+		expect(score('{{cite journal |doi=10.1000/XYZ |title=One}}', '{{cite journal |doi=https://doi.org/10.1000/xyz |title=Two}}')).toBe(1);
+		expect(score('{{cite book |isbn=0-306-40615-2 |title=B}}', '{{cite book |isbn=978-0-306-40615-7}}')).toBeGreaterThanOrEqual(0.9);
+	});
+
+	it('rules out conflicting identifiers, authors, and years', () => {
+		expect(score('{{cite journal |doi=10.1/a |title=T}}', '{{cite journal |doi=10.1/b |title=T}}')).toBe(0);
+		expect(score('{{cite book |title=History |last=Smith |year=1990}}', '{{cite book |title=History |last=Jones |year=1990}}')).toBe(0);
+		expect(score('{{cite book |title=History |last=Smith |year=1990}}', '{{cite book |title=History |author=John Smith |year=1991}}')).toBe(0);
+		expect(score('{{cite web |url=https://example.org/a |title=News}}', '{{cite web |url=https://example.org/b |title=News}}')).toBe(0);
+	});
+
+	it('halves the score for different pages of one source', () => {
+		expect(score('{{cite book |isbn=9780306406157 |page=4}}', '{{cite book |isbn=9780306406157 |page=9}}')).toBeCloseTo(0.475);
+	});
+
+	it('compares plain-text refs by their words', () => {
+		expect(score('Smith, J. (1990). History of Things.', 'Smith, J. (1990) History of things')).toBe(0.9);
+		expect(score('Smith 1990, p. 4', 'Jones 1990, p. 4')).toBe(0);
+	});
+});
+
+describe('findDuplicateClusters', () => {
+	const candidates = [
+		{ key: 'a', content: '{{cite web |url=https://example.org/r |title=Report}}' },
+		{ key: 'b', content: '{{cite book |title=Other}}' },
+		{ key: 'c', content: '{{cite web |url=https://example.org/r |title=Report |website=Example |date=2020}}' },
+		{ key: 'd', content: '{{cite book |title=Report}}' }
+	];
+
+	it('clusters likely duplicates with a confidence score and picks the most complete copy', () => {
+		const clusters = findDuplicateClusters(candidates);
+		expect(clusters).toHaveLength(1);
+		expect(clusters[0]).toMatchObject({ keys: ['a', 'c', 'd'], survivor: 'c' });
+		expect(clusters[0].confidence).toBeCloseTo(0.7);
+		expect(findDuplicateClusters(candidates, 'earliest')[0].survivor).toBe('a');
+	});
+
+	it('keeps a ref out of a cluster it conflicts with', () => {
+		const clusters = findDuplicateClusters([
+			{ key: 'a', content: '{{cite book |title=T |last=Smith}}' },
+			{ key: 'b', content: '{{cite book |title=T}}' },
+			{ key: 'c', content: '{{cite book |title=T |last=Jones}}' }
+		]);
+		expect(clusters).toEqual([{ keys: ['a', 'b'], survivor: 'a', confidence: 0.7 }]);
+	});
+});
+
+describe('fuzzy dedupe transform', () => {
+	const text = [
+		'A<ref name="a">{{cite web |url=https://example.org/r |title=Report |access-date=2020-01-01}}</ref>',
+		'B<ref name="b">{{cite web |title=Report. |url=http://example.org/r/ |website=Example |access-date=2021-05-05}}</ref>',
+		'C<ref name="c">{{cite book |title=Report}}</ref>',
+		'D<ref name="a" />'
+	].join('\n');
+
+	it('merges clusters above the threshold into the most complete copy and reports the rest', () => {
+		const result = transformWikitext(text, { dedupe: true, fuzzyDedupe: {} });
+		expect(result.changes.deduped).toEqual([{ from: 'a', to: 'b' }]);
+		expect(result.wikitext).toContain('A<ref name="b" />');
+		expect(result.wikitext).toContain('D<ref name="b" />');
+		expect(result.wikitext).toContain('C<ref name="c">');
+		expect(result.duplicates).toEqual([
+			{ keys: ['a', 'b'], survivor: 'b', confidence: 0.95, group: null, merged: true },
+			{ keys: ['b', 'c'], survivor: 'b', confidence: 0.7, group: null, merged: false }
+		]);
+		expect(result.warnings).toContain('Possible duplicates not merged (confidence 0.70): "b", "c".');
+		expect(verifyTransform(text, result.wikitext, result.changes).ok).toBe(true);
+	});
+
+	it('merges nothing below the threshold', () => {
+		const result = transformWikitext(text, { dedupe: true, fuzzyDedupe: { threshold: 0.99, keep: 'earliest' } });
+		expect(result.changes.deduped).toEqual([]);
+		expect(result.wikitext).toBe(text);
+		expect(result.warnings).toContain('Possible duplicates not merged (confidence 0.70): "a", "b", "c".');
+	});
+
+	it('leaves rejected merges out', () => {
+		const result = transformWikitext(text, { dedupe: true, fuzzyDedupe: {}, reject: ['dedupe:::a'] });
+		expect(result.changes.deduped).toEqual([]);
+		expect(result.wikitext).toBe(text);
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { convertLocators, findCitationUnits, parseRpParams } from '../../src/core/locators';
+import { transformWikitext } from '../../src/core/references';
+
+const convert = (text: string, style: 'rp' | 'r' | 'extends'): string => {
+	const { edits } = convertLocators(text, style);
+	return edits.reduceRight((out, edit) => out.slice(0, edit.start) + edit.text + out.slice(edit.end), text);
+};
+
+describe('findCitationUnits', () => {
+	it('reads {{rp}} params holding templates and named page params', () => {
+		const text = 'A<ref name="a" />{{rp|at={{abbr|fig.|figure}} 3}} B{{r|b|group=n|pp=4–5}} C<ref name="c" /> {{Rp|page=7}}';
+		const units = findCitationUnits(text);
+		expect(units.map((unit) => unit.refs)).toEqual([
+			[{ name: 'a', group: null, locator: { at: '{{abbr|fig.|figure}} 3' } }],
+			[{ name: 'b', group: 'n', locator: { page: undefined, pages: '4–5', at: undefined } }],
+			[{ name: 'c', group: null, locator: { page: '7' } }]
+		]);
+		expect(text.slice(units[0].start, units[0].end)).toBe('<ref name="a" />{{rp|at={{abbr|fig.|figure}} 3}}');
+	});
+
+	it('reads sub-references and skips comments', () => {
+		const units = findCitationUnits('<!-- <ref name="x" />{{rp|1}} --><ref extends="book">pp. 10–12</ref><ref extends="book">Table 2</ref>');
+		expect(units.map((unit) => [unit.form, unit.refs[0].locator])).toEqual([
+			['extends', { pages: '10–12' }],
+			['extends', { at: 'Table 2' }]
+		]);
+	});
+
+	it('keeps params no other form can carry', () => {
+		expect(parseRpParams('|5|quote=Text')).toEqual({ locator: { page: '5' }, group: null, extra: ['quote=Text'] });
+		expect(findCitationUnits('{{r|a|p=1|lang=en}}')[0].extra).toEqual(['lang=en']);
+		expect(findCitationUnits('{{r|a|p=1}}{{rp|2}}')[0].extra).toEqual(['{{rp|2}}']);
+		expect(findCitationUnits('<ref name="a">Book</ref>{{rp|2}}')[0].extra).toEqual(['its definition']);
+	});
+});
+
+describe('convertLocators', () => {
+	it('converts between {{rp}}, {{r}}, and sub-references', () => {
+		expect(convert('A<ref name="a" />{{rp|page=5}} B<ref name="b" group="n" />{{rp|at=fig. 2}}', 'r'))
+			.toBe('A{{r|a|p=5}} B{{r|b|group=n|loc=fig. 2}}');
+		expect(convert('A{{r|a|pp=4-5|b|p2=6}}', 'rp')).toBe('A<ref name="a" />{{rp|pp=4-5}}<ref name="b" />{{rp|p=6}}');
+		expect(convert('A{{r|a|b|p2=6}}', 'extends')).toBe('A<ref name="a" /><ref extends="b">p. 6</ref>');
+		expect(convert('A<ref extends="a" group="n">pp. 4-5</ref>', 'r')).toBe('A{{r|a|group=n|pp=4-5}}');
+		expect(convert('A{{r|a}}{{rp|9}}', 'r')).toBe('A{{r|a|p=9}}');
+	});
+
+	it('reads back the sub-references it writes', () => {
+		const pinned = 'A<ref name="a" />{{rp|p=5}} B<ref name="b" />{{rp|pp=6–7}} C<ref name="c" />{{rp|at=fig. 2}}';
+		expect(convert(convert(pinned, 'extends'), 'rp')).toBe(pinned);
+		const mixed = 'A<ref name="a" />{{rp|p=5|at=fig. 2}}';
+		expect(convert(mixed, 'extends')).toBe(mixed);
+	});
+
+	it('leaves unpinned citations and those already in the style alone', () => {
+		expect(convertLocators('A<ref name="a" /> B{{r|b}} C{{r|c|p=1}}', 'r').edits).toEqual([]);
+	});
+
+	it('reports conversions that would drop data', () => {
+		const text = 'A{{r|a|p=4|lang=en}} B<ref name="b4" extends="b">p. 4</ref> C<ref name="c" />{{rp|2|quote=Q}}';
+		const { edits, losses } = convertLocators(text, 'rp');
+		expect(edits).toEqual([]);
+		expect(losses.map((loss) => loss.message)).toEqual([
+			'Kept the page pin of "a" as written: converting it to <ref />{{rp}} would drop lang=en.',
+			'Kept the page pin of "b" as written: converting it to <ref />{{rp}} would drop name="b4".'
+		]);
+		expect(convertLocators(text, 'r').losses[1].message).toContain('would drop quote=Q');
+		expect(convertLocators('A<ref name="a" />{{rp|p=5|at=fig. 2}}', 'extends').losses.map((loss) => loss.message)).toEqual([
+			'Kept the page pin of "a" as written: a sub-reference cannot keep its page and place apart.'
+		]);
+		expect(convertLocators('A<ref name="a">Book</ref>{{rp|5}}', 'extends')).toEqual({
+			edits: [],
+			losses: [{ start: 1, end: 33, message: 'Kept the page pin of "a" as written: converting it to a sub-reference would drop its definition.' }]
+		});
+	});
+});
+
+describe('page pin style transform', () => {
+	const text = 'A<ref name="a">Book</ref> B{{r|a|p=4}} C{{r|a|pp=8-9}}';
+
+	it('rewrites pins and logs each one', () => {
+		const result = transformWikitext(text, { locatorStyle: 'rp', useTemplateR: true });
+		expect(result.wikitext).toBe('A<ref name="a">Book</ref> B<ref name="a" />{{rp|p=4}} C<ref name="a" />{{rp|pp=8-9}}');
+		expect(result.changeLog.map((change) => [change.id, change.originalSpan])).toEqual([
+			['locator@27', { start: 27, end: 38 }],
+			['locator@40', { start: 40, end: 54 }]
+		]);
+		expect(result.changeLog[1].reason).toBe('Rewrote the page pin of "a" as <ref />{{rp}}');
+	});
+
+	it('leaves rejected pins as written', () => {
+		const result = transformWikitext(text, { locatorStyle: 'extends', useTemplateR: true, reject: ['locator@27'] });
+		expect(result.wikitext).toBe('A<ref name="a">Book</ref> B{{r|a|p=4}} C<ref extends="a">pp. 8-9</ref>');
+	});
+
+	it('keeps pinned {{r}} calls whole in the {{r}} style without useTemplateR', () => {
+		const source = 'A<ref name="a">X</ref><ref name="b">Y</ref> B{{r|a|b|p2=7}} C{{r|a|b}}';
+		const result = transformWikitext(source, { locatorStyle: 'r' });
+		expect(result.wikitext).toBe('A<ref name="a">X</ref><ref name="b">Y</ref> B{{r|a|b|p2=7}} C<ref name="a" /> <ref name="b" />');
+	});
+
+	it('maps pins behind earlier edits back to the input', () => {
+		const result = transformWikitext('A<ref name="a">Book</ref> B<ref name="a" />{{rp|4}}', {
+			renameMap: { a: 'book' },
+			locatorStyle: 'r'
+		});
+		expect(result.wikitext).toBe('A<ref name="book">Book</ref> B{{r|book|p=4}}');
+		const pin = result.changeLog.find((change) => change.op === 'locator');
+		expect(pin?.originalSpan).toEqual({ start: 27, end: 51 });
+		expect(result.wikitext.slice(pin!.newSpan.start, pin!.newSpan.end)).toBe('{{r|book|p=4}}');
+	});
+});
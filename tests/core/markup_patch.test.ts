@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { appendTemplateParam, patchElement, patchTagAttrs, patchTemplateParams, renameTemplateParams, setTemplateParam } from '../../src/core/markup_patch';
+import { transformWikitext } from '../../src/core/references';
+
+describe('patchTagAttrs', () => {
+	it('edits only the values that change, in their quote style', () => {
+		expect(patchTagAttrs(`<REF NAME = 'a' group=g/>`, { name: 'b', group: 'g' })).toBe(`<REF NAME = 'b' group=g/>`);
+		expect(patchTagAttrs('<ref name=a />', { name: 'two words' })).toBe('<ref name="two words" />');
+		expect(patchTagAttrs(`<ref name='a'>`, { name: "it's" })).toBe('<ref name="it\'s">');
+	});
+
+	it('adds and removes attributes', () => {
+		expect(patchTagAttrs('<ref>', { name: 'a' })).toBe('<ref name="a">');
+		expect(patchTagAttrs('<ref name="a" group="g" />', { group: null })).toBe('<ref name="a" />');
+	});
+});
+
+describe('patchElement', () => {
+	it('keeps the tags as written and swaps a changed body', () => {
+		expect(patchElement('<REF Name=a >\n Body </REF >', { name: 'b' }, '\n Body ')).toBe('<REF Name=b >\n Body </REF >');
+		expect(patchElement('<ref name=a>Old</ref>', { name: 'a' }, 'New')).toBe('<ref name=a>New</ref>');
+		expect(patchElement('<ref name=a />', { name: 'b' }, '')).toBeNull();
+	});
+});
+
+describe('patchTemplateParams', () => {
+	it('keeps separators, spacing and line breaks', () => {
+		const raw = '{{R| a |\n p = 5 |b}}';
+		expect(patchTemplateParams(raw, (param) => (param.key === '1' ? 'c' : undefined))).toBe('{{R| c |\n p = 5 |b}}');
+		expect(patchTemplateParams('{{efn|x=1|a}}', (param) => (param.key === '1' ? 'k=v' : undefined))).toBe('{{efn|x=1|1=k=v}}');
+	});
+
+	it('skips pipes inside refs, comments and links', () => {
+		const raw = '{{Reflist | refs =\n<ref name=a>x|y</ref><!-- | -->[[a|b]]\n| colwidth=30em }}';
+		expect(setTemplateParam(raw, 'colwidth', '20em')).toBe('{{Reflist | refs =\n<ref name=a>x|y</ref><!-- | -->[[a|b]]\n| colwidth=20em }}');
+		expect(setTemplateParam('{{Reflist\n| refs = <ref name=a>x</ref>}}', 'refs', null)).toBe('{{Reflist}}');
+		expect(setTemplateParam('{{Reflist | colwidth=30em}}', 'refs', '\n<ref name=a>x</ref>\n')).toBe('{{Reflist | colwidth=30em|refs=\n<ref name=a>x</ref>\n}}');
+	});
+
+	it('appends params laid out like the last one', () => {
+		expect(appendTemplateParam('{{cite web |title=T}}', 'url', 'u')).toBe('{{cite web |title=T |url=u}}');
+		expect(appendTemplateParam('{{cite web\n | title = T\n}}', 'url', 'u')).toBe('{{cite web\n | title = T\n | url = u\n}}');
+		expect(appendTemplateParam('{{cite web}}', 'url', 'u')).toBe('{{cite web|url=u}}');
+	});
+
+	it('renames params in place and leaves unnamed ones alone', () => {
+		const raw = '{{cite web\n| accessdate = 2020 <!-- x -->\n|a|deadurl=no}}';
+		const renamed = renameTemplateParams(raw, (param) => ({ accessdate: 'access-date', 1: 'nope', deadurl: 'url-status' } as Record<string, string>)[param.key]);
+		expect(renamed).toBe('{{cite web\n| access-date = 2020 <!-- x -->\n|a|url-status=no}}');
+	});
+});
+
+describe('minimal diffs', () => {
+	it('renames without reflowing the markup around the name', () => {
+		const source = `A<REF NAME = 'x' group=g>{{cite web
+ | title = T
+ | url = u
+}}</REF> B<ref name = x group=g/> D{{R| x | p = 5 }}
+{{Reflist | colwidth=30em | refs =
+<ref name = z >Z</ref>
+}}`;
+		const result = transformWikitext(source, { renameMap: { x: 'y', z: 'w' }, locationMode: 'all_ldr', useTemplateR: true });
+		expect(result.wikitext).toBe(`A{{r|y|group=g}} B{{r|y|group=g}} D{{R| y | p = 5 }}
+{{Reflist | colwidth=30em | refs =
+<ref name = w >Z</ref>
+}}
+{{reflist|group=g|refs=
+<REF NAME = 'y'>{{cite web
+ | title = T
+ | url = u
+}}</REF>
+}}`);
+
+		const notes = transformWikitext('A{{efn | name = n | Note}} B{{Efn|name = n}}\n{{notelist}}', { renameMap: { n: 'm' } });
+		expect(notes.wikitext).toBe('A{{efn | name = m | Note}} B{{Efn|name = m}}\n{{notelist}}');
+	});
+
+	it('renders in the house style when asked to normalize', () => {
+		const result = transformWikitext(`A<REF NAME = 'x'>T</REF> B<ref name = x/>`, { renameMap: { x: 'y' }, normalizeAll: true });
+		expect(result.wikitext).toBe('A<ref name="y">T</ref> B<ref name="y" />');
+	});
+});
@@ -16,8 +16,10 @@ const baseRef = (overrides: Partial<Reference> = {}): Reference => ({
 	id: 'id1',
 	name: 'ref1',
 	group: null,
+	kind: 'ref',
 	contentWikitext: '',
 	uses: [],
+	definition: null,
 	...overrides
 });
 
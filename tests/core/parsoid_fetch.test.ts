@@ -0,0 +1,53 @@
+// @vitest-environment happy-dom
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, it, expect } from 'vitest';
+import { isParsoidView, parseParsoidReferences } from '../../src/data/parsoid_fetch';
+
+const loadFixture = (name: string): Document => {
+	const html = readFileSync(resolve(__dirname, '../fixtures/parsoid', name), 'utf8');
+	return new DOMParser().parseFromString(html, 'text/html');
+};
+
+describe('parseParsoidReferences', () => {
+	const doc = loadFixture('article.html');
+	const refs = parseParsoidReferences(doc);
+	const byId = (id: string) => refs.find((ref) => ref.id === id);
+
+	it('recognizes Parsoid output', () => {
+		expect(isParsoidView(doc)).toBe(true);
+		expect(isParsoidView(new DOMParser().parseFromString('<p>Plain<sup class="reference">[1]</sup></p>', 'text/html'))).toBe(false);
+	});
+
+	it('collects named, unnamed, and grouped refs with their uses', () => {
+		expect(refs).toHaveLength(6);
+		const smith = byId('smith');
+		expect(smith?.uses).toHaveLength(2);
+		expect(smith?.contentWikitext).toBe('Smith, John (2001). A history of Example.');
+		expect(smith?.uses[1].anchor?.getAttribute('href')).toBe('./Example_town#cite_note-smith-3');
+		expect(refs.filter((ref) => !ref.name).map((ref) => ref.contentWikitext)).toEqual([
+			'Town charter, 1850.',
+			'Formerly known as Old Example.',
+			'County gazetteer.'
+		]);
+	});
+
+	it('reads a ref fused with its {{efn}} transclusion from its link', () => {
+		const note = refs.find((ref) => ref.group === 'lower-alpha');
+		expect(note?.kind).toBe('efn');
+		expect(note?.contentWikitext).toBe('Formerly known as Old Example.');
+		expect(note?.editable).toBe(true);
+	});
+
+	it('flags refs by whether the page source holds them', () => {
+		expect(byId('smith')?.editable).toBe(true);
+		// Passed to the infobox as a parameter, so it is written on the page
+		expect(byId('census')?.editable).toBe(true);
+		// Emitted by the infobox itself
+		expect(byId('wikidata-ab12')).toMatchObject({ editable: false, sourceTemplate: 'Infobox settlement' });
+		expect(refs.find((ref) => ref.contentWikitext === 'County gazetteer.')).toMatchObject({
+			editable: false,
+			sourceTemplate: 'Example county'
+		});
+	});
+});
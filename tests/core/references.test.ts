@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseReferences, transformWikitext } from '../../src/core/references';
+import { LdrOrder, formatCopy, parseReferences, summarizeOperations, transformWikitext } from '../../src/core/references';
+import { verifyTransform } from '../../src/core/verify';
 import { prefetchTemplateDataForWikitext } from '../../src/data/templatedata_fetch';
 
 describe('parseReferences', () => {
@@ -299,6 +300,50 @@ describe('parseReferences', () => {
 			expect(refs[0].name).toBe('a/b/c/d');
 		});
 	});
+
+	describe('agreement with transformWikitext', () => {
+		it('does not count list-defined definitions as uses', () => {
+			const wikitext = 'A<ref name="a" /> B{{r|a}}\n{{reflist|refs=\n<ref name="a">Alpha</ref>\n}}';
+			const refs = parseReferences(wikitext);
+
+			expect(refs).toHaveLength(1);
+			expect(refs[0].uses).toHaveLength(2);
+			expect(refs[0].contentWikitext).toBe('Alpha');
+			expect(refs[0].definition).not.toBeNull();
+			expect(wikitext.slice(refs[0].definition!.start, refs[0].definition!.end)).toBe('<ref name="a">Alpha</ref>');
+		});
+
+		it('records source offsets for every use', () => {
+			const wikitext = 'X<ref name="s">Body</ref> Y<ref name="s" /> Z{{r|s}}';
+			const [ref] = parseReferences(wikitext);
+			const spans = ref.uses.map((u) => wikitext.slice(u.span!.start, u.span!.end));
+
+			expect(spans).toEqual(['<ref name="s">Body</ref>', '<ref name="s" />', '{{r|s}}']);
+		});
+
+		it('assigns nameless IDs in document order that the transformer honors', () => {
+			const wikitext = 'One <ref /> two <ref>Second</ref> three <ref>Third</ref>';
+			const refs = parseReferences(wikitext);
+			const second = refs.find((r) => r.contentWikitext === 'Second');
+
+			expect(second).toBeDefined();
+			const result = transformWikitext(wikitext, {
+				renameNameless: { [second!.id]: 'second' },
+				locationMode: 'all_inline'
+			});
+			expect(result.wikitext).toContain('<ref name="second">Second</ref>');
+			expect(result.wikitext).toContain('<ref>Third</ref>');
+		});
+
+		it('ignores commented-out refs in both parsers', () => {
+			const wikitext = 'A<ref name="a">Alpha</ref> <!-- <ref name="a">Hidden</ref> -->';
+			const refs = parseReferences(wikitext);
+
+			expect(refs[0].uses).toHaveLength(1);
+			const result = transformWikitext(wikitext, { renameMap: { a: 'b' } });
+			expect(result.wikitext).toBe('A<ref name="b">Alpha</ref> <!-- <ref name="a">Hidden</ref> -->');
+		});
+	});
 });
 
 
@@ -538,6 +583,12 @@ Repeat <ref name="common">Common content</ref> and again <ref name="common" />
 		expect(result.wikitext).toContain('{{r|foo|group=g1|p=2|bar|pp2=4-5|baz|loc3=fig1}}');
 	});
 
+	it('combines refs with rp holding templates or named params when templateR is on', () => {
+		const source = 'See <ref name="foo" />{{rp|page=3}}<ref name="bar" />{{rp|at={{abbr|fig.|figure}} 2}}.';
+		const result = transformWikitext(source, { useTemplateR: true });
+		expect(result.wikitext).toBe('See {{r|foo|p=3|bar|loc2={{abbr|fig.|figure}} 2}}.');
+	});
+
 	it('keeps r templates with unsupported params when conversion would drop data', () => {
 		const source = 'See {{r|foo|lang=en|p=2}}.';
 		const result = transformWikitext(source, { useTemplateR: false });
@@ -661,7 +712,8 @@ Repeat <ref name="common">Common content</ref> and again <ref name="common" />
 
 		expect(result.wikitext).toContain('<ref name="RefA">Uno</ref>');
 		expect(result.wikitext).toContain('<ref name="RefB">Dos</ref>');
-		expect(result.wikitext).toContain('<ref>Tres</ref>');
+		// A ref left alone keeps its spacing
+		expect(result.wikitext).toContain('<ref> Tres </ref>');
 	});
 
 	it('normalizes ref content, test 1', async () => {
@@ -699,3 +751,675 @@ Repeat <ref name="common">Common content</ref> and again <ref name="common" />
 		expect(result.wikitext).toBe(source);
 	});
 });
+
+
+describe('<references> tag containers', () => {
+	it('reads list-defined refs from a <references> tag body', () => {
+		const source = 'Text <ref name="a" />\n<references>\n<ref name="a">Alpha</ref>\n</references>';
+		const refs = parseReferences(source);
+
+		expect(refs).toHaveLength(1);
+		expect(refs[0].contentWikitext).toBe('Alpha');
+		expect(refs[0].uses).toHaveLength(1);
+	});
+
+	it('inherits the group of a grouped <references> tag for list-defined refs', () => {
+		const source = 'Text <ref name="n1" group="note" />\n<references group="note">\n<ref name="n1">A note</ref>\n</references>';
+		const refs = parseReferences(source);
+
+		expect(refs).toHaveLength(1);
+		expect(refs[0].group).toBe('note');
+		expect(refs[0].contentWikitext).toBe('A note');
+	});
+
+	it('leaves the tag untouched when only renaming', () => {
+		const source = 'Text <ref name="a" />\n<references responsive>\n<ref name="a">Alpha</ref>\n</references>';
+		const result = transformWikitext(source, { renameMap: { a: 'b' } });
+		expect(result.wikitext).toBe(source.replace(/name="a"/g, 'name="b"'));
+	});
+
+	it('moves inline definitions into a self-closing <references /> tag, preserving attributes', () => {
+		const source = 'Text <ref name="c">Content C</ref> more <ref name="c" />\n<references responsive="0" />';
+		const result = transformWikitext(source, { locationMode: 'all_ldr', sortRefs: true });
+
+		expect(result.wikitext).toContain('<references responsive="0">\n<ref name="c">Content C</ref>\n</references>');
+		expect(result.wikitext).not.toContain('{{reflist');
+		expect(result.wikitext).toContain('Text <ref name="c" /> more <ref name="c" />');
+	});
+
+	it('writes grouped entries only into the matching <references group> tag', () => {
+		const source = [
+			'Text <ref name="a">Alpha</ref> note <ref name="n" group="note">Note body</ref>',
+			'<references group="note" />',
+			'<references />'
+		].join('\n');
+		const result = transformWikitext(source, { locationMode: 'all_ldr', sortRefs: true });
+
+		expect(result.wikitext).toContain('<references group="note">\n<ref name="n">Note body</ref>\n</references>');
+		expect(result.wikitext).toContain('<references>\n<ref name="a">Alpha</ref>\n</references>');
+		expect(result.wikitext).toContain('<ref name="n" group="note" />');
+	});
+
+	it('moves definitions out of a <references> body and collapses it when going inline', () => {
+		const source = 'Text <ref name="d" group="g" />\n<references group="g">\n<ref name="d" group="g">Delta</ref>\n</references>';
+		const result = transformWikitext(source, { locationMode: 'all_inline' });
+
+		expect(result.wikitext).toBe('Text <ref name="d" group="g">Delta</ref>\n<references group="g" />');
+	});
+});
+
+
+describe('footnote templates', () => {
+	it('records efn and refn notes with their groups and kinds', () => {
+		const source = 'A.{{efn|name=n1|First note.}} B.{{efn|name=n1}} C.{{refn|group=nb|Refn note.}}\n{{notelist}}\n{{reflist|group=nb}}';
+		const refs = parseReferences(source);
+		const n1 = refs.find((r) => r.name === 'n1');
+		expect(n1).toMatchObject({ kind: 'efn', group: 'lower-alpha', contentWikitext: 'First note.' });
+		expect(n1?.uses).toHaveLength(2);
+		const refn = refs.find((r) => r.kind === 'refn');
+		expect(refn).toMatchObject({ name: null, group: 'nb', contentWikitext: 'Refn note.' });
+	});
+
+	it('groups sfn and harvnb uses under their CITEREF anchor', () => {
+		const source = 'A.{{sfn|Smith|2001|p=4}} B.{{sfn|Smith|2001|p=9}} C {{harvnb|Smith|2001}}. D.{{sfn|Smith|Jones|1999}}';
+		const refs = parseReferences(source);
+		expect(refs.map((r) => [r.id, r.kind, r.uses.length])).toEqual([
+			['CITEREFSmith2001', 'sfn', 3],
+			['CITEREFSmithJones1999', 'sfn', 1]
+		]);
+		expect(refs[0].contentWikitext).toBe('{{sfn|Smith|2001|p=4}}');
+	});
+
+	it('keeps markup inside a note body positional', () => {
+		const refs = parseReferences('A.{{efn|See <ref name="src">Source</ref> for details.}}');
+		const note = refs.find((r) => r.kind === 'efn');
+		expect(note?.contentWikitext).toBe('See <ref name="src">Source</ref> for details.');
+		expect(refs.find((r) => r.name === 'src')?.uses).toHaveLength(1);
+	});
+
+	it('renames efn definitions and reuses', () => {
+		const source = 'A.{{efn|name=n1|First note.}} B.{{Efn|name=n1}}\n{{notelist}}';
+		const result = transformWikitext(source, { renameMap: { n1: 'weather' } });
+		expect(result.wikitext).toBe('A.{{efn|name=weather|First note.}} B.{{Efn|name=weather}}\n{{notelist}}');
+	});
+
+	it('dedupes identical notes within a group only', () => {
+		const source = 'A.{{efn|name=a|Same text.}} B.{{efn|name=b|Same text.}} C.<ref name="c">Same text.</ref>';
+		const result = transformWikitext(source, { dedupe: true });
+		expect(result.changes.deduped).toEqual([{ from: 'b', to: 'a' }]);
+		expect(result.wikitext).toBe('A.{{efn|name=a|Same text.}} B.{{efn|name=a}} C.<ref name="c">Same text.</ref>');
+	});
+
+	it('moves notes into their notelist when list-defining', () => {
+		const source = 'A.{{efn|name=n1|First note.}} B.{{efn|name=n1}}\n{{notelist}}\n{{reflist}}';
+		const result = transformWikitext(source, { locationMode: 'all_ldr' });
+		expect(result.wikitext).toContain('A.{{efn|name=n1}} B.{{efn|name=n1}}');
+		expect(result.wikitext).toContain('{{notelist|refs=\n<ref name="n1">First note.</ref>\n}}');
+		expect(result.wikitext).toContain('\n{{reflist}}');
+	});
+
+	it('leaves sfn anchors untouched and warns when asked to rename them', () => {
+		const source = 'A.{{sfn|Smith|2001|p=4}}';
+		const result = transformWikitext(source, { renameNameless: { CITEREFSmith2001: 'smith' } });
+		expect(result.wikitext).toBe(source);
+		expect(result.warnings).toHaveLength(1);
+	});
+});
+
+
+describe('nested refs', () => {
+	it('finds refs nested in note bodies and list-defined refs', () => {
+		const source = 'A.{{refn|name=n|Note citing <ref name="a">Alpha</ref>.}} B<ref name="x" />\n{{reflist|refs=\n<ref name="x">X, see {{r|a}}</ref>\n}}';
+		const refs = parseReferences(source);
+		const a = refs.find((r) => r.name === 'a');
+		expect(a?.contentWikitext).toBe('Alpha');
+		expect(a?.uses).toHaveLength(2);
+		expect(refs.find((r) => r.name === 'n')?.contentWikitext).toBe('Note citing <ref name="a">Alpha</ref>.');
+	});
+
+	it('renames uses inside a note that is itself renamed', () => {
+		const source = 'A.{{refn|name=n|Note citing <ref name="a">Alpha</ref>.}} B{{refn|name=n}} C<ref name="a" />';
+		const result = transformWikitext(source, { renameMap: { a: 'alpha', n: 'note' } });
+		expect(result.wikitext).toBe('A.{{refn|name=note|Note citing <ref name="alpha">Alpha</ref>.}} B{{refn|name=note}} C<ref name="alpha" />');
+	});
+
+	it('keeps {{r}} inside a list-defined ref when renaming', () => {
+		const source = 'A<ref name="x" />\n{{reflist|refs=\n<ref name="x">X, see {{r|y}}</ref>\n<ref name="y">Y</ref>\n}}';
+		const result = transformWikitext(source, { renameMap: { y: 'why' } });
+		expect(result.wikitext).toContain('<ref name="x">X, see {{r|why}}</ref>');
+		expect(result.wikitext).toContain('<ref name="why">Y</ref>');
+	});
+
+	it('dedupes refs nested in a list-defined note', () => {
+		const source = 'A<ref name="a">Same</ref> B{{efn|name=n}}\n{{notelist|refs=\n{{efn|name=n|Note<ref name="b">Same</ref>}}\n}}';
+		const result = transformWikitext(source, { dedupe: true });
+		expect(result.changes.deduped).toEqual([{ from: 'b', to: 'a' }]);
+		expect(result.wikitext).toContain('{{efn|name=n|Note<ref name="a" />}}');
+	});
+
+	it('keeps nesting definitions in their footnote template when list-defining', () => {
+		const source = 'A{{refn|name=n|Note citing <ref name="a">Alpha</ref>.}} B{{refn|name=n}}\n{{reflist}}';
+		const result = transformWikitext(source, { locationMode: 'all_ldr' });
+		expect(result.wikitext).toContain('A{{refn|name=n}} B{{refn|name=n}}');
+		expect(result.wikitext).toContain('{{refn|name=n|Note citing <ref name="a" />.}}\n<ref name="a">Alpha</ref>');
+	});
+
+	it('refuses to move a definition inline into its own body', () => {
+		const source = 'Intro.\n{{reflist|refs=\n<ref name="a">A, citing {{refn|name=b|B, citing <ref name="a" />}}</ref>\n}}\nLater<ref name="a" />';
+		const result = transformWikitext(source, { locationMode: 'all_inline' });
+		expect(result.wikitext).toBe('Intro.\n{{reflist}}\nLater<ref name="a">A, citing {{refn|name=b|B, citing <ref name="a" />}}</ref>');
+
+		const selfOnly = 'Intro<ref name="b" />.\n{{reflist|refs=\n<ref name="a">A, citing {{refn|name=b|B, citing <ref name="a" />}}</ref>\n}}';
+		const refused = transformWikitext(selfOnly, { locationMode: 'all_inline' });
+		expect(refused.wikitext).toContain('{{reflist|refs=\n<ref name="a">A, citing {{refn|name=b}}</ref>\n}}');
+		expect(refused.warnings).toHaveLength(1);
+	});
+
+	it('does not report refs that are not moving inline', () => {
+		const source = 'A<ref name="b">Bee, see {{r|b|x}}</ref> B<ref name="b" />';
+		expect(transformWikitext(source, { locationMode: 'keep' }).warnings).toEqual([]);
+		expect(transformWikitext(source, { locationMode: 'all_inline' }).warnings).toEqual([]);
+	});
+});
+
+describe('reference groups', () => {
+	it('targets each group\'s own reflist, accepting a quoted group parameter', () => {
+		const source = [
+			'Text <ref name="a">Alpha</ref> aside <ref name="n" group="notes">Note body</ref>',
+			'{{reflist|group="notes"}}',
+			'{{reflist}}'
+		].join('\n');
+		const result = transformWikitext(source, { locationMode: 'all_ldr' });
+
+		expect(result.wikitext).toContain('{{reflist|group="notes"|refs=\n<ref name="n">Note body</ref>\n}}');
+		expect(result.wikitext).toContain('{{reflist|refs=\n<ref name="a">Alpha</ref>\n}}');
+		expect(result.warnings).toEqual([]);
+	});
+
+	it('warns when a named group has uses but no list renders it', () => {
+		const source = 'Text <ref name="a">Alpha</ref> aside <ref group="notes">Note</ref>\n{{reflist}}';
+		const result = transformWikitext(source);
+
+		expect(result.wikitext).toBe(source);
+		expect(result.warnings).toEqual(['Group "notes" has uses but no {{reflist|group=notes}} or <references group="notes" /> renders it.']);
+	});
+
+	it('does not warn once an appended reflist renders the group', () => {
+		const source = 'Text <ref name="n" group="notes">Note</ref> again <ref name="n" group="notes" />';
+		const result = transformWikitext(source, { locationMode: 'all_ldr' });
+
+		expect(result.wikitext).toContain('{{reflist|group=notes|refs=');
+		expect(result.warnings).toEqual([]);
+	});
+
+	it('carries the group into copied ref markup', () => {
+		expect(formatCopy('n', 'ref', 'notes')).toBe('<ref name="n" group="notes" />');
+		expect(formatCopy('n', 'r', 'notes')).toBe('{{r|n|group=notes}}');
+		expect(formatCopy('n', 'raw', 'notes')).toBe('n');
+	});
+});
+
+describe('change log', () => {
+	const slices = (source: string, result: { wikitext: string; changeLog: Array<{ originalSpan: { start: number; end: number }; newSpan: { start: number; end: number } }> }) =>
+		result.changeLog.map((c) => [source.slice(c.originalSpan.start, c.originalSpan.end), result.wikitext.slice(c.newSpan.start, c.newSpan.end)]);
+
+	it('records renames and dedupes per use with their spans', () => {
+		const source = 'A<ref name="a">Alpha</ref> B<ref name="a" /> C<ref name="b">Alpha</ref>';
+		const result = transformWikitext(source, { renameMap: { a: 'alpha' }, dedupe: true });
+
+		expect(result.changeLog.map((c) => [c.op, c.refKey])).toEqual([
+			['rename', '::a'],
+			['rename', '::a'],
+			['dedupe', '::b']
+		]);
+		expect(slices(source, result)).toEqual([
+			['<ref name="a">Alpha</ref>', '<ref name="alpha">Alpha</ref>'],
+			['<ref name="a" />', '<ref name="alpha" />'],
+			['<ref name="b">Alpha</ref>', '<ref name="alpha" />']
+		]);
+		expect(result.changeLog[2].reason).toBe('Merged duplicate "b" into "alpha"');
+	});
+
+	it('records moves in both directions, including the reference list rewrite', () => {
+		const inline = 'A<ref name="a">Alpha</ref> B<ref name="a" />\n{{reflist}}';
+		const toLdr = transformWikitext(inline, { locationMode: 'all_ldr' });
+		expect(toLdr.changeLog.map((c) => [c.op, c.refKey, c.reason])).toEqual([
+			['move-ldr', '::a', 'Moved definition of "a" to the reference list'],
+			['move-ldr', null, 'Moved 1 definition into {{reflist}}']
+		]);
+
+		const back = transformWikitext(toLdr.wikitext, { locationMode: 'all_inline' });
+		expect(back.wikitext).toBe(inline);
+		expect(back.changeLog.map((c) => c.op)).toEqual(['move-inline', 'move-inline']);
+		expect(slices(toLdr.wikitext, back)[0]).toEqual(['<ref name="a" />', '<ref name="a">Alpha</ref>']);
+	});
+
+	it('maps spans through {{r}} collapses', () => {
+		const source = 'A<ref name="a">Alpha</ref> C<ref name="a" />{{rp|5}} D<ref name="c">C</ref>';
+		const result = transformWikitext(source, { useTemplateR: true, renameMap: { c: 'see' } });
+
+		expect(result.wikitext).toBe('A<ref name="a">Alpha</ref> C{{r|a|p=5}} D<ref name="see">C</ref>');
+		const collapse = result.changeLog.find((c) => c.op === 'collapse-r');
+		expect(collapse && source.slice(collapse.originalSpan.start, collapse.originalSpan.end)).toBe('<ref name="a" />{{rp|5}}');
+		expect(collapse && result.wikitext.slice(collapse.newSpan.start, collapse.newSpan.end)).toBe('{{r|a|p=5}}');
+		const rename = result.changeLog.find((c) => c.op === 'rename');
+		expect(rename && result.wikitext.slice(rename.newSpan.start, rename.newSpan.end)).toBe('<ref name="see">C</ref>');
+	});
+
+	it('is empty when nothing changes', () => {
+		expect(transformWikitext('A<ref name="a">Alpha</ref>').changeLog).toEqual([]);
+	});
+});
+
+describe('selective apply', () => {
+	const source = [
+		'A<ref name="a">Alpha</ref> B<ref name="a" /> C<ref name="b">Alpha</ref> D<ref name="c">Gamma</ref> E<ref name="c" />',
+		'{{reflist}}'
+	].join('\n');
+	const options = { dedupe: true, locationMode: 'all_ldr' as const, renameMap: { c: 'gamma' } };
+
+	it('gives every edit of one operation the same ID', () => {
+		const dryRun = transformWikitext(source, options);
+		const ids = Array.from(new Set(dryRun.changeLog.map((c) => c.id)));
+
+		expect(ids).toEqual(['move-ldr:::a', 'dedupe:::b', 'rename:::c', null]);
+		expect(summarizeOperations(dryRun.changeLog)).toEqual([
+			{ id: 'move-ldr:::a', op: 'move-ldr', reason: 'Moved definition of "a" to the reference list', edits: 1 },
+			{ id: 'dedupe:::b', op: 'dedupe', reason: 'Merged duplicate "b" into "a"', edits: 1 },
+			{ id: 'rename:::c', op: 'rename', reason: 'Renamed "c" to "gamma"', edits: 2 }
+		]);
+	});
+
+	it('leaves out rejected operations and keeps the reference list consistent', () => {
+		const result = transformWikitext(source, { ...options, reject: ['dedupe:::b', 'move-ldr:::a'] });
+
+		// Kept apart from "a", "b" now moves to the list like every other ref in this mode
+		expect(result.wikitext).toBe([
+			'A<ref name="a">Alpha</ref> B<ref name="a" /> C<ref name="b" /> D<ref name="gamma" /> E<ref name="gamma" />',
+			'{{reflist|refs=\n<ref name="b">Alpha</ref>\n<ref name="gamma">Gamma</ref>\n}}'
+		].join('\n'));
+		expect(result.changes.deduped).toEqual([]);
+		expect(result.changeLog.map((c) => c.id)).not.toContain('dedupe:::b');
+	});
+
+	it('applies only the accepted operations', () => {
+		const result = transformWikitext(source, { ...options, accept: ['rename:::c'] });
+
+		expect(result.wikitext).toBe(source.replace(/name="c"/g, 'name="gamma"'));
+		expect(result.changes.renamed).toEqual([{ from: 'c', to: 'gamma' }]);
+	});
+});
+
+describe('splitting a ref', () => {
+	const book = '{{cite book |title=Atlas |page=4}}';
+
+	it('moves the chosen uses to a new inline definition with its own page', () => {
+		const source = `A<ref name="atlas">${book}</ref> B<ref name="atlas" /> C<ref name="atlas" />`;
+		const result = transformWikitext(source, { split: [{ name: 'atlas', uses: [2], newName: 'atlas-p9', page: '9' }] });
+
+		expect(result.wikitext).toBe(
+			`A<ref name="atlas">${book}</ref> B<ref name="atlas" /> C<ref name="atlas-p9">{{cite book |title=Atlas |page=9}}</ref>`
+		);
+		expect(result.changes.split).toEqual([{ from: 'atlas', to: 'atlas-p9', uses: 1 }]);
+		expect(summarizeOperations(result.changeLog)).toEqual([
+			{ id: 'split:::atlas-p9', op: 'split', reason: 'Split "atlas-p9" off "atlas" with its own definition', edits: 1 }
+		]);
+		expect(verifyTransform(source, result.wikitext, result.changes).ok).toBe(true);
+	});
+
+	it('writes the body again at a remaining use when the definition is split off', () => {
+		const source = `A<ref name="atlas">${book}</ref> B<ref name="atlas" /> C{{r|atlas}}`;
+		const result = transformWikitext(source, { split: [{ name: 'atlas', uses: [0, 2], newName: 'atlas2' }] });
+
+		expect(result.wikitext).toBe(
+			`A<ref name="atlas2">${book}</ref> B<ref name="atlas">${book}</ref> C<ref name="atlas2" />`
+		);
+		expect(new Set(result.changeLog.map((c) => c.id))).toEqual(new Set(['split:::atlas2']));
+		expect(verifyTransform(source, result.wikitext, result.changes).ok).toBe(true);
+	});
+
+	it('writes the copy into a {{r}} call it is split onto', () => {
+		const source = `A<ref name="atlas">${book}</ref> B{{r|atlas|p=4}}`;
+		const split = [{ name: 'atlas', uses: [1], newName: 'atlas2' }];
+		const expected = `A<ref name="atlas">${book}</ref> B<ref name="atlas2">${book}</ref>{{rp|p=4}}`;
+
+		[false, true].forEach((useTemplateR) => {
+			const result = transformWikitext(source, { split, useTemplateR });
+			expect(result.wikitext).toBe(expected);
+			expect(result.warnings).toEqual([]);
+			expect(verifyTransform(source, result.wikitext, result.changes).ok).toBe(true);
+		});
+		expect(transformWikitext(`${source} C{{r|atlas|q=Quote}}`, { split: [{ name: 'atlas', uses: [2], newName: 'atlas2' }] }).warnings)
+			.toEqual(['Cannot split "atlas": none of the chosen uses can hold the definition of "atlas2".']);
+	});
+
+	it('lists the copy of a list-defined ref next to it', () => {
+		const source = [
+			'A<ref name="atlas" /> B<ref name="atlas" />',
+			'{{reflist|refs=',
+			`<ref name="atlas">{{cite book\n|title=Atlas\n|pages=4–5\n}}</ref>`,
+			'}}'
+		].join('\n');
+		const result = transformWikitext(source, { split: [{ name: 'atlas', uses: [1], newName: 'atlas-p9', page: '9' }] });
+
+		expect(result.wikitext).toBe([
+			'A<ref name="atlas" /> B<ref name="atlas-p9" />',
+			'{{reflist|refs=',
+			`<ref name="atlas">{{cite book\n|title=Atlas\n|pages=4–5\n}}</ref>`,
+			`<ref name="atlas-p9">{{cite book\n|title=Atlas\n|page=9\n}}</ref>`,
+			'}}'
+		].join('\n'));
+		expect(transformWikitext(source, {
+			locationMode: 'all_ldr',
+			split: [{ name: 'atlas', uses: [1], newName: 'atlas-p9' }]
+		}).wikitext).toContain('<ref name="atlas-p9">{{cite book\n|title=Atlas\n|pages=4–5\n}}</ref>');
+	});
+
+	it('appends the page in the spacing style of the template', () => {
+		const source = 'A<ref name="atlas">{{cite book |title=Atlas}}</ref> B<ref name="atlas" />';
+		const result = transformWikitext(source, { split: [{ name: 'atlas', uses: [1], newName: 'p9', page: '9' }] });
+
+		expect(result.wikitext).toContain('B<ref name="p9">{{cite book |title=Atlas |page=9}}</ref>');
+	});
+
+	it('is not undone by dedupe and can be rejected', () => {
+		const source = `A<ref name="atlas">${book}</ref> B<ref name="atlas" />`;
+		const split = [{ name: 'atlas', uses: [1], newName: 'copy' }];
+
+		expect(transformWikitext(source, { dedupe: true, split }).wikitext).toBe(`A<ref name="atlas">${book}</ref> B<ref name="copy">${book}</ref>`);
+		expect(transformWikitext(source, { split, reject: ['split:::copy'] }).wikitext).toBe(source);
+	});
+
+	it('refuses splits that would leave the ref unused or reuse a name', () => {
+		const source = `A<ref name="atlas">${book}</ref> B<ref name="atlas" /> C<ref name="b">B</ref>`;
+		const result = transformWikitext(source, {
+			split: [{ name: 'atlas', uses: [0, 1], newName: 'x' }, { name: 'atlas', uses: [1], newName: 'b' }]
+		});
+
+		expect(result.wikitext).toBe(source);
+		expect(result.warnings).toEqual([
+			'Cannot split "atlas": choose some but not all of its uses.',
+			'Cannot split "atlas" into "b": that name is already taken.'
+		]);
+	});
+});
+
+describe('editing a ref body', () => {
+	const edit = [{ name: 'atlas', content: '{{cite book |title=Atlas |page=9}}' }];
+
+	it('replaces the body where it is written and logs the edit', () => {
+		const source = 'A<ref name = atlas>{{cite book |title=Atlas}}</ref> B<ref name="atlas" /> C<ref>Bare</ref>';
+		const result = transformWikitext(source, { edit });
+
+		expect(result.wikitext).toBe('A<ref name = atlas>{{cite book |title=Atlas |page=9}}</ref> B<ref name="atlas" /> C<ref>Bare</ref>');
+		expect(result.changes.edited).toEqual(['atlas']);
+		expect(summarizeOperations(result.changeLog)).toEqual([
+			{ id: 'edit:::atlas', op: 'edit', reason: 'Edited the body of "atlas"', edits: 1 }
+		]);
+		expect(verifyTransform(source, result.wikitext, result.changes).ok).toBe(true);
+		expect(transformWikitext(source, { edit, reject: ['edit:::atlas'] }).wikitext).toBe(source);
+	});
+
+	it('addresses the name as written and edits nameless refs by ID', () => {
+		const source = 'A<ref name="atlas">Old</ref> B<ref>Bare</ref>';
+		const result = transformWikitext(source, {
+			edit: [...edit, { name: '__nameless_0', content: 'Bare, p. 2' }],
+			renameMap: { atlas: 'book' }
+		});
+
+		expect(result.wikitext).toBe('A<ref name="book">{{cite book |title=Atlas |page=9}}</ref> B<ref>Bare, p. 2</ref>');
+		expect(summarizeOperations(result.changeLog).map((operation) => operation.reason)).toEqual([
+			'Renamed "atlas" to "book" and edited its body',
+			'Edited the body of "__nameless_0"'
+		]);
+	});
+
+	it('edits list-defined refs in place and when the list is rebuilt', () => {
+		const source = 'A<ref name="atlas" />\n{{reflist|refs=\n<ref name="atlas">Old</ref>\n}}';
+		const expected = 'A<ref name="atlas" />\n{{reflist|refs=\n<ref name="atlas">{{cite book |title=Atlas |page=9}}</ref>\n}}';
+
+		expect(transformWikitext(source, { edit }).wikitext).toBe(expected);
+		const rebuilt = transformWikitext(source, { edit, locationMode: 'all_ldr' });
+		expect(rebuilt.wikitext).toBe(expected);
+		expect(summarizeOperations(rebuilt.changeLog).map((operation) => operation.id)).toEqual(['edit:::atlas']);
+	});
+
+	it('refuses edits around nested refs', () => {
+		const source = 'A{{efn|name=n|Note<ref name="x">X</ref>}} B<ref name="atlas">Old</ref>\n{{notelist}}';
+		const result = transformWikitext(source, {
+			edit: [{ name: 'n', group: 'lower-alpha', content: 'Plain note' }, { name: 'atlas', content: 'See <ref name="y">Y</ref>' }, { name: 'gone', content: 'X' }]
+		});
+
+		expect(result.wikitext).toBe(source);
+		expect(result.warnings).toEqual([
+			'Cannot edit "n" here: its body would hold other refs. Edit it in the source instead.',
+			'Cannot edit "atlas" here: its body would hold other refs. Edit it in the source instead.',
+			'Cannot edit "gone": it has no definition on this page.'
+		]);
+	});
+});
+
+describe('cite parameter migration', () => {
+	const text = 'A<ref name="a">{{cite web |title=T |accessdate=2020-01-02 |deadurl=no}}</ref> B<ref name="a" />\n'
+		+ '<!-- {{cite web|accessdate=x}} -->\n* {{Cite book|title=B|authorlink=X}}';
+
+	it('rewrites params in place and reports each rewrite', () => {
+		const result = transformWikitext(text, { migrateParams: true });
+		expect(result.wikitext).toBe('A<ref name="a">{{cite web |title=T |access-date=2020-01-02 |url-status=live}}</ref> B<ref name="a" />\n'
+			+ '<!-- {{cite web|accessdate=x}} -->\n* {{Cite book|title=B|author-link=X}}');
+		expect(result.changes.migrated).toEqual([
+			{ template: 'cite web', from: 'accessdate', to: 'access-date' },
+			{ template: 'cite web', from: 'deadurl', to: 'url-status', value: { from: 'no', to: 'live' } },
+			{ template: 'Cite book', from: 'authorlink', to: 'author-link' }
+		]);
+		expect(result.changeLog.map((change) => [change.id, change.reason])).toEqual([
+			['migrate@15', 'Renamed accessdate to access-date, deadurl=no to url-status=live in {{cite web}}'],
+			['migrate@133', 'Renamed authorlink to author-link in {{Cite book}}']
+		]);
+	});
+
+	it('maps templates behind earlier edits back to the input', () => {
+		const result = transformWikitext(text, { migrateParams: true, renameMap: { a: 'web' }, reject: ['migrate@133'] });
+		expect(result.wikitext).toContain('<ref name="web">{{cite web |title=T |access-date=2020-01-02 |url-status=live}}</ref>');
+		expect(result.wikitext).toContain('{{Cite book|title=B|authorlink=X}}');
+		// The template is inside the renamed ref, so it maps to the start of that edit
+		const migration = result.changeLog.find((change) => change.op === 'migrate');
+		expect(migration?.id).toBe('migrate@1');
+		expect(result.wikitext.slice(migration!.newSpan.start, migration!.newSpan.end)).toBe('{{cite web |title=T |access-date=2020-01-02 |url-status=live}}');
+	});
+});
+
+describe('date normalization', () => {
+	const text = '{{Use dmy dates|cs1-dates=ly}}\nA<ref>{{cite web |title=T |date=May 6, 2020 |access-date=6 May 2021}}</ref>'
+		+ ' B<ref>{{cite news |date=6/5/2020}}</ref>';
+
+	it('rewrites dates in the page format and lists the ambiguous ones', () => {
+		const result = transformWikitext(text, { normalizeDates: true });
+		expect(result.wikitext).toBe('{{Use dmy dates|cs1-dates=ly}}\nA<ref>{{cite web |title=T |date=6 May 2020 |access-date=2021-05-06}}</ref>'
+			+ ' B<ref>{{cite news |date=6/5/2020}}</ref>');
+		expect(result.changes.redated).toEqual([
+			{ template: 'cite web', param: 'date', from: 'May 6, 2020', to: '6 May 2020' },
+			{ template: 'cite web', param: 'access-date', from: '6 May 2021', to: '2021-05-06' }
+		]);
+		expect(result.changeLog.map((change) => [change.id, change.reason])).toEqual([
+			['date@37', 'Rewrote date=May 6, 2020 as 6 May 2020, access-date=6 May 2021 as 2021-05-06 in {{cite web}}']
+		]);
+		expect(result.warnings).toEqual(['Left date=6/5/2020 in {{cite news}} as written: the day and month could be read either way.']);
+	});
+
+	it('runs after param migration and leaves pages without a date template alone', () => {
+		const migrated = transformWikitext('{{Use mdy dates}}<ref>{{cite web|accessdate=2020-05-06}}</ref>', { migrateParams: true, normalizeDates: true });
+		expect(migrated.wikitext).toBe('{{Use mdy dates}}<ref>{{cite web|access-date=May 6, 2020}}</ref>');
+		expect(migrated.changeLog.map((change) => change.id)).toEqual(['migrate@22', 'date@22']);
+		const plain = transformWikitext('<ref>{{cite web|date=2020-05-06}}</ref>', { normalizeDates: true });
+		expect(plain.wikitext).toBe('<ref>{{cite web|date=2020-05-06}}</ref>');
+		expect(plain.warnings).toEqual(['Dates were left as written: the page has no {{Use dmy dates}} or {{Use mdy dates}}.']);
+	});
+});
+
+describe('sub-references', () => {
+	const text = [
+		'A<ref name="book">{{cite book |title=Book}}</ref>',
+		'B<ref extends="book">p. 12</ref>',
+		'C<ref name="book" details="p. 30" />',
+		'D<ref name="p40" extends="book">p. 40</ref> E<ref name="p40" />',
+		'F<ref name="other">{{cite book |title=Other}}</ref><ref extends="other">p. 12</ref>'
+	].join('\n');
+
+	it('links sub-references to the ref they extend', () => {
+		const refs = parseReferences(text);
+		const book = refs.find((ref) => ref.id === 'book');
+		expect(book?.children).toHaveLength(3);
+		expect(book?.uses).toHaveLength(1);
+		const children = refs.filter((ref) => ref.parent === 'book');
+		expect(children.map((ref) => [ref.name, ref.contentWikitext, ref.uses.length])).toEqual([
+			[null, 'p. 12', 1],
+			[null, 'p. 30', 1],
+			['p40', 'p. 40', 2]
+		]);
+	});
+
+	it('points sub-references at the new name of a renamed parent', () => {
+		const result = transformWikitext(text, { renameMap: { book: 'smith' } });
+		expect(result.wikitext).toContain('B<ref extends="smith">p. 12</ref>');
+		expect(result.wikitext).toContain('C<ref name="smith" details="p. 30" />');
+		expect(result.wikitext).toContain('D<ref name="p40" extends="smith">p. 40</ref> E<ref name="p40" />');
+		expect(result.changeLog.filter((change) => change.id === 'rename:::book')).toHaveLength(4);
+		expect(verifyTransform(text, result.wikitext, result.changes).ok).toBe(true);
+
+		const rejected = transformWikitext(text, { renameMap: { book: 'smith' }, reject: ['rename:::book'] });
+		expect(rejected.wikitext).toBe(text);
+	});
+
+	it('follows merges of the parent and never merges sub-references themselves', () => {
+		const source = `${text}\nG<ref name="copy">{{cite book |title=Book}}</ref><ref extends="copy">p. 12</ref>`;
+		const result = transformWikitext(source, { dedupe: true });
+		expect(result.changes.deduped).toEqual([{ from: 'copy', to: 'book' }]);
+		expect(result.wikitext).toContain('G<ref name="book" /><ref extends="book">p. 12</ref>');
+		expect(result.wikitext).toContain('<ref extends="other">p. 12</ref>');
+	});
+
+	it('keeps sub-references in place when refs move to the reference list', () => {
+		const result = transformWikitext(`${text}\n<references />`, { locationMode: 'all_ldr', renameMap: { book: 'smith' } });
+		expect(result.wikitext).toContain('A<ref name="smith" />');
+		expect(result.wikitext).toContain('B<ref extends="smith">p. 12</ref>');
+		expect(result.wikitext).toContain('D<ref name="p40" extends="smith">p. 40</ref> E<ref name="p40" />');
+		expect(result.wikitext).toContain('<ref name="smith">{{cite book |title=Book}}</ref>\n');
+	});
+});
+
+describe('reference list order', () => {
+	const source = `Intro<ref name="zeta" /> then<ref name="new">{{cite book |last=Adams |year=2001 |title=New}}</ref> and<ref name="alpha" /> last<ref name="mid" />
+
+{{reflist|refs=
+<!-- Books -->
+<ref name="alpha">{{cite book |last=Young |year=1999 |title=A}}</ref>
+<ref name="zeta">{{cite book |last=Brown |year=2010 |title=Z}}</ref> <!-- dead link -->
+
+<!-- Web -->
+<ref name="mid">{{cite web |title=M}}</ref>
+<!-- end of list -->
+}}`;
+
+	const refsBlock = (order: LdrOrder): string => {
+		const text = transformWikitext(source, { locationMode: 'all_ldr', ldrOrder: order }).wikitext;
+		return text.slice(text.indexOf('|refs=') + 6);
+	};
+
+	it('keeps the written order and appends new entries', () => {
+		expect(refsBlock('preserve')).toBe(`
+<!-- Books -->
+<ref name="alpha">{{cite book |last=Young |year=1999 |title=A}}</ref>
+<ref name="zeta">{{cite book |last=Brown |year=2010 |title=Z}}</ref> <!-- dead link -->
+
+<!-- Web -->
+<ref name="mid">{{cite web |title=M}}</ref>
+<ref name="new">{{cite book |last=Adams |year=2001 |title=New}}</ref>
+<!-- end of list -->
+}}`);
+	});
+
+	it('moves comments and blank lines with their entry', () => {
+		expect(refsBlock('first-use')).toBe(`
+<ref name="zeta">{{cite book |last=Brown |year=2010 |title=Z}}</ref> <!-- dead link -->
+<ref name="new">{{cite book |last=Adams |year=2001 |title=New}}</ref>
+<!-- Books -->
+<ref name="alpha">{{cite book |last=Young |year=1999 |title=A}}</ref>
+
+<!-- Web -->
+<ref name="mid">{{cite web |title=M}}</ref>
+<!-- end of list -->
+}}`);
+	});
+
+	it('sorts by name or by author and year', () => {
+		const names = (order: LdrOrder): string[] => (refsBlock(order).match(/<ref name="[^"]+"/g) ?? []).map((tag) => tag.slice(11, -1));
+		expect(names('name')).toEqual(['alpha', 'mid', 'new', 'zeta']);
+		expect(names('author-year')).toEqual(['new', 'zeta', 'alpha', 'mid']);
+		const result = transformWikitext(source, { locationMode: 'all_ldr', ldrOrder: 'author-year' });
+		expect(result.changeLog.map((change) => change.reason)).toContain('Moved 1 definition into {{reflist}}');
+		expect(transformWikitext(source, { locationMode: 'all_ldr', sortRefs: true }).wikitext)
+			.toBe(transformWikitext(source, { locationMode: 'all_ldr', ldrOrder: 'name' }).wikitext);
+	});
+});
+
+describe('comments next to refs', () => {
+	it('keeps comments inside a ref body when it moves', () => {
+		const source = 'A<ref name="a">Foo <!-- dead link --></ref> B<ref name="a" />\n{{reflist}}';
+		const result = transformWikitext(source, { locationMode: 'all_ldr' });
+		expect(result.wikitext).toBe('A<ref name="a" /> B<ref name="a" />\n{{reflist|refs=\n<ref name="a">Foo <!-- dead link --></ref>\n}}');
+	});
+
+	it('moves a comment after an in-text definition with it', () => {
+		const source = 'A<ref name="a">Foo</ref> <!-- dead link, see talk --> B<ref name="a" /><!-- use note -->\n{{reflist}}';
+		const moved = transformWikitext(source, { locationMode: 'all_ldr' });
+		expect(moved.wikitext).toBe('A<ref name="a" /> B<ref name="a" /><!-- use note -->\n{{reflist|refs=\n<ref name="a">Foo</ref> <!-- dead link, see talk -->\n}}');
+		expect(verifyTransform(source, moved.wikitext, moved.changes).ok).toBe(true);
+
+		const later = transformWikitext('A<ref name="a" /> B<ref name="a">Foo</ref><!-- x --> C', { locationMode: 'all_inline' });
+		expect(later.wikitext).toBe('A<ref name="a">Foo</ref><!-- x --> B<ref name="a" /> C');
+	});
+
+	it('carries the comments on the line of an entry to the use a definition moves to', () => {
+		const source = `A<ref name="a" /> B<ref name="b" />
+{{reflist|refs=
+<ref name="a">Foo</ref> <!-- dead link -->
+<!-- about b --> <ref name="b">Bar</ref>
+}}`;
+		const result = transformWikitext(source, { locationMode: 'all_inline' });
+		expect(result.wikitext).toBe('A<ref name="a">Foo</ref><!-- dead link --> B<!-- about b --><ref name="b">Bar</ref>\n{{reflist}}');
+	});
+
+	it('leaves headings of a refs= block in the list', () => {
+		const source = `A<ref name="a" /> B<ref name="b" /> C<ref name="c" /> D<ref name="b" />
+{{reflist|refs=
+<!-- Books -->
+<ref name="a">Foo</ref>
+<ref name="b">Bar</ref>
+
+<!-- Websites -->
+<ref name="c">Baz</ref>
+}}`;
+		const result = transformWikitext(source, { locationMode: { minUsesForLdr: 2 } });
+		expect(result.wikitext).toBe(`A<ref name="a">Foo</ref> B<ref name="b" /> C<ref name="c">Baz</ref> D<ref name="b" />
+{{reflist|refs=
+<!-- Books -->
+<ref name="b">Bar</ref>
+
+<!-- Websites -->
+}}`);
+	});
+
+	it('keeps comments in {{r}} params out of ref names', () => {
+		const source = 'A{{r|a<!-- x -->|p=5}} B{{r|name=a <!-- y -->}}\n{{reflist|refs=\n<ref name="a">Foo</ref>\n}}';
+		expect(parseReferences(source).map((ref) => [ref.name, ref.uses.length])).toEqual([['a', 2]]);
+		expect(transformWikitext(source, { renameMap: { a: 'alpha' } }).wikitext)
+			.toBe('A<ref name="alpha" />{{rp|p=5}} B<ref name="alpha" />\n{{reflist|refs=\n<ref name="alpha">Foo</ref>\n}}');
+	});
+
+	it('leaves comments between {{r}} calls in place', () => {
+		const source = 'A{{r|a}}<!-- c -->{{r|b}} {{r|a}}\n{{reflist|refs=\n<ref name="a">Foo</ref>\n<ref name="b">Bar</ref> <!-- b note -->\n}}';
+		const result = transformWikitext(source, { useTemplateR: true, renameMap: { b: 'bee' }, locationMode: 'all_ldr' });
+		expect(result.wikitext).toBe('A{{r|a}}<!-- c -->{{r|bee|a}}\n{{reflist|refs=\n<ref name="a">Foo</ref>\n<ref name="bee">Bar</ref> <!-- b note -->\n}}');
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { findSections, sectionAt, spliceSection } from '../../src/core/sections';
+import { TransformOptions, summarizeOperations, transformWikitext } from '../../src/core/references';
+
+const page = [
+	'Lead <ref name="a">Alpha</ref>.',
+	'',
+	'== History ==',
+	'Old <ref name="a" />.',
+	'=== Early ===',
+	'Early text.',
+	'<!--',
+	'== Not a heading ==',
+	'-->',
+	'== References ==',
+	'{{reflist}}',
+	''
+].join('\n');
+
+describe('findSections', () => {
+	it('numbers sections like MediaWiki and nests subsections in their parent', () => {
+		const sections = findSections(page);
+
+		expect(sections.map((s) => s.title)).toEqual([null, 'History', 'Early', 'References']);
+		const history = sections[1];
+		expect(page.slice(history.start, history.end)).toContain('=== Early ===');
+		expect(page.slice(history.start, history.end)).not.toContain('{{reflist}}');
+		expect(sections[3].end).toBe(page.length);
+		expect(sectionAt(sections, page.indexOf('Early text')).title).toBe('Early');
+		expect(sectionAt(sections, 0).index).toBe(0);
+	});
+
+	it('splices edited section text into the page, keeping the separator after it', () => {
+		const spliced = spliceSection(page, 2, '=== Early ===\nRewritten.\n\n\n');
+
+		expect(spliced?.wikitext).toContain('=== Early ===\nRewritten.\n== References ==');
+		expect(spliced && spliced.wikitext.slice(spliced.span.start, spliced.span.end)).toBe('=== Early ===\nRewritten.');
+		expect(spliceSection(page, 9, 'x')).toBeNull();
+	});
+});
+
+describe('section-scoped transforms', () => {
+	it('emits only the edited section and warns about changes elsewhere', () => {
+		const section = findSections(page)[1];
+		const result = transformWikitext(page, { locationMode: 'all_ldr', section });
+
+		expect(result.wikitext).toContain('{{reflist|refs=\n<ref name="a">Alpha</ref>\n}}');
+		expect(result.sectionText).toBe(page.slice(section.start, section.end));
+		expect(result.warnings).toEqual([
+			'Changes outside the edited section need a full-page edit and were left out: 1 in the lead section, 1 in section "References".'
+		]);
+	});
+
+	it('applies changes that fall inside the edited section', () => {
+		const section = findSections(page)[0];
+		const result = transformWikitext(page, { renameMap: { a: 'alpha' }, section });
+
+		expect(result.sectionText).toBe('Lead <ref name="alpha">Alpha</ref>.\n\n');
+		expect(result.warnings).toEqual([
+			'Changes outside the edited section need a full-page edit and were left out: 1 in section "History".'
+		]);
+	});
+
+	it('leaves rejected text passes out of the section text', () => {
+		const text = '{{Use dmy dates}}\nLead <ref name="a">{{cite web |url=U |accessdate=2020-05-06}}</ref><ref name="b">B</ref>.\n\n'
+			+ '== History ==\nOld <ref name="a" />{{rp|5}} and <ref name="b" /><ref name="a" /> <ref>{{cite news |date=2021-01-02 |title=T}}</ref>.\n';
+		const section = findSections(text)[1];
+		const options: TransformOptions = { locatorStyle: 'extends', migrateParams: true, normalizeDates: true, useTemplateR: true, section };
+		const dry = transformWikitext(text, options);
+		const ids = summarizeOperations(dry.changeLog).map((op) => op.id);
+
+		expect(dry.sectionText).toBe('== History ==\nOld <ref extends="a">p. 5</ref> and {{r|b|a}} <ref>{{cite news |date=2 January 2021 |title=T}}</ref>.\n');
+		expect(transformWikitext(text, { ...options, reject: ids }).sectionText).toBe(text.slice(section.start, section.end));
+		expect(transformWikitext(text, { ...options, reject: ids.filter((id) => id !== 'date@194') }).sectionText)
+			.toBe('== History ==\nOld <ref name="a" />{{rp|5}} and <ref name="b" /><ref name="a" /> <ref>{{cite news |date=2 January 2021 |title=T}}</ref>.\n');
+	});
+});
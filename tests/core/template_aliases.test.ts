@@ -0,0 +1,73 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { parseReferences, transformWikitext } from '../../src/core/references';
+import { extractMetadata } from '../../src/core/mass_rename';
+import {
+	getTemplateNames,
+	getWikiId,
+	isTemplateInFamily,
+	registerTemplateAliases,
+	resolveTemplateAlias
+} from '../../src/data/template_aliases';
+
+const onWiki = (dbName: string): void => {
+	vi.stubGlobal('mw', { config: { get: (key: string) => (key === 'wgDBname' ? dbName : null) } });
+};
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('template alias registry', () => {
+	it('falls back to the built-in English names outside MediaWiki', () => {
+		expect(getWikiId()).toBe('default');
+		expect(getTemplateNames('reflist')).toEqual(expect.arrayContaining(['reflist', 'references']));
+		expect(isTemplateInFamily('Rp', 'rp')).toBe(true);
+		expect(resolveTemplateAlias('Cite_Web')).toEqual({ family: 'cite', canonical: 'cite web' });
+		expect(resolveTemplateAlias('Infobox person')).toBeNull();
+	});
+
+	it('keys seeded local names by wgDBname', () => {
+		onWiki('zhwiki');
+		expect(getWikiId()).toBe('zhwiki');
+		expect(isTemplateInFamily('Refs', 'reflist')).toBe(true);
+		expect(isTemplateInFamily('參考資料', 'reflist')).toBe(true);
+		expect(resolveTemplateAlias('Cite web/auto')).toEqual({ family: 'cite', canonical: 'cite web' });
+		onWiki('jawiki');
+		expect(isTemplateInFamily('Refnest', 'refn')).toBe(true);
+		vi.unstubAllGlobals();
+		expect(isTemplateInFamily('參考資料', 'reflist')).toBe(false);
+	});
+
+	it('finds list-defined refs inside a localized reflist', () => {
+		onWiki('zhwiki');
+		const wikitext = 'Text<ref name="a" />\n{{參考資料|refs=<ref name="a">Alpha</ref>}}';
+		const refs = parseReferences(wikitext);
+		expect(refs).toHaveLength(1);
+		expect(refs[0].contentWikitext).toBe('Alpha');
+		expect(refs[0].uses).toHaveLength(1);
+	});
+
+	it('uses registered r and rp redirects when parsing and collapsing', () => {
+		registerTemplateAliases('r', 'r', ['Refr'], 'testwiki');
+		registerTemplateAliases('rp', 'rp', ['Page ref'], 'testwiki');
+		onWiki('testwiki');
+		const refs = parseReferences('A{{Refr|a}} B<ref name="a">Alpha</ref>');
+		expect(refs[0].uses).toHaveLength(2);
+
+		const result = transformWikitext('See <ref name="foo" />{{Page_ref|p=2}}<ref name="bar" />{{page ref|pp=4-5}}.', {
+			useTemplateR: true
+		});
+		expect(result.wikitext).toContain('{{r|foo|p=2|bar|pp2=4-5}}');
+	});
+
+	it('canonicalizes cite aliases before template-specific metadata', () => {
+		registerTemplateAliases('cite', 'cite tweet', ['Tweet'], 'testwiki');
+		onWiki('testwiki');
+		const meta = extractMetadata({
+			id: 'x', name: 'x', group: null, kind: 'ref', uses: [], definition: null,
+			contentWikitext: '{{Tweet |user=example |title=Hello |date=2020}}'
+		});
+		expect(meta.work).toBe('Twitter');
+		expect(meta.author).toBe('example');
+	});
+});
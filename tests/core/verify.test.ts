@@ -0,0 +1,117 @@
+import { readdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, it, expect } from 'vitest';
+import { LocatorStyle } from '../../src/core/locators';
+import { TransformOptions, transformWikitext } from '../../src/core/references';
+import { verifyTransform } from '../../src/core/verify';
+
+const fixtureDir = resolve(__dirname, '../fixtures/articles');
+const articles = readdirSync(fixtureDir).filter((file) => file.endsWith('.wiki'));
+
+const optionSets: Array<[string, TransformOptions]> = [];
+(['keep', 'all_inline', 'all_ldr', { minUsesForLdr: 2 }] as const).forEach((locationMode) => {
+	[false, true].forEach((useTemplateR) => {
+		[false, true].forEach((dedupe) => {
+			const label = `${typeof locationMode === 'string' ? locationMode : 'threshold'}, r=${useTemplateR}, dedupe=${dedupe}`;
+			optionSets.push([label, { locationMode, useTemplateR, dedupe, sortRefs: locationMode !== 'keep', normalizeAll: dedupe }]);
+		});
+	});
+});
+
+describe('verifyTransform over fixture articles', () => {
+	articles.forEach((file) => {
+		const source = readFileSync(resolve(fixtureDir, file), 'utf8');
+
+		it.each(optionSets)(`${file} keeps every citation (%s)`, (_label, options) => {
+			const result = transformWikitext(source, options);
+			expect(verifyTransform(source, result.wikitext, result.changes).issues).toEqual([]);
+		});
+
+		it(`${file} keeps every citation when renaming`, () => {
+			const result = transformWikitext(source, { renameMap: { gazetteer: 'Smith1998', ':0': 'Brown1971' }, locationMode: 'all_ldr' });
+			expect(verifyTransform(source, result.wikitext, result.changes).issues).toEqual([]);
+		});
+	});
+});
+
+describe('verifyTransform', () => {
+	const source = 'A<ref name="a">Alpha</ref> B<ref name="a" /> C<ref name="b">Beta</ref>\n{{reflist}}';
+
+	it('reports a dropped definition body', () => {
+		const report = verifyTransform(source, 'A<ref name="a">Alpha</ref> B<ref name="a" /> C\n{{reflist}}');
+
+		expect(report.ok).toBe(false);
+		expect(report.issues).toEqual([
+			{ kind: 'lost-content', ref: '"b"', message: 'The definition of "b" is missing from the result.' },
+			{ kind: 'unresolved-use', ref: '"b"', message: 'Uses of "b" no longer resolve.' }
+		]);
+	});
+
+	it('reports uses that were lost or left pointing at an old name', () => {
+		const renamed = 'A<ref name="alpha">Alpha</ref> B<ref name="a" /> C<ref name="b">Beta</ref>\n{{reflist}}';
+		const report = verifyTransform(source, renamed, { renamed: [{ from: 'a', to: 'alpha' }], deduped: [] });
+
+		expect(report.issues.map((issue) => [issue.kind, issue.ref])).toEqual([
+			['unresolved-use', '"alpha"'],
+			['undefined-ref', '"a"']
+		]);
+	});
+
+	it('reports a ref nested in its own definition', () => {
+		const report = verifyTransform(source, 'A<ref name="a">Alpha {{r|a}}</ref> B<ref name="a" /> C<ref name="b">Beta</ref>\n{{reflist}}');
+
+		expect(report.issues.map((issue) => issue.kind)).toEqual(['self-reference']);
+	});
+
+	it('accepts reordered template parameters and follows dedupes', () => {
+		const before = 'A<ref name="x">{{cite web |title=T |url=U}}</ref> B<ref name="y">{{cite web|url=U|title=T}}</ref>';
+		const after = 'A<ref name="x">{{cite web |url=U |title=T}}</ref> B<ref name="x" />';
+
+		expect(verifyTransform(before, after, { renamed: [], deduped: [{ from: 'y', to: 'x' }] })).toEqual({ ok: true, issues: [] });
+	});
+
+	it('accepts bodies whose cite params were migrated', () => {
+		const before = 'A<ref name="a">{{cite web |url=U |accessdate=2020-05-06}}</ref> B<ref name="a" /> C<ref>{{cite book |authorlink=X}}</ref>';
+		const result = transformWikitext(before, { migrateParams: true, renameMap: { a: 'alpha' } });
+
+		expect(result.changes.migratedRefs).toEqual(['a', '__nameless_0']);
+		expect(verifyTransform(before, result.wikitext, result.changes)).toEqual({ ok: true, issues: [] });
+	});
+
+	it('accepts bodies whose dates were rewritten', () => {
+		const before = '{{Use dmy dates}}\nA<ref name="a">{{cite web |url=U |date=2020-05-06}}</ref> B<ref>{{cite news |date=May 7, 2020}}</ref> C<ref>Plain</ref>';
+		const result = transformWikitext(before, { normalizeDates: true });
+
+		expect(result.changes.redatedRefs).toEqual(['a', '__nameless_0']);
+		expect(verifyTransform(before, result.wikitext, result.changes)).toEqual({ ok: true, issues: [] });
+	});
+
+	it('accepts unused list-defined refs dropped when moving inline', () => {
+		const before = 'A<ref name="a" />.\n{{reflist|refs=\n<ref name="a">Alpha</ref>\n<ref name="unused">Never cited</ref>\n}}';
+		const result = transformWikitext(before, { locationMode: 'all_inline' });
+
+		expect(result.changes.droppedUnused).toEqual(['unused']);
+		expect(verifyTransform(before, result.wikitext, result.changes)).toEqual({ ok: true, issues: [] });
+		expect(transformWikitext(before, { locationMode: 'keep' }).changes.droppedUnused).toEqual([]);
+	});
+
+	it('follows page pins converted to sub-references and back', () => {
+		const pinned = 'A<ref name="a">Alpha</ref> B<ref name="a" />{{rp|5}} C{{r|a|p=6}}\n{{reflist}}';
+		const extended = 'A<ref name="a">Alpha</ref> B<ref extends="a">p. 5</ref> C<ref name="a" details="p. 6" />\n{{reflist}}';
+		const checks: Array<[string, LocatorStyle]> = [[pinned, 'extends'], [extended, 'rp'], [extended, 'r']];
+
+		checks.forEach(([before, locatorStyle]) => {
+			const result = transformWikitext(before, { locatorStyle });
+			expect(result.wikitext).not.toBe(before);
+			expect(verifyTransform(before, result.wikitext, result.changes), locatorStyle).toEqual({ ok: true, issues: [] });
+		});
+		expect(verifyTransform(extended, 'A<ref name="a">Alpha</ref> B<ref name="a" />{{rp|5}} C\n{{reflist}}').issues)
+			.toEqual([{ kind: 'unresolved-use', ref: '"a"', message: '"a" has 2 uses but should have 3.' }]);
+	});
+
+	it('does not report problems the input already had', () => {
+		const broken = 'A<ref name="missing" /> B<ref name="b">Beta</ref>';
+
+		expect(verifyTransform(broken, broken).ok).toBe(true);
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeWikitext, findTemplateEnd } from '../../src/core/wikitext_tokenizer';
+
+describe('tokenizeWikitext', () => {
+	it('emits refs, r templates, and reflists in document order with source offsets', () => {
+		const source = 'A<ref name="a">Alpha</ref> B{{r|a}} C<ref name="a" />\n{{reflist|refs=\n<ref name="b">Bravo</ref>\n}}';
+		const tokens = tokenizeWikitext(source, { reflistNames: ['reflist'] });
+
+		expect(tokens.map((t) => t.type)).toEqual(['ref', 'template', 'ref', 'template']);
+		tokens.forEach((t) => {
+			expect(t.end).toBeGreaterThan(t.start);
+		});
+		expect(source.slice(tokens[0].start, tokens[0].end)).toBe('<ref name="a">Alpha</ref>');
+		expect(source.slice(tokens[1].start, tokens[1].end)).toBe('{{r|a}}');
+		expect(source.slice(tokens[2].start, tokens[2].end)).toBe('<ref name="a" />');
+
+		const reflist = tokens[3];
+		expect(reflist.type === 'template' && reflist.role).toBe('reflist');
+		if (reflist.type !== 'template') return;
+		expect(reflist.children).toHaveLength(1);
+		expect(source.slice(reflist.children[0].start, reflist.children[0].end)).toBe('<ref name="b">Bravo</ref>');
+	});
+
+	it('marks comments and nowiki blocks as inert and does not look inside them', () => {
+		const source = '<!-- <ref name="x">X</ref> --><nowiki><ref name="y" /></nowiki><pre>{{r|z}}</pre>';
+		const tokens = tokenizeWikitext(source);
+		expect(tokens.map((t) => t.type)).toEqual(['comment', 'nowiki', 'nowiki']);
+	});
+
+	it('keeps slashes in quoted attribute values and detects self-closing tags', () => {
+		const tokens = tokenizeWikitext('<ref name="a/b">Body</ref><ref name=c/>');
+		expect(tokens).toHaveLength(2);
+		const [full, self] = tokens;
+		expect(full.type === 'ref' && full.selfClosing).toBe(false);
+		expect(full.type === 'ref' && full.content).toBe('Body');
+		expect(self.type === 'ref' && self.selfClosing).toBe(true);
+		expect(self.type === 'ref' && self.attrs).toBe('name=c');
+	});
+
+	it('ignores a </ref> hidden in a comment inside the ref body', () => {
+		const source = '<ref>Foo <!-- </ref> --> bar</ref>';
+		const tokens = tokenizeWikitext(source);
+		expect(tokens).toHaveLength(1);
+		expect(tokens[0].end).toBe(source.length);
+	});
+
+	it('does not treat <references /> as a ref tag', () => {
+		const tokens = tokenizeWikitext('<references />');
+		expect(tokens.map((t) => t.type)).toEqual(['references']);
+	});
+
+	it('collects list-defined refs from a <references> tag body and keeps its raw attributes', () => {
+		const source = '<references group="n" responsive>\n<ref name="a">Alpha</ref>\n<!-- <ref name="x">X</ref> -->\n</references>';
+		const [tok] = tokenizeWikitext(source);
+
+		expect(tok.type).toBe('references');
+		if (tok.type !== 'references') return;
+		expect(tok.selfClosing).toBe(false);
+		expect(tok.attrs).toBe(' group="n" responsive');
+		expect(tok.end).toBe(source.length);
+		expect(tok.children).toHaveLength(1);
+		expect(source.slice(tok.children[0].start, tok.children[0].end)).toBe('<ref name="a">Alpha</ref>');
+	});
+
+	it('nests refs and recognized templates inside note and ref bodies', () => {
+		const source = '{{refn|name=n|See <ref name="a">A {{r|b}}</ref>}}{{reflist|refs=<ref name="x">X {{efn|Note<ref name="c" />}}</ref>}}';
+		const [note, list] = tokenizeWikitext(source, { reflistNames: ['reflist'], noteNames: ['refn', 'efn'] });
+
+		expect(note.type === 'template' && note.role).toBe('note');
+		if (note.type !== 'template' || list.type !== 'template') return;
+		const [inner] = note.children;
+		expect(inner.type).toBe('ref');
+		expect(inner.children.map((t) => source.slice(t.start, t.end))).toEqual(['{{r|b}}']);
+
+		const [ldr] = list.children;
+		expect(ldr.type).toBe('ref');
+		const [efn] = ldr.children;
+		expect(efn.type === 'template' && efn.role).toBe('note');
+		expect(efn.children.map((t) => source.slice(t.start, t.end))).toEqual(['<ref name="c" />']);
+	});
+
+	it('matches template braces across nested templates', () => {
+		const source = '{{r|a|p={{nowrap|1–2}}}} tail';
+		expect(findTemplateEnd(source, 0)).toBe(source.indexOf(' tail'));
+	});
+});